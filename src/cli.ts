@@ -22,11 +22,18 @@ import {
 import { spawn } from "child_process";
 import { cwd as getCwd } from "process";
 
-import { ALL_MODELS, OPENCODE_ZEN_MODELS, OPENROUTER_MODELS, type Model, type CustomModel, type CommandHistory, type Config, type Provider, type ChatMessage, type SafetyAnalysis, isCustomModel } from "./lib/types";
+import { DIRECT_PROVIDERS, OPENCODE_ZEN_MODELS, OFFLINE_MODEL, type Model, type CustomModel, type CommandHistory, type Config, type Provider, type ChatMessage, type CommandAlternative, type CommandExplanation, type CommandFailure, type PlanStep, type PlanStepOutcome, type PlanStepStatus, type SafetyAnalysis, type ApprovalScope, type ImpactSummary, type UndoSnapshot, isCustomModel, isDirectProvider, isOfflineModel } from "./lib/types";
 import { loadConfig, saveConfig, getApiKey, setApiKey, loadHistory, addToHistory, getCustomModels, getCustomModel } from "./lib/config";
-import { analyzeCommand, getSeverityColor } from "./lib/safety";
-import { translateToCommand, getShellInfo } from "./lib/api";
+import { analyzeCommand, estimateCommandImpact, getSeverityColor, type SafetyContext } from "./lib/safety";
+import { addApproval, describeApproval, getActiveApprovals, revokeApproval } from "./lib/approvals";
+import { appendAuditRecord, getAuditDecision } from "./lib/audit";
+import { describeImpact, formatBytes } from "./lib/impact";
+import { finishSnapshot, listSnapshots, restoreSnapshots, snapshotCommand } from "./lib/undo";
+import { translateAlternatives, explainCommand, suggestFix, planTask, resolvePlanStep, getShellInfo, reviewSafety, MAX_ALTERNATIVES } from "./lib/api";
 import { getTheme, setTheme, themes, themeNames, loadTheme } from "./lib/theme";
+import { checkBudget, describeBudget, formatCost, formatTokens, getSessionUsage } from "./lib/usage";
+import { findModel, getProviderModels, refreshCatalogs } from "./lib/catalog";
+import { LOCAL_PROVIDER_NAMES, describeLocalStatus, discoverLocalModels, getLocalModel } from "./lib/local-models";
 
 // Global state
 let renderer: CliRenderer;
@@ -35,6 +42,8 @@ let config: Config;
 let history: CommandHistory[] = [];
 let currentCwd = getCwd();
 let dryRunMode = false;
+// `mshell --no-cache` always asks the model
+const noCache = process.argv.includes("--no-cache");
 
 // Chat state
 let chatMessages: ChatMessage[] = [];
@@ -52,16 +61,37 @@ let inputHintText: TextRenderable;
 let helpBarText: TextRenderable;
 let modelSelector: SelectRenderable | null = null;
 let providerSelector: SelectRenderable | null = null;
+let approvalSelector: SelectRenderable | null = null;
+let planSelector: SelectRenderable | null = null;
 
 // Pending command state (for the most recent assistant message awaiting confirmation)
 let pendingMessageId: string | null = null;
 let awaitingConfirmation = false;
 
+// Aborts the translation request that is currently streaming
+let translationAbort: AbortController | null = null;
+
+// The most recent command that exited non-zero, for Ctrl+X F
+let lastFailure: { failure: CommandFailure; assistantMsgId: string } | null = null;
+
+// The multi-step plan being worked through, if any
+let activePlan: ActivePlan | null = null;
+
+// The budget warning is shown once per session
+let budgetWarned = false;
+
+// Blast-radius previews walk the filesystem, so each analysis is measured once, when its card is first drawn
+const impactCache = new WeakMap<SafetyAnalysis, ImpactSummary | undefined>();
+
 // Helper to generate message IDs
 function generateMessageId(): string {
   return `msg-${++messageIdCounter}`;
 }
 
+function getModelName(id: string | undefined): string {
+  return config.customModels?.find((m) => m.id === id)?.name ?? (id && findModel(id)?.name) ?? (id && getLocalModel(id, config)?.name) ?? id ?? "unknown model";
+}
+
 function isFreeModel(model: Model | CustomModel): model is Model & { free: true } {
   return !isCustomModel(model) && Boolean(model.free);
 }
@@ -77,7 +107,7 @@ async function main() {
   if (customModel) {
     currentModel = customModel;
   } else {
-    const savedModel = ALL_MODELS.find((m) => m.id === config.defaultModel);
+    const savedModel = findModel(config.defaultModel);
     if (savedModel) {
       currentModel = savedModel;
     }
@@ -94,7 +124,8 @@ async function main() {
 
   // Check for API key for current provider
   const apiKey = await getApiKey(config.provider);
-  if (!apiKey) {
+  // Custom and local models carry their own endpoint, so they need no provider key
+  if (!apiKey && config.provider !== "offline" && !isCustomModel(currentModel)) {
     await showProviderSetup();
   } else {
     createMainUI();
@@ -136,12 +167,32 @@ async function showProviderSetup() {
       description: "Access to many models from various providers",
       value: "openrouter",
     },
+    {
+      name: "Anthropic",
+      description: "Claude models at Anthropic's API, with your own key",
+      value: "anthropic",
+    },
+    {
+      name: "OpenAI",
+      description: "GPT models at OpenAI's API, with your own key",
+      value: "openai",
+    },
+    {
+      name: "Google",
+      description: "Gemini models at Google's API, with your own key",
+      value: "google",
+    },
+    {
+      name: "Offline",
+      description: "No API key. Rule-based translations for common requests",
+      value: "offline",
+    },
   ];
 
   providerSelector = new SelectRenderable(renderer, {
     id: "provider-select",
     width: 60,
-    height: 6,
+    height: 12,
     options,
     backgroundColor: "#1e293b",
     focusedBackgroundColor: "#1e293b",
@@ -163,6 +214,14 @@ async function showProviderSetup() {
     renderer.root.remove("setup-container");
     providerSelector = null;
 
+    if (provider === "offline") {
+      currentModel = OFFLINE_MODEL;
+      config.defaultModel = OFFLINE_MODEL.id;
+      saveConfig(config);
+      createMainUI();
+      return;
+    }
+
     await showApiKeyInput(provider);
   });
 
@@ -196,12 +255,12 @@ async function showApiKeyInput(provider: Provider) {
 
   const title = new TextRenderable(renderer, {
     id: "apikey-title",
-    content: t`${bold(fg("#60a5fa")(`${provider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter"} Setup`))}`,
+    content: t`${bold(fg("#60a5fa")(`${getProviderName(provider)} Setup`))}`,
     marginBottom: 1,
   });
   container.add(title);
 
-  const url = provider === "opencode-zen" ? "https://opencode.ai/auth" : "https://openrouter.ai/keys";
+  const url = isDirectProvider(provider) ? DIRECT_PROVIDERS[provider].keyUrl : provider === "opencode-zen" ? "https://opencode.ai/auth" : "https://openrouter.ai/keys";
   const instructions = new TextRenderable(renderer, {
     id: "apikey-instructions",
     content: t`Get your API key from: ${fg("#22c55e")(url)}
@@ -214,7 +273,7 @@ Enter your API key below:`,
   const input = new InputRenderable(renderer, {
     id: "api-key-input",
     width: 70,
-    placeholder: provider === "opencode-zen" ? "zen_..." : "sk-or-v1-...",
+    placeholder: isDirectProvider(provider) ? `${DIRECT_PROVIDERS[provider].keyPrefix}...` : provider === "opencode-zen" ? "zen_..." : "sk-or-v1-...",
     backgroundColor: "#1e293b",
     focusedBackgroundColor: "#334155",
     textColor: "#f8fafc",
@@ -246,9 +305,11 @@ ${fg("#64748b")("Press Enter to save | Ctrl+C to exit")}`,
 
       // Set default model based on provider
       if (provider === "opencode-zen") {
-        currentModel = OPENCODE_ZEN_MODELS.find((m) => m.id === "big-pickle") || OPENCODE_ZEN_MODELS[0];
+        const zenModels = getProviderModels("opencode-zen");
+        currentModel = zenModels.find((m) => m.id === "big-pickle" && !m.disabled) || zenModels.find((m) => !m.disabled) || zenModels[0];
       } else {
-        currentModel = OPENROUTER_MODELS[0];
+        const models = getProviderModels(isDirectProvider(provider) ? provider : "openrouter");
+        currentModel = models.find((m) => !m.disabled) || models[0];
       }
       config.defaultModel = currentModel.id;
       saveConfig(config);
@@ -328,6 +389,7 @@ function createMainUI() {
 
   // Add welcome message
   addSystemMessage(getWelcomeMessage());
+  refreshModelCatalogs();
 
   // === Input Container (at bottom) - OpenCode style ===
   inputContainer = new BoxRenderable(renderer, {
@@ -398,19 +460,42 @@ function createMainUI() {
 
 function getStatusBarContent(): StyledText {
   const theme = getTheme();
-  const providerName = config.provider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter";
+  const providerName = getProviderName(config.provider);
   const safeModeIndicator = dryRunMode ? fg(theme.colors.warning)("[DRY RUN]") : "";
   const safetyLevelColor = config.safetyLevel === "strict" ? theme.colors.warning : config.safetyLevel === "relaxed" ? theme.colors.error : theme.colors.success;
   const safetyIndicator = fg(safetyLevelColor)(`[${config.safetyLevel}]`);
   const repoContextIndicator = config.repoContext ? fg(theme.colors.info)("[Repo]") : "";
+  const usage = getSessionUsage();
+  const usageLabel = usage.requests > 0 ? fg(theme.colors.textMuted)("  Session: ") : "";
+  const usageIndicator = usage.requests > 0 ? fg(theme.colors.text)(`${formatCost(usage.cost)} (${formatTokens(usage.inputTokens + usage.outputTokens)} tokens)`) : "";
 
-  return t`${fg(theme.colors.textMuted)("Provider:")} ${fg(theme.colors.text)(providerName)}  ${fg(theme.colors.textMuted)("Model:")} ${fg(theme.colors.text)(currentModel.name)}  ${safetyIndicator}${safeModeIndicator ? " " : ""}${safeModeIndicator}${repoContextIndicator ? " " : ""}${repoContextIndicator}`;
+  return t`${fg(theme.colors.textMuted)("Provider:")} ${fg(theme.colors.text)(providerName)}  ${fg(theme.colors.textMuted)("Model:")} ${fg(theme.colors.text)(currentModel.name)}  ${safetyIndicator}${safeModeIndicator ? " " : ""}${safeModeIndicator}${repoContextIndicator ? " " : ""}${repoContextIndicator}${usageLabel}${usageIndicator}`;
+}
+
+function formatBudget(): string {
+  const { daily, monthly, action = "warn" } = config.budget ?? {};
+  const limits = [daily !== undefined && `${formatCost(daily)}/day`, monthly !== undefined && `${formatCost(monthly)}/month`].filter(Boolean);
+  return limits.length > 0 ? `${limits.join(", ")} (${action})` : "none";
+}
+
+// Show the session's spend after a model request, and warn once when a budget limit is reached
+function refreshUsage() {
+  statusBarText.content = getStatusBarContent();
+  if (budgetWarned) return;
+  const status = checkBudget(config.budget);
+  if (status) {
+    budgetWarned = true;
+    addSystemMessage(`Warning: ${describeBudget(status)}.${status.blocked ? " Paid models are blocked until the next period." : ""}`);
+  }
 }
 
 function getHelpBarContent(): StyledText {
   const theme = getTheme();
   if (awaitingConfirmation) {
-    return t`${fg(theme.colors.warning)(">>> Cmd+Enter or Enter to execute <<<")} ${fg(theme.colors.textMuted)("|")} ${fg(theme.colors.error)("Esc")}${fg(theme.colors.textMuted)(" Cancel")} ${fg(theme.colors.primary)("e")}${fg(theme.colors.textMuted)(" Edit")} ${fg(theme.colors.primary)("c")}${fg(theme.colors.textMuted)(" Copy")}`;
+    const pending = chatMessages.find((m) => m.id === pendingMessageId);
+    const hasAlternatives = Boolean(pending?.alternatives);
+    const isFix = Boolean(pending?.parentMessageId);
+    return t`${fg(theme.colors.warning)(">>> Cmd+Enter or Enter to execute <<<")} ${fg(theme.colors.textMuted)("|")} ${fg(theme.colors.error)("Esc")}${fg(theme.colors.textMuted)(" Cancel")} ${fg(theme.colors.primary)("a")}${fg(theme.colors.textMuted)(" Approve")} ${fg(theme.colors.primary)("e")}${fg(theme.colors.textMuted)(" Edit")} ${fg(theme.colors.primary)("c")}${fg(theme.colors.textMuted)(" Copy")}${fg(theme.colors.primary)(hasAlternatives ? " ↑↓" : "")}${fg(theme.colors.textMuted)(hasAlternatives ? " Alternatives" : "")}${fg(theme.colors.primary)(isFix ? " Ctrl+X F" : "")}${fg(theme.colors.textMuted)(isFix ? " Accept fix" : "")}`;
   }
   return t`${fg(theme.colors.primary)("Ctrl+X P")}${fg(theme.colors.textMuted)(" Commands")}  ${fg(theme.colors.primary)("Ctrl+Y")}${fg(theme.colors.textMuted)(" Safety")}  ${fg(theme.colors.primary)("Ctrl+Z")}${fg(theme.colors.textMuted)(" Exit")}`;
 }
@@ -420,8 +505,31 @@ function getInputHintContent(): StyledText {
   return t`${fg(theme.colors.primary)("Enter")} ${fg(theme.colors.textMuted)("to send")}`;
 }
 
+function getProviderName(provider: Provider): string {
+  if (isDirectProvider(provider)) return DIRECT_PROVIDERS[provider].name;
+  return provider === "opencode-zen" ? "OpenCode Zen" : provider === "openrouter" ? "OpenRouter" : provider === "offline" ? "Offline" : "Custom";
+}
+
+// Fetch stale model catalogs in the background, and say so if the current model is gone upstream
+function refreshModelCatalogs() {
+  refreshCatalogs(config.catalog)
+    .then((results) => {
+      if (!results.some((r) => r.refreshed) || isCustomModel(currentModel)) return;
+      const updated = findModel(currentModel.id);
+      if (!updated) return;
+      currentModel = updated;
+      statusBarText.content = getStatusBarContent();
+      if (updated.disabled) {
+        addSystemMessage(`${updated.name} is disabled: ${updated.disabledReason}. Choose another model with !model.`);
+      }
+    })
+    .catch(() => {
+      // The saved or bundled lists keep working
+    });
+}
+
 function getWelcomeMessage(): string {
-  const providerName = config.provider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter";
+  const providerName = getProviderName(config.provider);
   return `Ready. Using ${providerName}.\nType what you want to do, or press Ctrl+X P for command palette.`;
 }
 
@@ -449,7 +557,7 @@ function addUserMessage(content: string): ChatMessage {
   return msg;
 }
 
-function addAssistantMessage(content: string, command: string, safety: SafetyAnalysis): ChatMessage {
+function addAssistantMessage(content: string, command: string, safety: SafetyAnalysis, source?: Pick<ChatMessage, "model" | "provider" | "translation" | "alternatives" | "alternativeIndex" | "parentMessageId" | "planStep">): ChatMessage {
   const msg: ChatMessage = {
     id: generateMessageId(),
     type: "assistant",
@@ -458,12 +566,33 @@ function addAssistantMessage(content: string, command: string, safety: SafetyAna
     safety,
     timestamp: Date.now(),
     executed: false,
+    ...source,
+  };
+  chatMessages.push(msg);
+  renderMessage(msg);
+  return msg;
+}
+
+// Placeholder card that shows the command as it streams in
+function addStreamingMessage(content: string): ChatMessage {
+  const msg: ChatMessage = {
+    id: generateMessageId(),
+    type: "assistant",
+    content,
+    command: "",
+    timestamp: Date.now(),
+    streaming: true,
   };
   chatMessages.push(msg);
   renderMessage(msg);
   return msg;
 }
 
+function removeMessage(msgId: string): void {
+  chatScrollBox.remove(`msg-${msgId}`);
+  chatMessages = chatMessages.filter((m) => m.id !== msgId);
+}
+
 function addResultMessage(content: string, exitCode: number | undefined, executionKind: ChatMessage["executionKind"], parentMessageId?: string): ChatMessage {
   const msg: ChatMessage = {
     id: generateMessageId(),
@@ -515,6 +644,24 @@ function createUserMessageRenderable(msg: ChatMessage, theme: ReturnType<typeof
   return box;
 }
 
+// Measured before the command runs; an executed command's files have already changed
+function getImpact(msg: ChatMessage): ImpactSummary | undefined {
+  const { safety, command } = msg;
+  if (!safety || !command) return undefined;
+  if (!impactCache.has(safety) && !msg.executed) {
+    impactCache.set(safety, estimateCommandImpact(command, safety, { ...getShellInfo(), cwd: currentCwd }));
+  }
+  return impactCache.get(safety);
+}
+
+const PLAN_STATUS_MARKS: Record<PlanStepStatus, string> = {
+  pending: "[ ]",
+  running: "[>]",
+  done: "[✓]",
+  failed: "[✗]",
+  skipped: "[-]",
+};
+
 function createAssistantMessageRenderable(msg: ChatMessage, theme: ReturnType<typeof getTheme>): BoxRenderable {
   const isSelected = pendingMessageId === msg.id;
 
@@ -533,13 +680,96 @@ function createAssistantMessageRenderable(msg: ChatMessage, theme: ReturnType<ty
     backgroundColor: theme.colors.backgroundPanel,
   });
 
+  // Plan steps read as a checklist
+  if (msg.planStep) {
+    const { index, purpose, status } = msg.planStep;
+    const statusColor = status === "done" ? theme.colors.success : status === "failed" ? theme.colors.error : status === "running" ? theme.colors.warning : theme.colors.textMuted;
+    const stepText = new TextRenderable(renderer, {
+      id: `msg-${msg.id}-step`,
+      content: t`${fg(statusColor)(PLAN_STATUS_MARKS[status])} ${fg(theme.colors.text)(`Step ${index + 1}`)}${fg(theme.colors.textMuted)(purpose ? `: ${purpose}` : "")}`,
+    });
+    card.add(stepText);
+  }
+
   // Command line
   const commandText = new TextRenderable(renderer, {
     id: `msg-${msg.id}-cmd`,
-    content: t`${fg(theme.colors.textMuted)("Command:")} ${fg(theme.colors.secondary)(msg.command || "")}`,
+    content: t`${fg(theme.colors.textMuted)("Command:")} ${fg(theme.colors.secondary)(msg.command || "")}${fg(theme.colors.primary)(msg.streaming ? "▌" : "")}`,
   });
   card.add(commandText);
 
+  if (msg.alternatives) {
+    const alternativeText = new TextRenderable(renderer, {
+      id: `msg-${msg.id}-alternative`,
+      content: t`${fg(theme.colors.textMuted)(`Alternative ${(msg.alternativeIndex ?? 0) + 1} of ${msg.alternatives.length}`)}`,
+    });
+    card.add(alternativeText);
+  }
+
+  if (msg.streaming) {
+    const streamingText = new TextRenderable(renderer, {
+      id: `msg-${msg.id}-streaming`,
+      content: t`${fg(theme.colors.textMuted)("Translating...")} ${fg(theme.colors.error)("[Esc]")} ${fg(theme.colors.textMuted)("Cancel")}`,
+    });
+    card.add(streamingText);
+  }
+
+  // A suggested fix names the command it replaces
+  const failed = msg.parentMessageId ? chatMessages.find((m) => m.id === msg.parentMessageId) : undefined;
+  if (failed?.command) {
+    const fixText = new TextRenderable(renderer, {
+      id: `msg-${msg.id}-fix`,
+      content: t`${fg(theme.colors.textMuted)("Fix for")} ${fg(theme.colors.error)(failed.command)}`,
+    });
+    card.add(fixText);
+  }
+
+  // The configured model failed and a fallback answered
+  if (msg.translation?.fallbackFrom) {
+    const fallbackText = new TextRenderable(renderer, {
+      id: `msg-${msg.id}-fallback`,
+      content: t`${fg(theme.colors.textMuted)("Answered by")} ${fg(theme.colors.text)(getModelName(msg.translation.model))} ${fg(theme.colors.warning)(`(${getModelName(msg.translation.fallbackFrom)} failed)`)}`,
+    });
+    card.add(fallbackText);
+  }
+
+  // Answered from the translation cache, without a model request
+  if (msg.translation?.cached) {
+    const cachedText = new TextRenderable(renderer, {
+      id: `msg-${msg.id}-cached`,
+      content: t`${fg(theme.colors.info)("Cached")} ${fg(theme.colors.textMuted)(`answer from ${getModelName(msg.translation.model)}`)}`,
+    });
+    card.add(cachedText);
+  }
+
+  // Why the model chose this command
+  if (msg.translation) {
+    const { explanation, assumptions, confidence, requiresInteractive } = msg.translation;
+    if (explanation || confidence !== undefined) {
+      const explanationText = new TextRenderable(renderer, {
+        id: `msg-${msg.id}-explanation`,
+        content: t`${fg(theme.colors.text)(explanation)}${fg(theme.colors.textMuted)(confidence !== undefined ? `${explanation ? " " : ""}(${Math.round(confidence * 100)}% confident)` : "")}`,
+      });
+      card.add(explanationText);
+    }
+
+    assumptions.forEach((assumption, i) => {
+      const assumptionText = new TextRenderable(renderer, {
+        id: `msg-${msg.id}-assumption-${i}`,
+        content: t`${fg(theme.colors.textMuted)("Assumes")} ${fg(theme.colors.text)(assumption)}`,
+      });
+      card.add(assumptionText);
+    });
+
+    if (requiresInteractive) {
+      const interactiveText = new TextRenderable(renderer, {
+        id: `msg-${msg.id}-interactive`,
+        content: t`${fg(theme.colors.warning)("Needs an interactive terminal")} ${fg(theme.colors.textMuted)("- output is captured here, so copy it with [c] to run in your shell")}`,
+      });
+      card.add(interactiveText);
+    }
+  }
+
   // Safety badge
   if (msg.safety) {
     const severityColor = getSeverityColor(msg.safety.severity);
@@ -557,6 +787,42 @@ function createAssistantMessageRenderable(msg: ChatMessage, theme: ReturnType<ty
         content: t`${fg(theme.colors.textMuted)(msg.safety.reason)}`,
       });
       card.add(reasonText);
+
+      // Show which part of the command triggered each finding
+      msg.safety.findings.forEach((finding, i) => {
+        const findingText = new TextRenderable(renderer, {
+          id: `msg-${msg.id}-finding-${i}`,
+          content: t`${fg(getSeverityColor(finding.severity))("•")} ${fg(theme.colors.text)(finding.description)} ${fg(theme.colors.textMuted)("in")} ${fg(theme.colors.secondary)(finding.segment)}${fg(theme.colors.textMuted)(finding.path ? ` via ${finding.path.join(" → ")}` : "")}`,
+        });
+        card.add(findingText);
+      });
+    }
+
+    if (msg.safety.review) {
+      const { review } = msg.safety;
+      const reviewText = new TextRenderable(renderer, {
+        id: `msg-${msg.id}-review`,
+        content: t`${fg(theme.colors.textMuted)("Review")} ${fg(getSeverityColor(review.severity))(`[${review.severity}]`)} ${fg(theme.colors.text)(review.explanation)}${fg(theme.colors.textMuted)(review.affectedResources.length > 0 ? ` (touches ${review.affectedResources.join(", ")})` : "")}`,
+      });
+      card.add(reviewText);
+    }
+
+    // What the command would touch on disk, measured before it runs
+    const impact = getImpact(msg);
+    if (impact) {
+      const impactText = new TextRenderable(renderer, {
+        id: `msg-${msg.id}-impact`,
+        content: t`${fg(theme.colors.textMuted)("Affects")} ${fg(theme.colors.warning)(describeImpact(impact))}${fg(theme.colors.textMuted)(impact.sample.length > 0 ? `: ${impact.sample.join(", ")}${impact.sample.length < impact.files + impact.directories ? ", …" : ""}` : "")}`,
+      });
+      card.add(impactText);
+    }
+
+    if (msg.safety.approval) {
+      const approvalText = new TextRenderable(renderer, {
+        id: `msg-${msg.id}-approval`,
+        content: t`${fg(theme.colors.success)("✓")} ${fg(theme.colors.textMuted)(`Previously approved (${describeApproval(msg.safety.approval)})`)}`,
+      });
+      card.add(approvalText);
     }
   }
 
@@ -564,7 +830,7 @@ function createAssistantMessageRenderable(msg: ChatMessage, theme: ReturnType<ty
   if (isSelected && !msg.executed) {
     const actionsText = new TextRenderable(renderer, {
       id: `msg-${msg.id}-actions`,
-      content: t`${fg(theme.colors.warning)("Cmd+Enter or Enter to run")} ${fg(theme.colors.textMuted)("|")} ${fg(theme.colors.primary)("[c]")} ${fg(theme.colors.textMuted)("Copy")} ${fg(theme.colors.primary)("[e]")} ${fg(theme.colors.textMuted)("Edit")} ${fg(theme.colors.error)("[Esc]")} ${fg(theme.colors.textMuted)("Cancel")}`,
+      content: t`${fg(theme.colors.warning)("Cmd+Enter or Enter to run")} ${fg(theme.colors.textMuted)("|")} ${fg(theme.colors.primary)("[a]")} ${fg(theme.colors.textMuted)("Approve...")} ${fg(theme.colors.primary)("[c]")} ${fg(theme.colors.textMuted)("Copy")} ${fg(theme.colors.primary)("[e]")} ${fg(theme.colors.textMuted)("Edit")}${fg(theme.colors.primary)(msg.alternatives ? " [↑↓]" : "")}${fg(theme.colors.textMuted)(msg.alternatives ? " Alternatives" : "")} ${fg(theme.colors.error)("[Esc]")} ${fg(theme.colors.textMuted)("Cancel")}`,
     });
     card.add(actionsText);
   }
@@ -684,12 +950,12 @@ function updateAssistantMessage(msgId: string, updates: Partial<ChatMessage>): v
   const msg = chatMessages[msgIndex];
   Object.assign(msg, updates);
 
-  // Re-render the message by removing and re-adding
+  // Re-render the message in place, so plan checklists keep their order
+  const position = chatScrollBox.getChildren().findIndex((child) => child.id === `msg-${msgId}`);
   chatScrollBox.remove(`msg-${msgId}`);
   const theme = getTheme();
   const newBox = createMessageRenderable(msg, theme);
-  // Insert at correct position (after user message)
-  chatScrollBox.add(newBox);
+  chatScrollBox.add(newBox, position === -1 ? undefined : position);
 }
 
 function updateResultMessage(msgId: string, updates: Partial<ChatMessage>): void {
@@ -777,6 +1043,12 @@ async function handleInput(value: string) {
 
   inputField.setText("");
 
+  // An edited plan step replaces the failed or pending one
+  if (activePlan?.editing) {
+    await editPlanStep(input);
+    return;
+  }
+
   // Handle special commands (both ! and / prefixes)
   if (input.startsWith("!") || input.startsWith("/")) {
     await handleSpecialCommand(input);
@@ -802,31 +1074,57 @@ function isDirectCommand(input: string): boolean {
   return directCommands.includes(firstWord) || input.startsWith("./") || input.startsWith("/") || input.startsWith("~");
 }
 
-async function translateAndProcess(input: string) {
+// With `fix`, ask for a corrected version of a failed command instead of a fresh translation
+async function translateAndProcess(input: string, fix?: { failure: CommandFailure; parentMessageId: string }) {
   const apiKey = await getApiKey(config.provider);
-  const customModel = isCustomModel(currentModel);
-  if (!customModel && !apiKey) {
-    addSystemMessage("Error: No API key configured. Run !provider to set up.");
-    return;
+  let model = currentModel;
+  if (!isCustomModel(model) && !isOfflineModel(model) && !apiKey) {
+    // Fixes need a model, but plain requests can still get a rule-based answer
+    if (fix) {
+      addSystemMessage("Error: No API key configured. Run !provider to set up.");
+      return;
+    }
+    addSystemMessage("No API key configured, so the offline translator will answer. Run !provider to set up.");
+    model = OFFLINE_MODEL;
   }
 
-  // Show a temporary "translating" system message
-  const loadingMsg = addSystemMessage("Translating...");
+  // Render the command into a placeholder card as it streams in; Esc aborts the request
+  const streamingMsg = addStreamingMessage(input);
+  const abort = new AbortController();
+  translationAbort = abort;
 
   try {
-    const command = await translateToCommand(apiKey, currentModel, input, currentCwd, history, config.repoContext);
+    const stream = {
+      signal: abort.signal,
+      onText: (partial: string) => updateAssistantMessage(streamingMsg.id, { command: partial }),
+    };
+    const translations = fix
+      ? [await suggestFix(apiKey, model, fix.failure, currentCwd, history, config.repoContext, stream)]
+      : await translateAlternatives(apiKey, model, input, currentCwd, history, config.repoContext, config.alternatives ?? 1, stream, !noCache);
 
-    // Remove the loading message
-    chatScrollBox.remove(`msg-${loadingMsg.id}`);
-    chatMessages = chatMessages.filter((m) => m.id !== loadingMsg.id);
+    // Replace the placeholder with the analyzed command
+    removeMessage(streamingMsg.id);
 
-    // Analyze safety
-    const safety = analyzeCommand(command, config);
+    // Analyze safety of each alternative separately
+    const alternatives: CommandAlternative[] = [];
+    for (const translation of translations) {
+      alternatives.push({ translation, safety: await reviewIfEnabled(translation.command, analyzeCommand(translation.command, config, getSafetyContext())) });
+    }
+    refreshUsage();
+    const [{ translation, safety }] = alternatives;
+    const { command } = translation;
 
     // Add assistant message with the translated command
-    const assistantMsg = addAssistantMessage(input, command, safety);
+    const assistantMsg = addAssistantMessage(input, command, safety, {
+      model: translation.model ?? model.id,
+      provider: translation.provider ?? (isCustomModel(model) ? "custom" : model.provider),
+      translation,
+      ...(alternatives.length > 1 && { alternatives, alternativeIndex: 0 }),
+      parentMessageId: fix?.parentMessageId,
+    });
 
-    if (safety.isDangerous) {
+    // Interactive commands would hang with captured output, alternatives need picking and fixes need accepting, so all wait for the user too
+    if (safety.isDangerous || translation.requiresInteractive || alternatives.length > 1 || fix) {
       // Mark this message as pending confirmation
       pendingMessageId = assistantMsg.id;
       awaitingConfirmation = true;
@@ -836,19 +1134,26 @@ async function translateAndProcess(input: string) {
       await executeAndShowResult(input, command, assistantMsg.id);
     }
   } catch (error) {
-    // Remove loading message on error
-    chatScrollBox.remove(`msg-${loadingMsg.id}`);
-    chatMessages = chatMessages.filter((m) => m.id !== loadingMsg.id);
+    removeMessage(streamingMsg.id);
 
+    if (abort.signal.aborted) {
+      addSystemMessage("Translation cancelled.");
+      return;
+    }
     const message = error instanceof Error ? error.message : String(error);
     addSystemMessage(`Error: ${message}`);
+    refreshUsage();
+  } finally {
+    if (translationAbort === abort) {
+      translationAbort = null;
+    }
   }
 }
 
 // Process a direct shell command (not translated)
 async function processDirectCommand(input: string, command: string) {
   // Analyze safety even for direct commands
-  const safety = analyzeCommand(command, config);
+  const safety = await reviewIfEnabled(command, analyzeCommand(command, config, getSafetyContext()));
   const assistantMsg = addAssistantMessage(input, command, safety);
 
   if (safety.isDangerous) {
@@ -860,12 +1165,32 @@ async function processDirectCommand(input: string, command: string) {
   }
 }
 
+// Get a model's second opinion when safetyReview is on; a failed review falls back to the rule-based result
+async function reviewIfEnabled(command: string, safety: SafetyAnalysis): Promise<SafetyAnalysis> {
+  if (!config.safetyReview || safety.severity === "low") return safety;
+
+  const loadingMsg = addSystemMessage("Reviewing safety...");
+  try {
+    return await reviewSafety(command, safety, config, currentModel, currentCwd);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    addSystemMessage(`Warning: safety review failed, using rule-based result: ${message}`);
+    return safety;
+  } finally {
+    removeMessage(loadingMsg.id);
+    refreshUsage();
+  }
+}
+
 // Execute a command and show result in chat
 async function executeAndShowResult(input: string, command: string, assistantMsgId: string) {
   const executionKind = getExecutionKind(assistantMsgId, dryRunMode);
   updateAssistantMessage(assistantMsgId, { executed: true });
+  const startedAt = Date.now();
+  const startCwd = currentCwd;
   // Handle cd specially
   if (command.startsWith("cd ")) {
+    let cdResult: { exitCode: number; output: string };
     const path = command
       .slice(3)
       .trim()
@@ -879,57 +1204,449 @@ async function executeAndShowResult(input: string, command: string, assistantMsg
       statusBarText.content = getStatusBarContent();
 
       addResultMessage(`Changed directory to ${currentCwd}`, 0, executionKind, assistantMsgId);
+      recordAudit(input, command, assistantMsgId, startCwd, 0, startedAt, executionKind);
+      cdResult = { exitCode: 0, output: `Changed to ${currentCwd}` };
 
       addToHistory({
         input,
         command,
         output: `Changed to ${currentCwd}`,
+        exitCode: 0,
         timestamp: Date.now(),
+        model: chatMessages.find((m) => m.id === assistantMsgId)?.model,
+        usage: chatMessages.find((m) => m.id === assistantMsgId)?.translation?.usage,
       });
       history = loadHistory();
     } catch (err) {
-      addResultMessage(`cd: ${err instanceof Error ? err.message : String(err)}`, 1, executionKind, assistantMsgId);
+      const message = `cd: ${err instanceof Error ? err.message : String(err)}`;
+      addResultMessage(message, 1, executionKind, assistantMsgId);
+      recordAudit(input, command, assistantMsgId, startCwd, 1, startedAt, executionKind);
+      cdResult = { exitCode: 1, output: message };
     }
     clearCommandState();
+    await finishPlanStep(assistantMsgId, cdResult.exitCode, cdResult.output);
     return;
   }
 
   if (dryRunMode) {
     addResultMessage(`[DRY RUN] Would execute: ${command}`, 0, executionKind, assistantMsgId);
     clearCommandState();
+    await finishPlanStep(assistantMsgId, 0, "");
     return;
   }
 
+  const snapshot = config.undo?.enabled ? takeUndoSnapshot(command) : null;
+
   // Execute command
+  let failure: CommandFailure | null = null;
+  let result = { exitCode: 0, output: "" };
   try {
-    const { output, exitCode } = await executeCommandWithCode(command);
+    const { output, exitCode, stderr } = await executeCommandWithCode(command).finally(() => finishUndoSnapshot(snapshot));
+    result = { exitCode, output };
     addResultMessage(output || "Command completed successfully", exitCode, executionKind, assistantMsgId);
+    recordAudit(input, command, assistantMsgId, startCwd, exitCode, startedAt, executionKind);
+    if (exitCode !== 0) {
+      failure = { input, command, exitCode, stderr: stderr || output };
+    }
 
     addToHistory({
       input,
       command,
       output: output.slice(0, 500),
       timestamp: Date.now(),
+      exitCode,
+      stderr: failure?.stderr.slice(-1000),
+      model: chatMessages.find((m) => m.id === assistantMsgId)?.model,
+      usage: chatMessages.find((m) => m.id === assistantMsgId)?.translation?.usage,
     });
     history = loadHistory();
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     addResultMessage(`Error: ${message}`, 1, executionKind, assistantMsgId);
+    recordAudit(input, command, assistantMsgId, startCwd, 1, startedAt, executionKind);
+    failure = { input, command, exitCode: 1, stderr: message };
+    result = { exitCode: 1, output: message };
   }
 
   clearCommandState();
+
+  // Plan steps offer their own choices when they fail
+  if (await finishPlanStep(assistantMsgId, result.exitCode, result.output)) {
+    return;
+  }
+
+  lastFailure = failure && { failure, assistantMsgId };
+  if (failure) {
+    if (config.autoSuggestFix) {
+      await fixLastFailure();
+    } else {
+      addSystemMessage("Command failed. Press Ctrl+X F to suggest a fix.");
+    }
+  }
+}
+
+// Ctrl+X F: run the fix awaiting confirmation, or ask the model to fix the last failed command
+async function fixLastFailure() {
+  const pending = chatMessages.find((m) => m.id === pendingMessageId);
+  if (awaitingConfirmation && pending?.type === "assistant" && pending.parentMessageId && pending.command) {
+    clearCommandState();
+    await executeAndShowResult(pending.content, pending.command, pending.id);
+    return;
+  }
+
+  if (!lastFailure) {
+    addSystemMessage("No failed command to fix.");
+    return;
+  }
+  const { failure, assistantMsgId } = lastFailure;
+  await translateAndProcess(failure.input, { failure, parentMessageId: assistantMsgId });
+}
+
+interface ActivePlan {
+  task: string;
+  steps: { step: PlanStep; messageId: string }[];
+  // Every step that has run or was skipped, in order, including failed attempts
+  outcomes: PlanStepOutcome[];
+  // Index into steps of the step to run next
+  current: number;
+  // The next input replaces the current step's command
+  editing: boolean;
+}
+
+// "/plan <task>" breaks a task into steps that are checked and run one at a time
+async function startPlan(task: string) {
+  if (!task) {
+    addSystemMessage("Usage: /plan <task>");
+    return;
+  }
+  if (activePlan) {
+    addSystemMessage("A plan is already in progress. Press Esc to stop it first.");
+    return;
+  }
+
+  addUserMessage(task);
+  const steps = await requestPlan(task, []);
+  if (!steps) return;
+
+  activePlan = { task, steps: [], outcomes: [], current: 0, editing: false };
+  addPlanSteps(activePlan, steps);
+  await runPlanStep();
+}
+
+// Ask the model for the steps of a plan; errors are reported in the chat and return null
+async function requestPlan(task: string, outcomes: PlanStepOutcome[]): Promise<PlanStep[] | null> {
+  if (isOfflineModel(currentModel)) {
+    addSystemMessage("Error: The offline translator cannot plan tasks. Choose a model from a provider with !model to use /plan.");
+    return null;
+  }
+  const apiKey = await getApiKey(config.provider);
+  if (!isCustomModel(currentModel) && !apiKey) {
+    addSystemMessage("Error: No API key configured. Run !provider to set up.");
+    return null;
+  }
+
+  const loadingMsg = addSystemMessage("Planning... [Esc] Cancel");
+  const abort = new AbortController();
+  translationAbort = abort;
+  try {
+    return await planTask(apiKey, currentModel, task, currentCwd, history, config.repoContext, outcomes, abort.signal);
+  } catch (error) {
+    if (abort.signal.aborted) {
+      addSystemMessage("Planning cancelled.");
+      return null;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    addSystemMessage(`Error: ${message}`);
+    return null;
+  } finally {
+    removeMessage(loadingMsg.id);
+    refreshUsage();
+    if (translationAbort === abort) {
+      translationAbort = null;
+    }
+  }
+}
+
+// One card per step; the rules rate each step now and again just before it runs
+function addPlanSteps(plan: ActivePlan, steps: PlanStep[]) {
+  for (const step of steps) {
+    const msg = addAssistantMessage(plan.task, step.command, analyzeCommand(step.command, config, getSafetyContext()), {
+      model: currentModel.id,
+      provider: isCustomModel(currentModel) ? "custom" : currentModel.provider,
+      translation: { command: step.command, explanation: "", assumptions: [], requiresInteractive: step.requiresInteractive },
+      planStep: { index: plan.steps.length, purpose: step.purpose, status: "pending" },
+    });
+    plan.steps.push({ step, messageId: msg.id });
+  }
+}
+
+// Run the current step, or wait for confirmation like any other command; finishPlanStep moves on to the next
+async function runPlanStep() {
+  const plan = activePlan;
+  if (!plan) return;
+
+  if (plan.current >= plan.steps.length) {
+    const skipped = plan.steps.filter(({ messageId }) => chatMessages.find((m) => m.id === messageId)?.planStep?.status === "skipped").length;
+    addSystemMessage(`Plan complete: ${plan.steps.length - skipped} of ${plan.steps.length} steps run${skipped > 0 ? `, ${skipped} skipped` : ""}.`);
+    activePlan = null;
+    return;
+  }
+
+  const { step, messageId } = plan.steps[plan.current];
+  const msg = chatMessages.find((m) => m.id === messageId);
+  if (!msg?.planStep) return;
+  let translation = msg.translation;
+
+  // Rewrite a step that depends on earlier output, now that the output is known
+  if (step.usesPreviousOutput && plan.outcomes.length > 0) {
+    const apiKey = await getApiKey(config.provider);
+    const loadingMsg = addSystemMessage(`Updating step ${msg.planStep.index + 1} with earlier output...`);
+    try {
+      translation = await resolvePlanStep(apiKey, currentModel, plan.task, step, plan.outcomes, currentCwd, history, config.repoContext);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      addSystemMessage(`Warning: could not update step ${msg.planStep.index + 1}, using the planned command: ${message}`);
+    } finally {
+      removeMessage(loadingMsg.id);
+      refreshUsage();
+    }
+    // Edits, retries and revisions keep the rewritten command
+    step.command = translation?.command || step.command;
+    step.usesPreviousOutput = false;
+  }
+
+  // Approvals and the working directory may have changed since the plan was made
+  const command = step.command;
+  const safety = await reviewIfEnabled(command, analyzeCommand(command, config, getSafetyContext()));
+  // Esc may have stopped the plan while the model was busy
+  if (activePlan !== plan) return;
+  updateAssistantMessage(messageId, { command, safety, translation, executed: false, planStep: { ...msg.planStep, status: "running" } });
+
+  if (safety.isDangerous || translation?.requiresInteractive) {
+    pendingMessageId = messageId;
+    awaitingConfirmation = true;
+    helpBarText.content = getHelpBarContent();
+    return;
+  }
+  await executeAndShowResult(plan.task, command, messageId);
+}
+
+// Record a finished plan step and move on; false when the command was not the plan's current step
+async function finishPlanStep(assistantMsgId: string, exitCode: number, output: string): Promise<boolean> {
+  const plan = activePlan;
+  const current = plan?.steps[plan.current];
+  const msg = chatMessages.find((m) => m.id === assistantMsgId);
+  if (!plan || current?.messageId !== assistantMsgId || !msg?.planStep) return false;
+
+  plan.outcomes.push({ command: msg.command ?? current.step.command, purpose: current.step.purpose, exitCode, output });
+  updateAssistantMessage(assistantMsgId, { planStep: { ...msg.planStep, status: exitCode === 0 ? "done" : "failed" } });
+
+  if (exitCode !== 0) {
+    showPlanFailureSelector();
+    return true;
+  }
+  plan.current++;
+  await runPlanStep();
+  return true;
+}
+
+type PlanRecovery = "retry" | "edit" | "skip" | "revise" | "stop";
+
+// A failed step halts the plan until the user picks how to go on
+function showPlanFailureSelector() {
+  const plan = activePlan;
+  if (planSelector || !plan) return;
+  const { step, messageId } = plan.steps[plan.current];
+  const index = chatMessages.find((m) => m.id === messageId)?.planStep?.index ?? plan.current;
+
+  const container = new BoxRenderable(renderer, {
+    id: "plan-selector-container",
+    position: "absolute",
+    left: 2,
+    top: 4,
+    width: 65,
+    height: 15,
+    backgroundColor: "#1e293b",
+    border: true,
+    borderColor: "#60a5fa",
+    borderStyle: "single",
+    title: `Step ${index + 1} Failed`,
+    titleAlignment: "center",
+    zIndex: 100,
+    padding: 1,
+  });
+  renderer.root.add(container);
+
+  const options: SelectOption[] = [
+    { name: "Retry step", description: `Run ${step.command} again`, value: "retry" satisfies PlanRecovery },
+    { name: "Edit step", description: "Change the command, then press Enter to run it", value: "edit" satisfies PlanRecovery },
+    { name: "Skip step", description: plan.current + 1 < plan.steps.length ? `Continue with step ${index + 2}` : "Finish the plan", value: "skip" satisfies PlanRecovery },
+    { name: "Revise plan", description: "Ask the model to replan the remaining steps", value: "revise" satisfies PlanRecovery },
+    { name: "Stop plan", description: "Leave the remaining steps unrun", value: "stop" satisfies PlanRecovery },
+  ];
+
+  planSelector = new SelectRenderable(renderer, {
+    id: "plan-select",
+    width: "100%",
+    height: 11,
+    options,
+    backgroundColor: "transparent",
+    focusedBackgroundColor: "transparent",
+    selectedBackgroundColor: "#334155",
+    textColor: "#e2e8f0",
+    selectedTextColor: "#60a5fa",
+    descriptionColor: "#64748b",
+    selectedDescriptionColor: "#94a3b8",
+    showDescription: true,
+    wrapSelection: true,
+  });
+  container.add(planSelector);
+
+  planSelector.on(SelectRenderableEvents.ITEM_SELECTED, async (_: number, option: SelectOption) => {
+    closePlanSelector();
+    await recoverPlan(option.value as PlanRecovery);
+  });
+
+  planSelector.focus();
+}
+
+function closePlanSelector() {
+  if (planSelector) {
+    renderer.root.remove("plan-selector-container");
+    planSelector = null;
+    inputField.focus();
+  }
+}
+
+async function recoverPlan(choice: PlanRecovery) {
+  const plan = activePlan;
+  if (!plan) return;
+  const { step, messageId } = plan.steps[plan.current];
+  const msg = chatMessages.find((m) => m.id === messageId);
+
+  switch (choice) {
+    case "retry":
+      await runPlanStep();
+      break;
+    case "edit":
+      plan.editing = true;
+      inputField.setText(step.command);
+      addSystemMessage("Edit the command and press Enter to run it. Esc stops the plan.");
+      break;
+    case "skip":
+      plan.outcomes.push({ command: step.command, purpose: step.purpose, output: "" });
+      if (msg?.planStep) updateAssistantMessage(messageId, { planStep: { ...msg.planStep, status: "skipped" } });
+      plan.current++;
+      await runPlanStep();
+      break;
+    case "revise":
+      await revisePlan();
+      break;
+    case "stop":
+      stopPlan();
+      break;
+  }
+}
+
+// Run an edited command in place of the current step
+async function editPlanStep(command: string) {
+  const plan = activePlan;
+  if (!plan) return;
+  plan.editing = false;
+  const { step } = plan.steps[plan.current];
+  step.command = command;
+  step.usesPreviousOutput = false;
+  await runPlanStep();
+}
+
+// Replace the steps after the failed one with a new plan that knows what has run so far
+async function revisePlan() {
+  const plan = activePlan;
+  if (!plan) return;
+
+  const steps = await requestPlan(plan.task, plan.outcomes);
+  if (!steps) {
+    showPlanFailureSelector();
+    return;
+  }
+
+  for (const { messageId } of plan.steps.slice(plan.current + 1)) {
+    removeMessage(messageId);
+  }
+  plan.steps = plan.steps.slice(0, plan.current + 1);
+  plan.current++;
+  addPlanSteps(plan, steps);
+  await runPlanStep();
+}
+
+function stopPlan() {
+  const plan = activePlan;
+  if (!plan) return;
+  activePlan = null;
+  const run = plan.outcomes.filter((o) => o.exitCode === 0).length;
+  addSystemMessage(`Plan stopped. ${run} of ${plan.steps.length} steps succeeded.`);
+}
+
+// Append the execution to the audit log; a failed write is reported but never blocks the command
+function recordAudit(input: string, command: string, assistantMsgId: string, cwd: string, exitCode: number, startedAt: number, executionKind: ChatMessage["executionKind"]) {
+  const msg = chatMessages.find((m) => m.id === assistantMsgId);
+  const safety = msg?.safety ?? analyzeCommand(command, config, getSafetyContext());
+  try {
+    appendAuditRecord({
+      input,
+      command,
+      origin: msg?.model ? "translated" : "direct",
+      model: msg?.model,
+      provider: msg?.provider,
+      safety,
+      // Manual runs waited for the user to press Enter on the card
+      decision: getAuditDecision(safety, executionKind === "manual"),
+      cwd,
+      exitCode,
+      durationMs: Date.now() - startedAt,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    addSystemMessage(`Warning: could not write audit log: ${message}`);
+  }
+}
+
+// Save what the command is about to modify for /undo; a failed snapshot is reported but never blocks the command
+function takeUndoSnapshot(command: string): UndoSnapshot | null {
+  if (!config.undo) return null;
+  try {
+    return snapshotCommand(command, currentCwd, config.undo);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    addSystemMessage(`Warning: no undo snapshot taken: ${message}`);
+    return null;
+  }
+}
+
+// Without this record, undo restores the captured paths but removes nothing the command created
+function finishUndoSnapshot(snapshot: UndoSnapshot | null) {
+  if (!snapshot) return;
+  try {
+    finishSnapshot(snapshot);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    addSystemMessage(`Warning: undo will not remove files this command created: ${message}`);
+  }
 }
 
 function getExecutionKind(assistantMsgId: string, isDryRun: boolean): ChatMessage["executionKind"] {
   if (isDryRun) return "dry-run";
   const assistantMsg = chatMessages.find((msg) => msg.id === assistantMsgId);
   if (!assistantMsg || assistantMsg.type !== "assistant") return "manual";
-  return assistantMsg.safety?.isDangerous ? "manual" : "auto";
+  // Fixes, alternatives and interactive commands always wait for the user
+  const confirmed = assistantMsg.safety?.isDangerous || assistantMsg.parentMessageId || assistantMsg.alternatives || assistantMsg.translation?.requiresInteractive;
+  return confirmed ? "manual" : "auto";
 }
 
 interface CommandResult {
   output: string;
   exitCode: number;
+  stderr: string;
 }
 
 function executeCommandWithCode(command: string): Promise<CommandResult> {
@@ -958,7 +1675,7 @@ function executeCommandWithCode(command: string): Promise<CommandResult> {
     child.on("close", (code) => {
       const exitCode = code ?? 0;
       const output = stdout || stderr || (exitCode === 0 ? "" : `Command exited with code ${exitCode}`);
-      resolve({ output, exitCode });
+      resolve({ output, exitCode, stderr });
     });
   });
 }
@@ -969,6 +1686,10 @@ function clearCommandState() {
   helpBarText.content = getHelpBarContent();
 }
 
+function getSafetyContext(): SafetyContext {
+  return { ...getShellInfo(), cwd: currentCwd, approvals: getActiveApprovals() };
+}
+
 async function handleSpecialCommand(input: string) {
   const cmd = input.slice(1).toLowerCase().trim();
 
@@ -993,6 +1714,22 @@ async function handleSpecialCommand(input: string) {
     case "history":
       showHistory();
       break;
+    case "approvals":
+      showApprovals();
+      break;
+    case "undo":
+      undoCommands(cmd.split(/\s+/)[1]);
+      break;
+    case "alternatives":
+      setAlternatives(cmd.split(/\s+/)[1]);
+      break;
+    case "plan":
+      await startPlan(input.slice(1).trim().replace(/^plan\s*/i, ""));
+      break;
+    case "explain":
+      // Keep the command's original case
+      await explainInChat(input.slice(1).trim().replace(/^explain\s*/i, ""));
+      break;
     case "clear":
       clearChat();
       break;
@@ -1026,13 +1763,19 @@ P  Command palette    M  Change model
 S  Switch provider    D  Toggle dry-run
 T  Change theme       R  Toggle repo context
 H  Show history       L  Clear chat
-C  Show config        ?  This help
+C  Show config        A  Approvals
+U  Toggle undo        F  Fix last failure
+G  Toggle auto fix    ?  This help
 
 Commands (type ! or / followed by):
 help      Show this help      model     Change model
 provider  Switch provider     dry       Toggle dry-run
 config    Show configuration  history   Show history
-clear     Clear chat
+approvals Manage approvals    clear     Clear chat
+undo [N]  Restore last N      undo list Show snapshots
+alternatives N  Offer N commands per request (↑/↓ to pick)
+explain <command>  Explain a command part by part without running it
+plan <task>  Break a task into steps, checked and run one at a time
 
 Safety Levels:
 - strict:   Confirm ALL potentially dangerous commands
@@ -1050,7 +1793,7 @@ Tips:
 
 async function showConfig() {
   const theme = getTheme();
-  const providerName = config.provider === "opencode-zen" ? "OpenCode Zen" : config.provider === "openrouter" ? "OpenRouter" : "Custom";
+  const providerName = getProviderName(config.provider);
   const apiKey = await getApiKey(config.provider);
   const apiKeyStatus = apiKey ? "configured" : "not set";
   const isCustom = isCustomModel(currentModel);
@@ -1070,12 +1813,128 @@ Platform:     ${shellInfo.platform}${shellInfo.isWSL ? " (WSL)" : ""}
 Safety:       ${config.safetyLevel}
 Dry-run:      ${dryRunMode ? "ON" : "OFF"}
 Repo context: ${config.repoContext ? "ON" : "OFF"}
+Review:       ${config.safetyReview ? `ON (${config.reviewModel ?? "translation model"})` : "OFF"}
+Undo:         ${config.undo?.enabled ? `ON (${listSnapshots().length} snapshots)` : "OFF"}
+Alternatives: ${(config.alternatives ?? 1) > 1 ? config.alternatives : "OFF"}
+Auto fix:     ${config.autoSuggestFix ? "ON" : "OFF"}
+Fallbacks:    ${config.fallbackModels?.length ? config.fallbackModels.map(getModelName).join(" → ") : "none"}
+Cache:        ${config.cache?.enabled === false || noCache ? "OFF" : "ON"}
+Budget:       ${formatBudget()}
+Session cost: ${formatCost(getSessionUsage().cost)}
 API Key:      ${apiKeyStatus}
 History:      ${history.length} commands`;
 
   addSystemMessage(configText);
 }
 
+// "/undo" restores the last snapshot, "/undo 3" the last three, "/undo list" shows what can be restored
+function undoCommands(arg?: string) {
+  if (arg === "list") {
+    const snapshots = listSnapshots();
+    if (snapshots.length === 0) {
+      addSystemMessage(config.undo?.enabled ? "No undo snapshots yet." : "No undo snapshots. Enable them with Ctrl+X U.");
+      return;
+    }
+    const lines = snapshots.slice(0, 10).map((snapshot, i) => {
+      const date = new Date(snapshot.timestamp).toLocaleTimeString();
+      return `${i + 1}. [${date}] ${snapshot.command} (${snapshot.roots.length} paths, ${formatBytes(snapshot.bytes)})`;
+    });
+    addSystemMessage(`Undo Snapshots (newest first)\n\n${lines.join("\n")}`);
+    return;
+  }
+
+  const count = arg ? Number(arg) : 1;
+  if (!Number.isInteger(count) || count < 1) {
+    addSystemMessage("Usage: /undo [count] or /undo list");
+    return;
+  }
+
+  try {
+    const restored = restoreSnapshots(count);
+    if (restored.length === 0) {
+      addSystemMessage(config.undo?.enabled ? "Nothing to undo." : "Nothing to undo. Enable undo snapshots with Ctrl+X U.");
+      return;
+    }
+    const lines = restored.map((snapshot) => `  ${snapshot.command}`);
+    addSystemMessage(`Restored files from ${restored.length} ${restored.length === 1 ? "command" : "commands"}:\n${lines.join("\n")}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    addSystemMessage(`Undo failed: ${message}`);
+  }
+}
+
+// "/alternatives 3" offers three ranked commands per request, "/alternatives 1" turns the picker off
+function setAlternatives(arg?: string) {
+  if (!arg) {
+    const count = config.alternatives ?? 1;
+    addSystemMessage(`Alternatives: ${count > 1 ? `${count} per request` : "OFF"}. Use /alternatives N (1-${MAX_ALTERNATIVES}).`);
+    return;
+  }
+
+  const count = Number(arg);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_ALTERNATIVES) {
+    addSystemMessage(`Usage: /alternatives N, where N is 1 to ${MAX_ALTERNATIVES}`);
+    return;
+  }
+  config.alternatives = count;
+  saveConfig(config);
+  addSystemMessage(count > 1 ? `Alternatives: ${count} per request. Use ↑/↓ to pick one before running.` : "Alternatives: OFF");
+}
+
+// "/explain <command>" breaks a pasted command down part by part without running it
+async function explainInChat(command: string) {
+  if (!command) {
+    addSystemMessage("Usage: /explain <command>");
+    return;
+  }
+  const apiKey = await getApiKey(config.provider);
+  if (!isCustomModel(currentModel) && !apiKey) {
+    addSystemMessage("Error: No API key configured. Run !provider to set up.");
+    return;
+  }
+
+  const loadingMsg = addSystemMessage("Explaining...");
+  try {
+    const explanation = await explainCommand(apiKey, currentModel, command, analyzeCommand(command, config, getSafetyContext()), currentCwd, config.repoContext);
+    addSystemMessage(formatExplanation(explanation));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    addSystemMessage(`Error: ${message}`);
+  } finally {
+    removeMessage(loadingMsg.id);
+    refreshUsage();
+  }
+}
+
+function formatExplanation(explanation: CommandExplanation): string {
+  const formatFinding = (finding: CommandExplanation["findings"][number]) => `[${finding.severity.toUpperCase()}] ${finding.description}${finding.path ? ` via ${finding.path.join(" → ")}` : ""}`;
+  const lines = [`Explain: ${explanation.command}`];
+  if (explanation.summary) lines.push(explanation.summary);
+
+  explanation.segments.forEach((segment, i) => {
+    lines.push("", `${i + 1}. ${segment.text}`);
+    if (segment.explanation) lines.push(`   ${segment.explanation}`);
+    const width = Math.max(0, ...segment.flags.map((f) => f.flag.length));
+    lines.push(...segment.flags.map(({ flag, meaning }) => `     ${flag.padEnd(width)}  ${meaning}`));
+    lines.push(...segment.findings.map((finding) => `   ${formatFinding(finding)}`));
+  });
+
+  const { safety } = explanation;
+  lines.push("", ...explanation.findings.map(formatFinding));
+  lines.push(safety.findings.length === 0 ? "No safety findings" : `Overall: [${safety.severity.toUpperCase()}] ${safety.reason ?? "Below your safety level, runs without confirmation"}`);
+  return lines.join("\n");
+}
+
+// Show the previous or next alternative on the card awaiting confirmation
+function cycleAlternative(step: number) {
+  const msg = chatMessages.find((m) => m.id === pendingMessageId);
+  if (!msg?.alternatives) return;
+
+  const index = ((msg.alternativeIndex ?? 0) + step + msg.alternatives.length) % msg.alternatives.length;
+  const { translation, safety } = msg.alternatives[index];
+  updateAssistantMessage(msg.id, { command: translation.command, safety, translation, alternativeIndex: index });
+}
+
 function showHistory() {
   if (history.length === 0) {
     addSystemMessage("No command history yet.");
@@ -1091,6 +1950,159 @@ function showHistory() {
   addSystemMessage(`Recent Command History\n\n${lines.join("\n")}`);
 }
 
+interface ApprovalChoice {
+  scope: ApprovalScope | "once";
+  days?: number;
+}
+
+// Ask how long to remember approval of the pending command, then run it
+function showApprovalScopeSelector() {
+  if (approvalSelector || !pendingMessageId) return;
+
+  const msg = chatMessages.find((m) => m.id === pendingMessageId);
+  if (!msg || !msg.command) return;
+  const isCritical = msg.safety?.severity === "critical";
+
+  const container = new BoxRenderable(renderer, {
+    id: "approval-selector-container",
+    position: "absolute",
+    left: 2,
+    top: 4,
+    width: 65,
+    height: isCritical ? 8 : 16,
+    backgroundColor: "#1e293b",
+    border: true,
+    borderColor: "#60a5fa",
+    borderStyle: "single",
+    title: "Approve Command",
+    titleAlignment: "center",
+    zIndex: 100,
+    padding: 1,
+  });
+  renderer.root.add(container);
+
+  const options: SelectOption[] = [
+    {
+      name: "Allow once",
+      description: isCritical ? "Critical commands always require confirmation" : "Run now and ask again next time",
+      value: { scope: "once" } satisfies ApprovalChoice,
+    },
+  ];
+  if (!isCritical) {
+    options.push(
+      { name: "Allow for this session", description: "Until magic-shell exits", value: { scope: "session" } satisfies ApprovalChoice },
+      { name: "Allow in this directory", description: currentCwd, value: { scope: "directory" } satisfies ApprovalChoice },
+      { name: "Allow for 1 day", description: "Expires in 24 hours", value: { scope: "days", days: 1 } satisfies ApprovalChoice },
+      { name: "Allow for 7 days", description: "Expires in a week", value: { scope: "days", days: 7 } satisfies ApprovalChoice },
+      { name: "Allow for 30 days", description: "Expires in a month", value: { scope: "days", days: 30 } satisfies ApprovalChoice },
+    );
+  }
+
+  approvalSelector = new SelectRenderable(renderer, {
+    id: "approval-select",
+    width: "100%",
+    height: isCritical ? 4 : 12,
+    options,
+    backgroundColor: "transparent",
+    focusedBackgroundColor: "transparent",
+    selectedBackgroundColor: "#334155",
+    textColor: "#e2e8f0",
+    selectedTextColor: "#60a5fa",
+    descriptionColor: "#64748b",
+    selectedDescriptionColor: "#94a3b8",
+    showDescription: true,
+    wrapSelection: true,
+  });
+  container.add(approvalSelector);
+
+  approvalSelector.on(SelectRenderableEvents.ITEM_SELECTED, (_: number, option: SelectOption) => {
+    const choice = option.value as ApprovalChoice;
+    closeApprovalSelector();
+
+    const command = msg.command as string;
+    if (choice.scope !== "once") {
+      const approval = addApproval(command, choice.scope, { cwd: currentCwd, days: choice.days });
+      addSystemMessage(`Approved for ${describeApproval(approval)}: ${command}`);
+    }
+
+    clearCommandState();
+    executeAndShowResult(msg.content, command, msg.id);
+  });
+
+  approvalSelector.focus();
+}
+
+function closeApprovalSelector() {
+  if (approvalSelector) {
+    renderer.root.remove("approval-selector-container");
+    approvalSelector = null;
+    inputField.focus();
+  }
+}
+
+// List remembered approvals; selecting one revokes it
+function showApprovals() {
+  if (approvalSelector) return;
+
+  const approvals = getActiveApprovals();
+  if (approvals.length === 0) {
+    addSystemMessage("No remembered approvals.");
+    return;
+  }
+
+  const container = new BoxRenderable(renderer, {
+    id: "approval-selector-container",
+    position: "absolute",
+    left: 2,
+    top: 4,
+    width: 75,
+    height: Math.min(approvals.length * 2 + 6, 22),
+    backgroundColor: "#1e293b",
+    border: true,
+    borderColor: "#60a5fa",
+    borderStyle: "single",
+    title: "Approvals (Enter to revoke)",
+    titleAlignment: "center",
+    zIndex: 100,
+    padding: 1,
+  });
+  renderer.root.add(container);
+
+  const options: SelectOption[] = approvals.map((approval) => ({
+    name: approval.matcher,
+    description: `${describeApproval(approval)} - added ${new Date(approval.createdAt).toLocaleDateString()}`,
+    value: approval.id,
+  }));
+
+  approvalSelector = new SelectRenderable(renderer, {
+    id: "approval-select",
+    width: "100%",
+    height: Math.min(approvals.length * 2 + 2, 18),
+    options,
+    backgroundColor: "transparent",
+    focusedBackgroundColor: "transparent",
+    selectedBackgroundColor: "#334155",
+    textColor: "#e2e8f0",
+    selectedTextColor: "#60a5fa",
+    descriptionColor: "#64748b",
+    selectedDescriptionColor: "#94a3b8",
+    showDescription: true,
+    showScrollIndicator: true,
+    wrapSelection: true,
+  });
+  container.add(approvalSelector);
+
+  approvalSelector.on(SelectRenderableEvents.ITEM_SELECTED, (_: number, option: SelectOption) => {
+    const approval = approvals.find((a) => a.id === option.value);
+    closeApprovalSelector();
+    if (approval && revokeApproval(approval.id)) {
+      addSystemMessage(`Revoked approval: ${approval.matcher}`);
+    }
+  });
+
+  approvalSelector.focus();
+}
+
 async function switchProvider() {
   // Show provider selector as a popup overlay (like model selector)
   const container = new BoxRenderable(renderer, {
@@ -1099,7 +2111,7 @@ async function switchProvider() {
     left: 2,
     top: 4,
     width: 65,
-    height: 12,
+    height: 16,
     backgroundColor: "#1e293b",
     border: true,
     borderColor: "#60a5fa",
@@ -1114,6 +2126,7 @@ async function switchProvider() {
   // Check which providers have API keys configured
   const zenKey = await getApiKey("opencode-zen");
   const orKey = await getApiKey("openrouter");
+  const directKeys = { anthropic: await getApiKey("anthropic"), openai: await getApiKey("openai"), google: await getApiKey("google") };
 
   const options: SelectOption[] = [
     {
@@ -1126,12 +2139,22 @@ async function switchProvider() {
       description: "Access to many models from various providers",
       value: "openrouter",
     },
+    ...(["anthropic", "openai", "google"] as const).map((provider) => ({
+      name: `${DIRECT_PROVIDERS[provider].name}${directKeys[provider] ? " (configured)" : ""}`,
+      description: `${DIRECT_PROVIDERS[provider].name}'s own API, with your own key`,
+      value: provider,
+    })),
+    {
+      name: "Offline",
+      description: "No API key. Rule-based translations for common requests",
+      value: "offline",
+    },
   ];
 
   const selector = new SelectRenderable(renderer, {
     id: "provider-switch-select",
     width: "100%",
-    height: 6,
+    height: 12,
     options,
     backgroundColor: "transparent",
     focusedBackgroundColor: "transparent",
@@ -1154,11 +2177,11 @@ async function switchProvider() {
     const newProvider = option.value as Provider;
     const existingKey = await getApiKey(newProvider);
 
-    if (existingKey) {
-      // Already have a key, just switch
+    if (existingKey || newProvider === "offline") {
+      // Already have a key (or need none), just switch
       config.provider = newProvider;
       // Set default model for new provider
-      const models = newProvider === "opencode-zen" ? OPENCODE_ZEN_MODELS : OPENROUTER_MODELS;
+      const models = newProvider === "opencode-zen" || newProvider === "openrouter" || isDirectProvider(newProvider) ? getProviderModels(newProvider) : [OFFLINE_MODEL];
       currentModel = models.find((m) => m.id === config.defaultModel) || models[0];
       config.defaultModel = currentModel.id;
       saveConfig(config);
@@ -1167,8 +2190,7 @@ async function switchProvider() {
       statusBarText.content = getStatusBarContent();
       closeSelector();
 
-      const providerName = newProvider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter";
-      addSystemMessage(`Switched to ${providerName}. Model: ${currentModel.name}`);
+      addSystemMessage(`Switched to ${getProviderName(newProvider)}. Model: ${currentModel.name}`);
     } else {
       // Need to set up API key - go to full setup
       closeSelector();
@@ -1206,7 +2228,7 @@ function showModelSelector() {
     border: true,
     borderColor: "#60a5fa",
     borderStyle: "single",
-    title: `Select Model (${config.provider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter"})`,
+    title: `Select Model (${getProviderName(config.provider)})`,
     titleAlignment: "center",
     zIndex: 100,
     padding: 1,
@@ -1214,13 +2236,13 @@ function showModelSelector() {
   renderer.root.add(container);
 
   // Filter models by current provider, exclude disabled models
-  const allModels = config.provider === "opencode-zen" ? OPENCODE_ZEN_MODELS : OPENROUTER_MODELS;
+  const allModels = config.provider === "opencode-zen" || config.provider === "openrouter" || isDirectProvider(config.provider) ? getProviderModels(config.provider) : [];
   const availableModels = allModels.filter((m) => !m.disabled).sort((a, b) => a.name.localeCompare(b.name));
 
   // Get custom models
   const customModels = getCustomModels().sort((a, b) => a.name.localeCompare(b.name));
 
-  const options: SelectOption[] = [
+  const buildOptions = (localModels: CustomModel[]): SelectOption[] => [
     // Provider models first
     ...availableModels.map((model) => ({
       name: `${model.name} [${model.category}]${model.free ? " FREE" : ""}`,
@@ -1233,13 +2255,25 @@ function showModelSelector() {
       description: `${model.baseUrl} - ${model.modelId}`,
       value: model as Model | CustomModel,
     })),
+    // Models a local Ollama or LM Studio reports, labeled with the server
+    ...localModels.map((model) => ({
+      name: `${model.name} [${model.category}] (${model.localProvider ? LOCAL_PROVIDER_NAMES[model.localProvider] : "local"})`,
+      description: model.description ?? model.baseUrl,
+      value: model as Model | CustomModel,
+    })),
+    // The offline translator works with any provider
+    {
+      name: `${OFFLINE_MODEL.name} (offline)`,
+      description: OFFLINE_MODEL.description,
+      value: OFFLINE_MODEL as Model | CustomModel,
+    },
   ];
 
   modelSelector = new SelectRenderable(renderer, {
     id: "model-select",
     width: "100%",
-    height: 18,
-    options,
+    height: 17,
+    options: buildOptions([]),
     backgroundColor: "transparent",
     focusedBackgroundColor: "transparent",
     selectedBackgroundColor: "#334155",
@@ -1253,6 +2287,23 @@ function showModelSelector() {
   });
   container.add(modelSelector);
 
+  const localStatusText = new TextRenderable(renderer, {
+    id: "model-select-local-status",
+    content: t`${fg("#64748b")("Checking for Ollama and LM Studio...")}`,
+  });
+  container.add(localStatusText);
+
+  // Local servers are asked while the list is already open, then their models are added in place
+  const selector = modelSelector;
+  discoverLocalModels(config).then((statuses) => {
+    if (modelSelector !== selector) return;
+    const selectedIndex = selector.getSelectedIndex();
+    selector.options = buildOptions(statuses.flatMap((s) => s.models));
+    selector.setSelectedIndex(selectedIndex);
+    const summary = statuses.map((s) => `${LOCAL_PROVIDER_NAMES[s.provider]}: ${describeLocalStatus(s)}`).join("  ");
+    localStatusText.content = t`${fg("#64748b")(summary || "Local providers are turned off")}`;
+  });
+
   modelSelector.on(SelectRenderableEvents.ITEM_SELECTED, (_: number, option: SelectOption) => {
     currentModel = option.value as Model | CustomModel;
     config.defaultModel = currentModel.id;
@@ -1265,9 +2316,9 @@ function showModelSelector() {
     modelSelector = null;
     inputField.focus();
 
-    const isCustom = isCustomModel(currentModel);
-    const freeBadge = isFreeModel(currentModel) ? " (FREE)" : "";
-    const customBadge = isCustom ? " (custom)" : "";
+    const model = currentModel;
+    const freeBadge = isFreeModel(model) ? " (FREE)" : "";
+    const customBadge = isCustomModel(model) ? ` (${model.localProvider ? LOCAL_PROVIDER_NAMES[model.localProvider] : "custom"})` : "";
     addSystemMessage(`Model changed to ${currentModel.name}${freeBadge}${customBadge}`);
   });
 
@@ -1391,7 +2442,7 @@ function getCommandPaletteOptions(): PaletteCommand[] {
     },
     {
       name: "Switch Provider",
-      description: `Current: ${config.provider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter"}`,
+      description: `Current: ${getProviderName(config.provider)}`,
       key: "s",
       chord: "s",
       action: () => switchProvider(),
@@ -1440,6 +2491,35 @@ function getCommandPaletteOptions(): PaletteCommand[] {
         addSystemMessage(`Project context: ${config.repoContext ? "ON - AI can see your package.json scripts, Makefile targets, etc." : "OFF"}`);
       },
     },
+    {
+      name: "Toggle Undo Snapshots",
+      description: config.undo?.enabled ? "Currently ON (files are saved before commands modify them)" : "Currently OFF",
+      key: "u",
+      chord: "u",
+      action: () => {
+        config.undo = { ...config.undo, enabled: !config.undo?.enabled };
+        saveConfig(config);
+        addSystemMessage(`Undo snapshots: ${config.undo.enabled ? "ON - use /undo to restore files changed by the last command" : "OFF"}`);
+      },
+    },
+    {
+      name: "Fix Last Failure",
+      description: lastFailure ? `Suggest a fix for: ${lastFailure.failure.command}` : "Accept a pending fix, or suggest one after a command fails",
+      key: "f",
+      chord: "f",
+      action: () => fixLastFailure(),
+    },
+    {
+      name: "Toggle Auto Fix",
+      description: config.autoSuggestFix ? "Currently ON (fixes are suggested when a command fails)" : "Currently OFF",
+      key: "g",
+      chord: "g",
+      action: () => {
+        config.autoSuggestFix = !config.autoSuggestFix;
+        saveConfig(config);
+        addSystemMessage(`Auto fix suggestions: ${config.autoSuggestFix ? "ON - a corrected command is proposed when one fails" : "OFF"}`);
+      },
+    },
     {
       name: "Show Config",
       description: "View current configuration",
@@ -1454,6 +2534,13 @@ function getCommandPaletteOptions(): PaletteCommand[] {
       chord: "h",
       action: () => showHistory(),
     },
+    {
+      name: "Manage Approvals",
+      description: `${getActiveApprovals().length} remembered`,
+      key: "a",
+      chord: "a",
+      action: () => showApprovals(),
+    },
     {
       name: "Change Theme",
       description: `Current: ${getTheme().name}`,
@@ -1641,9 +2728,19 @@ function handleKeypress(key: KeyEvent) {
       inputField.focus();
       return;
     }
+    if (approvalSelector) {
+      closeApprovalSelector();
+      return;
+    }
+    if (planSelector) {
+      closePlanSelector();
+      stopPlan();
+      return;
+    }
     if (awaitingConfirmation && pendingMessageId) {
       clearCommandState();
       addSystemMessage("Command cancelled.");
+      stopPlan();
       inputField.focus();
       return;
     }
@@ -1670,16 +2767,39 @@ function handleKeypress(key: KeyEvent) {
       inputField.focus();
       return;
     }
+    if (approvalSelector) {
+      closeApprovalSelector();
+      return;
+    }
+    if (planSelector) {
+      closePlanSelector();
+      stopPlan();
+      return;
+    }
+    if (translationAbort) {
+      translationAbort.abort();
+      return;
+    }
 
     if (awaitingConfirmation && pendingMessageId) {
       clearCommandState();
       addSystemMessage("Command cancelled.");
+      stopPlan();
       inputField.focus();
+    } else if (activePlan) {
+      // Stops after the step that is running, or abandons an edit
+      stopPlan();
     }
   }
 
+  // Up/Down to cycle through alternatives before running
+  if ((key.name === "up" || key.name === "down") && awaitingConfirmation && pendingMessageId && !approvalSelector) {
+    cycleAlternative(key.name === "down" ? 1 : -1);
+    return;
+  }
+
   // Enter to confirm dangerous command
-  if (key.name === "return" && awaitingConfirmation && pendingMessageId) {
+  if (key.name === "return" && awaitingConfirmation && pendingMessageId && !approvalSelector) {
     const msg = chatMessages.find((m) => m.id === pendingMessageId);
     if (msg && msg.command) {
       const command = msg.command;
@@ -1689,12 +2809,22 @@ function handleKeypress(key: KeyEvent) {
     }
   }
 
+  // 'a' to choose how long to remember the approval
+  if (key.name === "a" && awaitingConfirmation && pendingMessageId) {
+    showApprovalScopeSelector();
+    return;
+  }
+
   // 'e' to edit command
   if (key.name === "e" && awaitingConfirmation && pendingMessageId) {
     const msg = chatMessages.find((m) => m.id === pendingMessageId);
     if (msg && msg.command) {
       inputField.setText(msg.command);
       clearCommandState();
+      // The edited command takes the step's place in the plan
+      if (activePlan && msg.planStep) {
+        activePlan.editing = true;
+      }
       inputField.focus();
     }
   }
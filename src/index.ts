@@ -7,10 +7,17 @@
  *   msh "list all files"           # Translate and print command
  *   msh -x "delete node_modules"   # Translate and execute
  *   msh -n "find large files"      # Dry run (show what would execute)
+ *   msh --alternatives 3 "search"  # Numbered list of ranked commands
+ *   msh explain 'tar -xzvf a.tgz'  # Explain a command part by part
+ *   msh --fix -x                   # Fix and rerun the last failed command
  *   msh --setup                    # Configure API keys
  *   msh --add-model                # Add custom model (LM Studio, Ollama, etc.)
  *   msh --list-custom              # List custom models
  *   msh --remove-model <id>        # Remove custom model
+ *   msh --audit --since 2024-01-01 # Show executed commands from the audit log
+ *   msh --undo 2                   # Restore files changed by the last 2 commands
+ *   msh --usage                    # Show token usage and cost
+ *   msh --no-cache "disk usage"    # Ask the model even if the answer is cached
  *   msh --help                     # Show help
  *
  *   mshell                         # Interactive TUI mode (separate command)
@@ -18,10 +25,18 @@
 
 import { spawn } from "child_process";
 import { cwd as getCwd } from "process";
-import { OPENCODE_ZEN_MODELS, OPENROUTER_MODELS, ALL_MODELS, type Model, type Provider, type CustomModel } from "./lib/types";
-import { loadConfig, saveConfig, getApiKey, setApiKey, loadHistory, addCustomModel, removeCustomModel, getCustomModels, getCustomModel } from "./lib/config";
-import { analyzeCommand } from "./lib/safety";
-import { translateToCommand, getShellInfo } from "./lib/api";
+import { DIRECT_PROVIDERS, OFFLINE_MODEL, isDirectProvider, isOfflineModel, type Model, type Provider, type DirectProvider, type CustomModel, type Config, type SafetyAnalysis, type UndoSnapshot, type CommandTranslation, type CommandExplanation, type CommandFailure } from "./lib/types";
+import { loadConfig, saveConfig, getApiKey, setApiKey, loadHistory, addToHistory, addCustomModel, removeCustomModel, getCustomModels, getCustomModel, loadLastAlternatives, saveLastAlternatives } from "./lib/config";
+import { analyzeCommand, estimateCommandImpact } from "./lib/safety";
+import { getActiveApprovals } from "./lib/approvals";
+import { appendAuditRecord, getAuditDecision, getAuditFilePath, queryAuditLog, verifyAuditLog } from "./lib/audit";
+import { describeImpact, formatBytes } from "./lib/impact";
+import { finishSnapshot, listSnapshots, restoreSnapshots, snapshotCommand } from "./lib/undo";
+import { clearCache } from "./lib/cache";
+import { describeCatalog, findModel, getAllModels, getProviderModels, refreshCatalogs, type CatalogProvider, type CatalogRefresh } from "./lib/catalog";
+import { LOCAL_PROVIDER_NAMES, describeLocalStatus, discoverLocalModels, getLocalModel } from "./lib/local-models";
+import { checkBudget, describeBudget, formatCost, formatTokens, getUsageReport, type UsageTotal } from "./lib/usage";
+import { translateAlternatives, explainCommand, suggestFix, getShellInfo, reviewSafety, MAX_ALTERNATIVES } from "./lib/api";
 import { getAnsiColors, getTheme, setTheme, themes, themeNames, loadTheme } from "./lib/theme";
 import { checkForUpdates, dismissUpdate, getCurrentVersion, forceCheckForUpdates } from "./lib/update-checker";
 
@@ -54,18 +69,41 @@ ${colors.bold}USAGE${colors.reset}
   msh <query>              Translate query to command and print it
   msh -x <query>           Translate and execute the command
   msh -n <query>           Dry run - show command with safety analysis
+  msh --alternatives <N> <query>
+                           List up to N ranked commands
+      [-x <n>]             Run command n from that list
+  msh explain <command>    Explain a command part by part, with safety findings
+  msh --fix                Suggest a corrected version of the last failed command
+      [-x | -n]            Run it, or preview it with safety analysis
   msh --setup              Configure API keys and provider
   msh --models             List available models
+  msh --refresh-models     Fetch the OpenCode Zen and OpenRouter model lists now
   msh --model <id>         Set default model (including custom)
+  msh --model offline      Use the built-in rules, no API key or network
+  msh --model ollama/<name>
+                           Use a model from a running Ollama (or lmstudio/<name>)
   msh --add-model          Add custom model (LM Studio, Ollama, etc.)
   msh --list-custom        List custom models
   msh --remove-model <id>  Remove custom model
-  msh --provider <name>    Set provider (opencode-zen or openrouter)
+  msh --provider <name>    Set provider (opencode-zen, openrouter, anthropic, openai, google)
   msh --themes             List available themes
   msh --theme <name>       Set color theme
   msh --repo-context       Enable project context detection
   msh --no-repo-context    Disable project context detection
   msh --safety <level>     Set safety level (strict, moderate, relaxed)
+  msh --audit              Show executed commands from the audit log
+      [--since <date>] [--until <date>] [--severity <level>]
+  msh --audit --verify     Check the audit log hash chain for tampering
+  msh --safety-review      Get a model's second opinion on risky commands
+      [model-id]           Review with a different model than translation
+  msh --no-safety-review   Turn off the model safety review
+  msh --undo [N]           Restore files changed by the last N commands
+  msh --undo --list        List undo snapshots
+  msh --undo-snapshots     Snapshot files before commands modify them
+  msh --no-undo-snapshots  Stop taking undo snapshots
+  msh --usage              Show token usage and cost by day and month
+  msh --no-cache <query>   Ask the model even if the answer is cached
+  msh --clear-cache        Delete cached translations
   msh --version            Show version
   msh --check-update       Check for updates
   msh --help               Show this help
@@ -95,20 +133,28 @@ ${colors.bold}THEMES${colors.reset}
 ${colors.bold}ENVIRONMENT${colors.reset}
   OPENCODE_ZEN_API_KEY     API key for OpenCode Zen
   OPENROUTER_API_KEY       API key for OpenRouter
+  ANTHROPIC_API_KEY        API key for Anthropic (direct)
+  OPENAI_API_KEY           API key for OpenAI (direct)
+  GOOGLE_API_KEY           API key for Google Gemini (direct)
+  OLLAMA_HOST              Ollama server address (default localhost:11434)
 
 ${colors.bold}CONFIG${colors.reset}
   ~/.magic-shell/config.json
 `);
 }
 
-function printModels() {
+async function printModels() {
   const config = loadConfig();
   const customModels = getCustomModels();
+  const [refreshes, localStatuses] = await Promise.all([refreshCatalogs(config.catalog), discoverLocalModels(config)]);
+  for (const refresh of refreshes.filter((r) => r.error)) {
+    console.log(`${colors.dim}Could not update the ${refresh.provider} model list (${refresh.error}), showing the saved one${colors.reset}`);
+  }
 
-  console.log(`\n${colors.bold}OpenCode Zen Models${colors.reset}`);
-  console.log(`${colors.dim}(* = free, X = temporarily disabled)${colors.reset}\n`);
+  console.log(`\n${colors.bold}OpenCode Zen Models${colors.reset} ${colors.dim}(${describeCatalog("opencode-zen")})${colors.reset}`);
+  console.log(`${colors.dim}(* = free, X = disabled)${colors.reset}\n`);
 
-  const sortedZenModels = [...OPENCODE_ZEN_MODELS].sort((a, b) => a.name.localeCompare(b.name));
+  const sortedZenModels = [...getProviderModels("opencode-zen")].sort((a, b) => a.name.localeCompare(b.name));
   for (const model of sortedZenModels) {
     const isCurrent = config.provider === "opencode-zen" && config.defaultModel === model.id;
     const marker = isCurrent ? colors.success + "→ " : "  ";
@@ -124,9 +170,9 @@ function printModels() {
     }
   }
 
-  console.log(`\n${colors.bold}OpenRouter Models${colors.reset}\n`);
+  console.log(`\n${colors.bold}OpenRouter Models${colors.reset} ${colors.dim}(${describeCatalog("openrouter")})${colors.reset}\n`);
 
-  const sortedRouterModels = [...OPENROUTER_MODELS].sort((a, b) => a.name.localeCompare(b.name));
+  const sortedRouterModels = [...getProviderModels("openrouter")].sort((a, b) => a.name.localeCompare(b.name));
   for (const model of sortedRouterModels) {
     const isCurrent = config.provider === "openrouter" && config.defaultModel === model.id;
     const marker = isCurrent ? colors.success + "→ " : "  ";
@@ -142,6 +188,35 @@ function printModels() {
     }
   }
 
+  // Direct vendor APIs, each needing its own key
+  for (const provider of ["anthropic", "openai", "google"] as const) {
+    console.log(`\n${colors.bold}${DIRECT_PROVIDERS[provider].name} Models${colors.reset} ${colors.dim}(direct)${colors.reset}\n`);
+    for (const model of getProviderModels(provider)) {
+      const marker = config.defaultModel === model.id ? colors.success + "→ " : "  ";
+      console.log(`${marker}${model.id} ${colors.dim}[${model.category}]${colors.reset}`);
+      console.log(`    ${colors.dim}${model.description}${colors.reset}`);
+    }
+  }
+
+  console.log(`\n${colors.bold}Offline${colors.reset}\n`);
+  const offlineMarker = config.defaultModel === OFFLINE_MODEL.id ? colors.success + "→ " : "  ";
+  console.log(`${offlineMarker}${OFFLINE_MODEL.id}${colors.success} *${colors.reset} ${colors.dim}[${OFFLINE_MODEL.category}]${colors.reset}`);
+  console.log(`    ${colors.dim}${OFFLINE_MODEL.description}${colors.reset}`);
+
+  // Local servers, with the models they report right now
+  for (const status of localStatuses) {
+    const health = status.reachable ? colors.success + describeLocalStatus(status) : colors.error + describeLocalStatus(status);
+    console.log(`\n${colors.bold}${LOCAL_PROVIDER_NAMES[status.provider]} Models${colors.reset} ${colors.dim}(${status.baseUrl})${colors.reset} ${health}${colors.reset}\n`);
+    if (!status.reachable) {
+      console.log(`  ${colors.dim}Start ${LOCAL_PROVIDER_NAMES[status.provider]} to use its models, or set localProviders.${status.provider} in the config${colors.reset}`);
+    }
+    for (const model of status.models) {
+      const marker = config.defaultModel === model.id ? colors.success + "→ " : "  ";
+      console.log(`${marker}${model.id}${colors.success} *${colors.reset} ${colors.dim}[${model.category}]${colors.reset}`);
+      console.log(`    ${colors.dim}${model.description}${colors.reset}`);
+    }
+  }
+
   // Custom models section
   if (customModels.length > 0) {
     console.log(`\n${colors.bold}Custom Models${colors.reset} ${colors.info}(custom)${colors.reset}\n`);
@@ -158,6 +233,34 @@ function printModels() {
   console.log();
 }
 
+function printCatalogRefresh(results: CatalogRefresh[]) {
+  if (results.length === 0) {
+    console.log(`${colors.dim}Model catalogs are turned off (catalog.enabled is false)${colors.reset}`);
+    return;
+  }
+  for (const result of results) {
+    const name = result.provider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter";
+    if (!result.refreshed) {
+      console.log(`${colors.error}✗ ${name}: ${result.error}${colors.reset}`);
+      continue;
+    }
+    console.log(`${colors.success}✓ ${name}: ${result.models} models${colors.reset}`);
+    if (result.removed?.length) {
+      console.log(`  ${colors.warning}No longer offered: ${result.removed.join(", ")}${colors.reset}`);
+    }
+  }
+}
+
+function getProviderName(provider: Provider): string {
+  if (isDirectProvider(provider)) return DIRECT_PROVIDERS[provider].name;
+  return provider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter";
+}
+
+function getApiKeyUrl(provider: Provider): string {
+  if (isDirectProvider(provider)) return DIRECT_PROVIDERS[provider].keyUrl;
+  return provider === "opencode-zen" ? "https://opencode.ai/auth" : "https://openrouter.ai/keys";
+}
+
 /**
  * Validate API key format based on provider
  * Returns error message if invalid, null if valid
@@ -173,10 +276,10 @@ function validateApiKey(key: string, provider: Provider): string | null {
     return "API key seems too short (expected at least 20 characters)";
   }
 
-  // Both providers use sk- prefix (OpenRouter uses sk-or-, OpenCode Zen uses sk-)
-  if (!trimmed.startsWith("sk-")) {
-    const providerName = provider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter";
-    return `${providerName} API keys typically start with 'sk-'`;
+  // OpenRouter uses sk-or-, OpenCode Zen sk-, and the vendors their own prefixes
+  const prefix = isDirectProvider(provider) ? DIRECT_PROVIDERS[provider].keyPrefix : "sk-";
+  if (!trimmed.startsWith(prefix)) {
+    return `${getProviderName(provider)} API keys typically start with '${prefix}'`;
   }
 
   // Check for common copy-paste errors
@@ -210,9 +313,13 @@ async function setup() {
   console.log("Select provider:");
   console.log("  1. OpenCode Zen (recommended, has free models)");
   console.log("  2. OpenRouter");
+  console.log("  3. Anthropic (direct, own API key)");
+  console.log("  4. OpenAI (direct, own API key)");
+  console.log("  5. Google (direct, own API key)");
 
   const providerChoice = await question("\nChoice [1]: ");
-  const provider: Provider = providerChoice === "2" ? "openrouter" : "opencode-zen";
+  const providers: (CatalogProvider | DirectProvider)[] = ["opencode-zen", "openrouter", "anthropic", "openai", "google"];
+  const provider = providers[parseInt(providerChoice, 10) - 1] ?? "opencode-zen";
 
   // API key
   const existingKey = await getApiKey(provider);
@@ -221,8 +328,7 @@ async function setup() {
     if (useExisting.toLowerCase() !== "n") {
       console.log(`${colors.green}✓ Using existing API key${colors.reset}`);
     } else {
-      const url = provider === "opencode-zen" ? "https://opencode.ai/auth" : "https://openrouter.ai/keys";
-      console.log(`\nGet your API key from: ${colors.cyan}${url}${colors.reset}`);
+      console.log(`\nGet your API key from: ${colors.cyan}${getApiKeyUrl(provider)}${colors.reset}`);
 
       let validKey = false;
       while (!validKey) {
@@ -247,8 +353,7 @@ async function setup() {
       }
     }
   } else {
-    const url = provider === "opencode-zen" ? "https://opencode.ai/auth" : "https://openrouter.ai/keys";
-    console.log(`\nGet your API key from: ${colors.cyan}${url}${colors.reset}`);
+    console.log(`\nGet your API key from: ${colors.cyan}${getApiKeyUrl(provider)}${colors.reset}`);
 
     let validKey = false;
     while (!validKey) {
@@ -275,7 +380,7 @@ async function setup() {
   }
 
   // Model selection
-  const models = provider === "opencode-zen" ? OPENCODE_ZEN_MODELS : OPENROUTER_MODELS;
+  const models = getProviderModels(provider).filter((m) => !m.disabled);
   const freeModels = models.filter((m) => m.free);
 
   console.log("\nRecommended models:");
@@ -295,20 +400,21 @@ async function setup() {
   saveConfig(config);
 
   console.log(`\n${colors.green}✓ Setup complete!${colors.reset}`);
-  console.log(`  Provider: ${provider === "opencode-zen" ? "OpenCode Zen" : "OpenRouter"}`);
+  console.log(`  Provider: ${getProviderName(provider)}`);
   console.log(`  Model: ${selectedModel.name}`);
   console.log(`\nTry: ${colors.cyan}msh "list all files"${colors.reset}\n`);
 
   rl.close();
 }
 
-function executeCommand(command: string): Promise<{ code: number; output: string }> {
+function executeCommand(command: string, interactive = false): Promise<{ code: number; output: string; stderr: string }> {
   return new Promise((resolve) => {
     const child = spawn(command, {
       shell: true,
       cwd: getCwd(),
       env: process.env,
-      stdio: ["inherit", "pipe", "pipe"],
+      // Editors and pagers need the real terminal, so their output is not captured
+      stdio: interactive ? "inherit" : ["inherit", "pipe", "pipe"],
     });
 
     let stdout = "";
@@ -327,11 +433,11 @@ function executeCommand(command: string): Promise<{ code: number; output: string
     });
 
     child.on("error", (error) => {
-      resolve({ code: 1, output: error.message });
+      resolve({ code: 1, output: error.message, stderr: error.message });
     });
 
     child.on("close", (code) => {
-      resolve({ code: code ?? 0, output: stdout || stderr });
+      resolve({ code: code ?? 0, output: stdout || stderr, stderr });
     });
   });
 }
@@ -351,7 +457,8 @@ async function setupCustomModel() {
   };
 
   console.log(`\n${colors.bold}${colors.cyan}Add Custom Model${colors.reset}`);
-  console.log(`For LM Studio, Ollama, or any OpenAI-compatible endpoint\n`);
+  console.log(`For LM Studio, Ollama, or any OpenAI-compatible endpoint`);
+  console.log(`${colors.dim}Models on a running Ollama or LM Studio are listed by msh --models without adding them${colors.reset}\n`);
 
   // Model ID (for referencing)
   const id = await question("Model ID (for referencing, e.g., my-local-llama): ");
@@ -467,22 +574,60 @@ function createSpinner(message: string) {
   };
 }
 
-async function translate(query: string, options: { execute?: boolean; dryRun?: boolean; repoContext?: boolean }) {
-  const config = loadConfig();
+function printAlternatives(query: string, translations: CommandTranslation[], config: Config, cwd: string) {
+  translations.forEach((translation, i) => {
+    const safety = analyzeCommand(translation.command, config, { ...getShellInfo(), cwd, approvals: getActiveApprovals() });
+    console.log(`${colors.bold}${i + 1}.${colors.reset} ${translation.command.split("\n").join("\n   ")}`);
+    if (translation.explanation) {
+      console.log(`   ${colors.dim}${translation.explanation}${translation.confidence !== undefined ? ` (${Math.round(translation.confidence * 100)}% confident)` : ""}${colors.reset}`);
+    }
+    if (safety.isDangerous) {
+      const severityColor = safety.severity === "critical" || safety.severity === "high" ? colors.red : safety.severity === "medium" ? colors.yellow : colors.gray;
+      console.log(`   ${severityColor}[${safety.severity.toUpperCase()}]${colors.reset} ${safety.reason}`);
+    }
+    if (translation.requiresInteractive) {
+      console.log(`   ${colors.yellow}Needs an interactive terminal${colors.reset}`);
+    }
+  });
+  console.log();
+  console.log(`${colors.dim}Run one with: msh --alternatives ${translations.length} -x <n> ${JSON.stringify(query)}${colors.reset}`);
+}
+
+// The configured default model and the API key to call it with. A missing key exits with a setup hint,
+// or with `allowOffline` switches to the offline translator
+async function getActiveModel(config: Config, allowOffline = false): Promise<{ model: Model | CustomModel; customModel?: CustomModel; apiKey: string }> {
   const apiKey = await getApiKey(config.provider);
 
   // Find current model - check custom models first
   const customModel = await getCustomModel(config.defaultModel);
-  const builtInModel = ALL_MODELS.find((m) => m.id === config.defaultModel);
-  const model = customModel || builtInModel || (config.provider === "opencode-zen" ? OPENCODE_ZEN_MODELS[0] : OPENROUTER_MODELS[0]);
+  const builtInModel = findModel(config.defaultModel);
+  const model = customModel || builtInModel || (config.provider === "opencode-zen" || isDirectProvider(config.provider) ? getProviderModels(config.provider)[0] : config.provider === "offline" ? OFFLINE_MODEL : getProviderModels("openrouter")[0]);
 
   // Check if we need an API key
-  if (!customModel && !apiKey) {
+  if (!customModel && !apiKey && !isOfflineModel(model)) {
+    if (allowOffline) {
+      console.error(`${colors.dim}No API key configured, using the offline translator. Run ${colors.cyan}msh --setup${colors.dim} for model translations.${colors.reset}`);
+      return { model: OFFLINE_MODEL, apiKey: "" };
+    }
     console.error(`${colors.red}Error: No API key configured.${colors.reset}`);
     console.error(`Run: ${colors.cyan}msh --setup${colors.reset}`);
     process.exit(1);
   }
 
+  return { model, customModel, apiKey };
+}
+
+// "GPT 5 Nano (fallback, Big Pickle failed)" when the configured model did not answer
+function describeAnsweringModel(translation: CommandTranslation, model: Model | CustomModel, config: Config): string {
+  if (!translation.fallbackFrom || !translation.model) return model.name;
+  const name = [...(config.customModels ?? []), ...getAllModels()].find((m) => m.id === translation.model)?.name ?? translation.model;
+  return `${name} ${colors.yellow}(fallback, ${model.name} failed)${colors.reset}`;
+}
+
+async function translate(query: string, options: { execute?: boolean; dryRun?: boolean; repoContext?: boolean; alternatives?: number; pick?: number; failure?: CommandFailure; noCache?: boolean }) {
+  const config = loadConfig();
+  const { model, customModel, apiKey } = await getActiveModel(config, true);
+
   const history = loadHistory();
   const cwd = getCwd();
 
@@ -493,31 +638,91 @@ async function translate(query: string, options: { execute?: boolean; dryRun?: b
   const spinner = createSpinner(`Translating with ${customModel ? customModel.name : (model as Model).name}`);
 
   try {
-    const command = await translateToCommand(apiKey, model, query, cwd, history, useRepoContext);
+    // -x N runs from the list that was printed, not a fresh (possibly different) answer
+    const saved = options.pick !== undefined ? loadLastAlternatives(query, model.id, cwd) : undefined;
+    const translations = options.failure
+      ? [await suggestFix(apiKey, model, options.failure, cwd, history, useRepoContext)]
+      : (saved ?? (await translateAlternatives(apiKey, model, query, cwd, history, useRepoContext, Math.max(options.alternatives ?? 1, options.pick ?? 1), undefined, !options.noCache)));
     spinner.stop();
+    warnIfOverBudget(config);
+
+    // Dry runs list the model anyway; elsewhere stdout stays just the command, so this goes to stderr
+    if (translations[0]?.fallbackFrom && !options.dryRun) {
+      console.error(`${colors.dim}Answered by${colors.reset} ${describeAnsweringModel(translations[0], model, config)}`);
+    }
+
+    if (options.alternatives && options.pick === undefined) {
+      saveLastAlternatives({ query, model: model.id, cwd, translations });
+      printAlternatives(query, translations, config, cwd);
+      return;
+    }
+
+    const translation = translations[(options.pick ?? 1) - 1];
+    if (!translation) {
+      console.error(`${colors.red}Error: Only ${translations.length} alternatives available${colors.reset}`);
+      process.exit(1);
+    }
+    const { command } = translation;
 
     if (options.dryRun) {
       // Dry run - show command and safety analysis
-      const safety = analyzeCommand(command, config);
+      const safety = await reviewOrWarn(command, analyzeCommand(command, config, { ...getShellInfo(), cwd, approvals: getActiveApprovals() }), { ...config, repoContext: useRepoContext }, model, cwd);
 
       console.log(`${colors.dim}Query:${colors.reset} ${query}`);
-      console.log(`${colors.dim}Model:${colors.reset} ${model.name}`);
+      console.log(`${colors.dim}Model:${colors.reset} ${describeAnsweringModel(translation, model, config)}${translation.cached ? ` ${colors.dim}(cached)${colors.reset}` : ""}`);
       if (useRepoContext) {
         console.log(`${colors.dim}Project context:${colors.reset} enabled`);
       }
       console.log();
       console.log(`${colors.bold}Command:${colors.reset} ${command}`);
+      if (translation.explanation) {
+        console.log(`${colors.dim}Why:${colors.reset} ${translation.explanation}`);
+      }
+      for (const assumption of translation.assumptions) {
+        console.log(`  ${colors.dim}Assumes:${colors.reset} ${assumption}`);
+      }
+      if (translation.confidence !== undefined) {
+        console.log(`${colors.dim}Confidence:${colors.reset} ${Math.round(translation.confidence * 100)}%`);
+      }
+      if (translation.requiresInteractive) {
+        console.log(`${colors.yellow}Needs an interactive terminal${colors.reset}`);
+      }
 
       if (safety.isDangerous) {
         const severityColor = safety.severity === "critical" ? colors.red : safety.severity === "high" ? colors.red : safety.severity === "medium" ? colors.yellow : colors.gray;
         console.log();
         console.log(`${severityColor}[${safety.severity.toUpperCase()}]${colors.reset} ${safety.reason}`);
+        for (const finding of safety.findings) {
+          console.log(`  ${colors.dim}•${colors.reset} ${finding.description} ${colors.dim}in${colors.reset} ${finding.segment}${finding.path ? ` ${colors.dim}via ${finding.path.join(" → ")}${colors.reset}` : ""}`);
+        }
       } else {
         console.log(`${colors.green}✓ Command appears safe${colors.reset}`);
       }
+
+      if (safety.review) {
+        const { review } = safety;
+        console.log();
+        console.log(`${colors.bold}Review:${colors.reset} ${colors.dim}[${review.severity}] via ${review.model}${colors.reset} ${review.explanation}`);
+        if (review.affectedResources.length > 0) {
+          console.log(`  ${colors.dim}Touches:${colors.reset} ${review.affectedResources.join(", ")}`);
+        }
+      }
+
+      const impact = estimateCommandImpact(command, safety, { ...getShellInfo(), cwd });
+      if (impact) {
+        console.log();
+        console.log(`${colors.bold}Affects:${colors.reset} ${describeImpact(impact)}`);
+        for (const path of impact.sample) {
+          console.log(`  ${colors.dim}•${colors.reset} ${path}`);
+        }
+        const remaining = impact.files + impact.directories - impact.sample.length;
+        if (remaining > 0) {
+          console.log(`  ${colors.dim}… and ${remaining}${impact.truncated ? "+" : ""} more${colors.reset}`);
+        }
+      }
     } else if (options.execute) {
       // Execute mode
-      const safety = analyzeCommand(command, config);
+      const safety = await reviewOrWarn(command, analyzeCommand(command, config, { ...getShellInfo(), cwd, approvals: getActiveApprovals() }), { ...config, repoContext: useRepoContext }, model, cwd);
 
       if (safety.isDangerous && safety.severity !== "low") {
         console.error(`${colors.dim}Command:${colors.reset} ${command}`);
@@ -527,7 +732,54 @@ async function translate(query: string, options: { execute?: boolean; dryRun?: b
         process.exit(1);
       }
 
-      const result = await executeCommand(command);
+      let snapshot: UndoSnapshot | null = null;
+      if (config.undo?.enabled) {
+        try {
+          snapshot = snapshotCommand(command, cwd, config.undo);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`${colors.yellow}Warning: no undo snapshot taken: ${message}${colors.reset}`);
+        }
+      }
+
+      const startedAt = Date.now();
+      const result = await executeCommand(command, translation.requiresInteractive);
+      if (snapshot) {
+        try {
+          finishSnapshot(snapshot);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`${colors.yellow}Warning: undo will not remove files this command created: ${message}${colors.reset}`);
+        }
+      }
+      addToHistory({
+        input: query,
+        command,
+        output: result.output.slice(0, 500),
+        timestamp: Date.now(),
+        exitCode: result.code,
+        stderr: result.code !== 0 ? result.stderr.slice(-1000) : undefined,
+        model: translation.model ?? model.id,
+        usage: translation.usage,
+      });
+      try {
+        appendAuditRecord({
+          input: query,
+          command,
+          origin: "translated",
+          model: translation.model ?? model.id,
+          provider: translation.provider ?? (customModel ? "custom" : (model as Model).provider),
+          safety,
+          // -x never prompts; anything that would need confirmation exited above
+          decision: getAuditDecision(safety, false),
+          cwd,
+          exitCode: result.code,
+          durationMs: Date.now() - startedAt,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`${colors.yellow}Warning: could not write audit log: ${message}${colors.reset}`);
+      }
       process.exit(result.code);
     } else {
       // Default - just output the command (can be piped)
@@ -541,6 +793,227 @@ async function translate(query: string, options: { execute?: boolean; dryRun?: b
   }
 }
 
+function parseAuditDate(value: string, flag: string): number {
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    console.error(`${colors.error}Invalid date for ${flag}: ${value}${colors.reset}`);
+    process.exit(1);
+  }
+  return time;
+}
+
+function showAudit(args: string[]) {
+  if (args.includes("--verify")) {
+    const result = verifyAuditLog();
+    if (result.valid) {
+      console.log(`${colors.success}✓ Audit log intact${colors.reset} ${colors.dim}(${result.records} records)${colors.reset}`);
+      return;
+    }
+    console.error(`${colors.error}✗ Audit log tampered at line ${result.brokenAt}: ${result.error}${colors.reset}`);
+    console.error(`${colors.dim}${getAuditFilePath()}${colors.reset}`);
+    process.exit(1);
+  }
+
+  let since: number | undefined;
+  let until: number | undefined;
+  let minSeverity: SafetyAnalysis["severity"] | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[i + 1];
+    if (arg === "--since" && value) {
+      since = parseAuditDate(value, arg);
+      i++;
+    } else if (arg === "--until" && value) {
+      until = parseAuditDate(value, arg);
+      i++;
+    } else if (arg === "--severity" && value) {
+      const level = value.toLowerCase();
+      if (level !== "low" && level !== "medium" && level !== "high" && level !== "critical") {
+        console.error(`${colors.error}Unknown severity: ${value}${colors.reset}`);
+        console.error(`Valid severities: low, medium, high, critical`);
+        process.exit(1);
+      }
+      minSeverity = level;
+      i++;
+    }
+  }
+
+  const records = queryAuditLog({ since, until, minSeverity });
+  if (records.length === 0) {
+    console.log(`${colors.dim}No matching audit records.${colors.reset}`);
+    return;
+  }
+
+  for (const record of records) {
+    const severityColor = record.safety.severity === "critical" || record.safety.severity === "high" ? colors.red : record.safety.severity === "medium" ? colors.yellow : colors.gray;
+    const exitColor = record.exitCode === 0 ? colors.green : colors.red;
+    console.log(
+      `${colors.dim}${new Date(record.timestamp).toLocaleString()}${colors.reset} ${severityColor}[${record.safety.severity.toUpperCase()}]${colors.reset} ${exitColor}exit ${record.exitCode}${colors.reset} ${colors.dim}${record.decision}${colors.reset}`,
+    );
+    console.log(`  ${colors.bold}${record.command}${colors.reset}`);
+    const source = record.origin === "translated" ? `"${record.input}" via ${record.model}` : "direct";
+    console.log(`  ${colors.dim}${source} · ${record.cwd} · ${record.durationMs}ms${colors.reset}`);
+  }
+}
+
+// Goes to stderr so piped output stays just the command
+function warnIfOverBudget(config: Config) {
+  const status = checkBudget(config.budget);
+  if (status) {
+    console.error(`${colors.yellow}Warning: ${describeBudget(status)}${status.blocked ? "; paid models are blocked" : ""}${colors.reset}`);
+  }
+}
+
+function showUsage() {
+  const config = loadConfig();
+  const report = getUsageReport();
+  const formatTotal = (total: UsageTotal) =>
+    `${formatCost(total.cost).padStart(9)}  ${colors.dim}${total.requests} ${total.requests === 1 ? "request" : "requests"}, ${formatTokens(total.inputTokens)} in / ${formatTokens(total.outputTokens)} out${colors.reset}`;
+
+  console.log(`${colors.bold}Today${colors.reset}       ${formatTotal(report.today)}`);
+  console.log(`${colors.bold}This month${colors.reset}  ${formatTotal(report.month)}`);
+
+  const { daily, monthly, action = "warn" } = config.budget ?? {};
+  if (daily !== undefined || monthly !== undefined) {
+    const limits = [daily !== undefined && `${formatCost(daily)}/day`, monthly !== undefined && `${formatCost(monthly)}/month`].filter(Boolean).join(", ");
+    const status = checkBudget(config.budget);
+    console.log(`${colors.bold}Budget${colors.reset}      ${limits} ${colors.dim}(${action})${colors.reset} ${status ? `${colors.red}${describeBudget(status)}${colors.reset}` : `${colors.green}within budget${colors.reset}`}`);
+  }
+
+  if (report.days.length > 0) {
+    console.log();
+    console.log(`${colors.bold}Last 7 days${colors.reset}`);
+    for (const total of report.days) {
+      console.log(`  ${total.period}  ${formatTotal(total)}`);
+    }
+  }
+
+  if (report.months.length > 0) {
+    console.log();
+    console.log(`${colors.bold}By month${colors.reset}`);
+    for (const total of report.months) {
+      console.log(`  ${total.period}     ${formatTotal(total)}`);
+    }
+  }
+}
+
+// Second-opinion review when safetyReview is on; a failed review falls back to the rule-based result
+async function explain(command: string) {
+  if (!command.trim()) {
+    console.error(`${colors.red}Error: No command provided${colors.reset}`);
+    console.error(`Usage: msh explain '<command>'`);
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  const { model, apiKey } = await getActiveModel(config);
+  const cwd = getCwd();
+  const safety = analyzeCommand(command, config, { ...getShellInfo(), cwd, approvals: getActiveApprovals() });
+
+  const spinner = createSpinner(`Explaining with ${model.name}`);
+  try {
+    const explanation = await explainCommand(apiKey, model, command, safety, cwd, config.repoContext);
+    spinner.stop();
+    warnIfOverBudget(config);
+    printExplanation(explanation);
+  } catch (error) {
+    spinner.stop();
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${colors.red}Error: ${message}${colors.reset}`);
+    process.exit(1);
+  }
+}
+
+function printExplanation(explanation: CommandExplanation) {
+  const severityColor = (severity: SafetyAnalysis["severity"]) => (severity === "critical" || severity === "high" ? colors.red : severity === "medium" ? colors.yellow : colors.gray);
+  const printFindings = (findings: CommandExplanation["findings"], indent: string) => {
+    for (const finding of findings) {
+      console.log(`${indent}${severityColor(finding.severity)}[${finding.severity.toUpperCase()}]${colors.reset} ${finding.description}${finding.path ? ` ${colors.dim}via ${finding.path.join(" → ")}${colors.reset}` : ""}`);
+    }
+  };
+
+  console.log(`${colors.bold}Command:${colors.reset} ${explanation.command}`);
+  if (explanation.summary) {
+    console.log(explanation.summary);
+  }
+
+  explanation.segments.forEach((segment, i) => {
+    console.log();
+    console.log(`${colors.bold}${i + 1}.${colors.reset} ${colors.cyan}${segment.text}${colors.reset}`);
+    if (segment.explanation) {
+      console.log(`   ${segment.explanation}`);
+    }
+    const width = Math.max(0, ...segment.flags.map((f) => f.flag.length));
+    for (const { flag, meaning } of segment.flags) {
+      console.log(`     ${colors.magenta}${flag.padEnd(width)}${colors.reset}  ${colors.dim}${meaning}${colors.reset}`);
+    }
+    printFindings(segment.findings, "   ");
+  });
+
+  console.log();
+  printFindings(explanation.findings, "");
+  const { safety } = explanation;
+  if (safety.findings.length === 0) {
+    console.log(`${colors.green}✓ No safety findings${colors.reset}`);
+  } else {
+    console.log(`${colors.bold}Overall:${colors.reset} ${severityColor(safety.severity)}[${safety.severity.toUpperCase()}]${colors.reset} ${safety.reason ?? "Below your safety level, runs without confirmation"}`);
+  }
+}
+
+async function reviewOrWarn(command: string, safety: SafetyAnalysis, config: Config, model: Model | CustomModel, cwd: string): Promise<SafetyAnalysis> {
+  if (!config.safetyReview || safety.severity === "low") return safety;
+  try {
+    return await reviewSafety(command, safety, config, model, cwd);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${colors.yellow}Warning: safety review failed, using rule-based result: ${message}${colors.reset}`);
+    return safety;
+  }
+}
+
+function undo(args: string[]) {
+  if (args.includes("--list")) {
+    const snapshots = listSnapshots();
+    if (snapshots.length === 0) {
+      console.log(`${colors.dim}No undo snapshots.${colors.reset}`);
+      return;
+    }
+    snapshots.forEach((snapshot, i) => {
+      console.log(`${colors.dim}${i + 1}. ${new Date(snapshot.timestamp).toLocaleString()}${colors.reset} ${colors.bold}${snapshot.command}${colors.reset}`);
+      console.log(`   ${colors.dim}${snapshot.roots.length} paths · ${formatBytes(snapshot.bytes)} · ${snapshot.cwd}${colors.reset}`);
+    });
+    return;
+  }
+
+  const count = args[0] ? Number(args[0]) : 1;
+  if (!Number.isInteger(count) || count < 1) {
+    console.error(`${colors.error}Invalid count: ${args[0]}${colors.reset}`);
+    console.error(`Usage: msh --undo [N] or msh --undo --list`);
+    process.exit(1);
+  }
+
+  let restored: UndoSnapshot[];
+  try {
+    restored = restoreSnapshots(count);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${colors.error}Undo failed: ${message}${colors.reset}`);
+    process.exit(1);
+  }
+
+  if (restored.length === 0) {
+    console.log(`${colors.dim}Nothing to undo.${colors.reset}`);
+    if (!loadConfig().undo?.enabled) {
+      console.log(`${colors.dim}Enable snapshots with msh --undo-snapshots.${colors.reset}`);
+    }
+    return;
+  }
+  for (const snapshot of restored) {
+    console.log(`${colors.success}✓ Restored${colors.reset} ${snapshot.command} ${colors.dim}(${snapshot.cwd})${colors.reset}`);
+  }
+}
+
 // Show update notification if available (non-blocking)
 async function showUpdateNotification() {
   try {
@@ -609,7 +1082,12 @@ async function main() {
 
   if (args[0] === "--models") {
     await updatePromise;
-    printModels();
+    await printModels();
+    return;
+  }
+
+  if (args[0] === "--refresh-models") {
+    printCatalogRefresh(await refreshCatalogs(loadConfig().catalog, true));
     return;
   }
 
@@ -667,18 +1145,42 @@ async function main() {
       return;
     }
 
-    const model = ALL_MODELS.find((m) => m.id === modelId);
+    // "ollama/llama3.2" or "lmstudio/<model>": check the server has it, if the server is up
+    const localModel = getLocalModel(modelId, loadConfig());
+    if (localModel?.localProvider) {
+      const providerName = LOCAL_PROVIDER_NAMES[localModel.localProvider];
+      const config = loadConfig();
+      const status = (await discoverLocalModels(config)).find((s) => s.provider === localModel.localProvider);
+      if (status?.reachable && !status.models.some((m) => m.id === localModel.id)) {
+        console.error(`${colors.error}${providerName} has no model ${localModel.modelId}${colors.reset}`);
+        console.error(`Run ${colors.primary}msh --models${colors.reset} to see available models.`);
+        process.exit(1);
+      }
+      config.defaultModel = localModel.id;
+      config.provider = "custom";
+      saveConfig(config);
+      console.log(`${colors.success}✓ Default model set to ${localModel.name}${colors.reset}`);
+      console.log(`${colors.dim}(${providerName}: ${localModel.baseUrl})${colors.reset}`);
+      if (!status?.reachable) {
+        console.log(`${colors.warning}${providerName} is ${status?.error ?? "unavailable"} at ${status?.baseUrl ?? localModel.baseUrl}; start it before translating.${colors.reset}`);
+      }
+      return;
+    }
+
+    // A model added upstream since the last refresh is only known after fetching the catalog again
+    const config = loadConfig();
+    await refreshCatalogs(config.catalog, !findModel(modelId));
+    const model = findModel(modelId);
     if (!model) {
       console.error(`${colors.error}Unknown model: ${modelId}${colors.reset}`);
       console.error(`Run ${colors.primary}msh --models${colors.reset} to see available models.`);
       process.exit(1);
     }
     if (model.disabled) {
-      console.error(`${colors.error}Model ${model.name} is temporarily disabled: ${model.disabledReason}${colors.reset}`);
+      console.error(`${colors.error}Model ${model.name} is disabled: ${model.disabledReason}${colors.reset}`);
       console.error(`Run ${colors.primary}msh --models${colors.reset} to see available models.`);
       process.exit(1);
     }
-    const config = loadConfig();
     config.defaultModel = modelId;
     config.provider = model.provider;
     saveConfig(config);
@@ -688,15 +1190,15 @@ async function main() {
 
   if (args[0] === "--provider" && args[1]) {
     const provider = args[1] as Provider;
-    if (provider !== "opencode-zen" && provider !== "openrouter") {
+    if (provider !== "opencode-zen" && provider !== "openrouter" && !isDirectProvider(provider)) {
       console.error(`${colors.error}Unknown provider: ${provider}${colors.reset}`);
-      console.error(`Valid providers: opencode-zen, openrouter`);
+      console.error(`Valid providers: opencode-zen, openrouter, anthropic, openai, google`);
       process.exit(1);
     }
     const config = loadConfig();
     config.provider = provider;
     // Reset to first non-disabled model of new provider
-    const models = provider === "opencode-zen" ? OPENCODE_ZEN_MODELS : OPENROUTER_MODELS;
+    const models = getProviderModels(provider);
     const firstAvailable = models.find((m) => !m.disabled) || models[0];
     config.defaultModel = firstAvailable.id;
     saveConfig(config);
@@ -765,27 +1267,129 @@ async function main() {
     return;
   }
 
+  if (args[0] === "--audit") {
+    showAudit(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "--undo") {
+    undo(args.slice(1));
+    return;
+  }
+
+  if (args[0] === "--usage") {
+    showUsage();
+    return;
+  }
+
+  if (args[0] === "--clear-cache") {
+    clearCache();
+    console.log(`${colors.success}✓ Translation cache cleared${colors.reset}`);
+    return;
+  }
+
+  if (args[0] === "explain") {
+    await explain(args.slice(1).join(" "));
+    return;
+  }
+
+  if (args[0] === "--safety-review") {
+    const config = loadConfig();
+    config.safetyReview = true;
+    if (args[1]) {
+      config.reviewModel = args[1];
+    }
+    saveConfig(config);
+    console.log(`${colors.success}✓ Safety review enabled${colors.reset} ${colors.dim}(${config.reviewModel ?? "using the translation model"})${colors.reset}`);
+    console.log(`${colors.dim}Commands rated medium or above get a second opinion from the model. It can raise the severity, never lower it.${colors.reset}`);
+    return;
+  }
+
+  if (args[0] === "--no-safety-review") {
+    const config = loadConfig();
+    config.safetyReview = false;
+    saveConfig(config);
+    console.log(`${colors.success}✓ Safety review disabled${colors.reset}`);
+    return;
+  }
+
+  if (args[0] === "--undo-snapshots") {
+    const config = loadConfig();
+    config.undo = { ...config.undo, enabled: true };
+    saveConfig(config);
+    console.log(`${colors.success}✓ Undo snapshots enabled${colors.reset}`);
+    console.log(`${colors.dim}Files are saved to ~/.magic-shell/undo/ before a command modifies them. Restore with msh --undo.${colors.reset}`);
+    return;
+  }
+
+  if (args[0] === "--no-undo-snapshots") {
+    const config = loadConfig();
+    config.undo = { ...config.undo, enabled: false };
+    saveConfig(config);
+    console.log(`${colors.success}✓ Undo snapshots disabled${colors.reset}`);
+    return;
+  }
+
   // Parse flags and query
   let execute = false;
   let dryRun = false;
   let repoContext: boolean | undefined = undefined;
+  let alternatives: number | undefined = undefined;
+  let pick: number | undefined = undefined;
+  let fix = false;
+  let noCache = false;
   let queryParts: string[] = [];
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === "-x" || arg === "--execute") {
       execute = true;
+      // With --alternatives, "-x 2" runs the second alternative
+      if (args.includes("--alternatives") && /^\d+$/.test(args[i + 1] ?? "")) {
+        pick = Number(args[++i]);
+      }
+    } else if (arg === "--fix") {
+      fix = true;
+    } else if (arg === "--alternatives") {
+      alternatives = Number(args[++i]);
+      if (!Number.isInteger(alternatives) || alternatives < 1 || alternatives > MAX_ALTERNATIVES) {
+        console.error(`${colors.red}Error: --alternatives takes a number from 1 to ${MAX_ALTERNATIVES}${colors.reset}`);
+        process.exit(1);
+      }
     } else if (arg === "-n" || arg === "--dry-run") {
       dryRun = true;
     } else if (arg === "-r" || arg === "--repo-context") {
       repoContext = true;
     } else if (arg === "--no-repo-context") {
       repoContext = false;
+    } else if (arg === "--no-cache") {
+      noCache = true;
     } else if (!arg.startsWith("-")) {
       queryParts.push(arg);
     }
   }
 
+  // --fix retries the last command in history, which must have failed
+  if (fix) {
+    const last = loadHistory().at(-1);
+    if (!last) {
+      console.error(`${colors.red}Error: No command history to fix${colors.reset}`);
+      process.exit(1);
+    }
+    if (last.exitCode === 0) {
+      console.error(`${colors.dim}Last command succeeded, nothing to fix:${colors.reset} ${last.command}`);
+      process.exit(1);
+    }
+    // Entries written by older versions have no exit code
+    if (last.exitCode === undefined) {
+      console.error(`${colors.red}Error: No exit code recorded for the last command, so it cannot be fixed:${colors.reset} ${last.command}`);
+      process.exit(1);
+    }
+    const failure = { input: last.input, command: last.command, exitCode: last.exitCode, stderr: last.stderr ?? last.output };
+    await translate(last.input, { execute, dryRun, repoContext, failure });
+    return;
+  }
+
   const query = queryParts.join(" ");
 
   if (!query) {
@@ -794,7 +1398,12 @@ async function main() {
     process.exit(1);
   }
 
-  await translate(query, { execute, dryRun, repoContext });
+  if (pick !== undefined && pick < 1) {
+    console.error(`${colors.red}Error: Alternatives are numbered from 1${colors.reset}`);
+    process.exit(1);
+  }
+
+  await translate(query, { execute, dryRun, repoContext, alternatives, pick, noCache });
 }
 
 main().catch((error) => {
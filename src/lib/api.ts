@@ -2,12 +2,18 @@ import { createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOpenAI } from "@ai-sdk/openai";
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
-import { generateText, type LanguageModel } from "ai";
+import { APICallError, Output, jsonSchema, streamText, type JSONSchema7, type LanguageModel, type LanguageModelUsage } from "ai";
 
-import type { CommandHistory, Model, Config, CustomModel } from "./types";
-import { isCustomModel } from "./types";
+import type { CommandExplanation, CommandFailure, CommandHistory, CommandTranslation, Model, Config, CustomModel, PlanStep, PlanStepOutcome, Provider, SafetyAnalysis, SafetyReview, TokenUsage } from "./types";
+import { OFFLINE_MODEL, isCustomModel, isDirectProvider, isOfflineModel } from "./types";
+import { getApiKey, getCustomModel, loadConfig } from "./config";
+import { findModel } from "./catalog";
+import { analyzeCommand, annotateSegments, applyReview } from "./safety";
 import { detectShell, getShellSyntaxHints, getPlatformPaths, type ShellInfo } from "./shell";
 import { detectRepoContext, formatRepoContext } from "./repo-context";
+import { checkBudget, describeBudget, isPaid, priceUsage, recordUsage } from "./usage";
+import { cacheTranslations, getCacheKey, getCachedTranslations, isFollowUpRequest } from "./cache";
+import { translateOffline } from "./offline";
 
 // Determine API type based on model ID for Zen
 // Reference: https://opencode.ai/docs/zen/
@@ -38,24 +44,28 @@ function getZenApiType(modelId: string): ZenApiType {
 
 const ZEN_BASE_URL = "https://opencode.ai/zen/v1";
 
-function buildSystemPrompt(cwd: string, history: CommandHistory[], shellInfo: ShellInfo, repoContextEnabled?: boolean): string {
+export interface StreamOptions {
+  /** Called with all text received so far, each time a chunk arrives */
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+// Upper bound for translateAlternatives; more than this are rarely distinct
+export const MAX_ALTERNATIVES = 5;
+
+// Upper bound for planTask; longer tasks are easier to follow in several plans
+export const MAX_PLAN_STEPS = 10;
+
+const TRANSLATION_FORMAT = `{"command": "the shell command (may span several lines)", "explanation": "one plain-English sentence on what it does", "assumptions": ["anything you guessed"], "confidence": 0.0-1.0, "requiresInteractive": true | false}`;
+
+function buildSystemPrompt(cwd: string, history: CommandHistory[], shellInfo: ShellInfo, repoContextEnabled?: boolean, alternatives = 1): string {
   const historyContext = formatHistory(history);
   const platformPaths = getPlatformPaths(shellInfo.platform);
   const shellHints = getShellSyntaxHints(shellInfo.shell);
 
-  const platformName = shellInfo.platform === "macos" ? "macOS" : shellInfo.platform === "windows" ? "Windows" : shellInfo.platform === "linux" ? (shellInfo.isWSL ? "Linux (WSL)" : "Linux") : "Unknown";
+  const platformName = getPlatformName(shellInfo);
 
-  // Build project context section if enabled
-  let projectContextSection = "";
-  if (repoContextEnabled) {
-    const repoContext = detectRepoContext(cwd);
-    if (repoContext) {
-      projectContextSection = `
-Project context:
-${formatRepoContext(repoContext)}
-`;
-    }
-  }
+  const projectContextSection = formatProjectContextSection(cwd, repoContextEnabled);
 
   return `You are a shell command translator. Convert the user's natural language request into a shell command.
 
@@ -72,10 +82,8 @@ Recent command history:
 ${historyContext}
 
 Rules:
-- Output ONLY the shell command, nothing else
-- No explanations, no markdown, no backticks, no code blocks
 - Use the correct syntax for the detected shell (${shellInfo.shell})
-- If the request is unclear, make a reasonable assumption
+- If the request is unclear, make a reasonable assumption and list it in "assumptions"
 - Prefer simple, common commands over complex one-liners${
     repoContextEnabled
       ? `
@@ -87,7 +95,221 @@ Rules:
 - For file operations, prefer safer alternatives when possible
 - Always quote paths that might contain spaces
 - Use ${platformPaths.homePlaceholder} for home directory references
-- Use ${platformPaths.nullDevice} for discarding output`;
+- Use ${platformPaths.nullDevice} for discarding output
+- Set "requiresInteractive" when the command needs a terminal: editors, pagers, prompts for input or passwords
+
+${
+    alternatives > 1
+      ? `Give up to ${alternatives} different ways to do this, best first. Prefer different tools or approaches (e.g., find vs fd, grep vs rg) over small flag changes, and only use tools that are likely installed.
+
+Respond with ONLY a JSON object, no markdown:
+{"alternatives": [${TRANSLATION_FORMAT}]}`
+      : `Respond with ONLY a JSON object, no markdown:
+${TRANSLATION_FORMAT}`
+  }`;
+}
+
+const TRANSLATION_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    command: { type: "string" },
+    explanation: { type: "string" },
+    assumptions: { type: "array", items: { type: "string" } },
+    confidence: { type: "number" },
+    requiresInteractive: { type: "boolean" },
+  },
+  required: ["command", "explanation", "assumptions", "confidence", "requiresInteractive"],
+  additionalProperties: false,
+};
+
+const ALTERNATIVES_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    alternatives: { type: "array", items: TRANSLATION_SCHEMA },
+  },
+  required: ["alternatives"],
+  additionalProperties: false,
+};
+
+function formatProjectContextSection(cwd: string, repoContextEnabled?: boolean): string {
+  if (!repoContextEnabled) {
+    return "";
+  }
+  const repoContext = detectRepoContext(cwd);
+  if (!repoContext) {
+    return "";
+  }
+  return `
+Project context:
+${formatRepoContext(repoContext)}
+`;
+}
+
+function getPlatformName(shellInfo: ShellInfo): string {
+  return shellInfo.platform === "macos" ? "macOS" : shellInfo.platform === "windows" ? "Windows" : shellInfo.platform === "linux" ? (shellInfo.isWSL ? "Linux (WSL)" : "Linux") : "Unknown";
+}
+
+function buildReviewPrompt(cwd: string, shellInfo: ShellInfo, repoContextEnabled?: boolean): string {
+  return `You are a shell command safety reviewer. Judge what the command would actually do if run in this environment, and how much damage it could cause.
+
+Current environment:
+- Platform: ${getPlatformName(shellInfo)}
+- Shell: ${shellInfo.shell} (${shellInfo.shellPath})
+- Working directory: ${cwd}
+- Home directory: ${shellInfo.homeDir}
+${formatProjectContextSection(cwd, repoContextEnabled)}
+Risk levels:
+- low: read-only, or a small change that is easy to reverse
+- medium: modifies a limited, expected set of files or settings
+- high: broad or hard-to-reverse changes, or changes outside the working directory
+- critical: could destroy the system, the user's data or remote/production resources
+
+Respond with ONLY a JSON object, no markdown:
+{"risk": "low" | "medium" | "high" | "critical", "affectedResources": ["files, directories, services or hosts the command touches"], "explanation": "one or two plain-English sentences"}`;
+}
+
+function buildExplainPrompt(cwd: string, shellInfo: ShellInfo, repoContextEnabled?: boolean): string {
+  return `You explain shell commands to someone about to run them. Describe what each part would do in this environment, in plain English.
+
+Current environment:
+- Platform: ${getPlatformName(shellInfo)}
+- Shell: ${shellInfo.shell} (${shellInfo.shellPath})
+- Working directory: ${cwd}
+- Home directory: ${shellInfo.homeDir}
+${formatProjectContextSection(cwd, repoContextEnabled)}
+The user sends a command followed by the numbered simple commands it is made of. Explain each one, in the same order, and spell out its flags and arguments. Do not rate safety; that is checked separately.
+
+Respond with ONLY a JSON object, no markdown:
+{"summary": "one or two sentences on what the whole command does", "segments": [{"explanation": "what this part does", "flags": [{"flag": "-r", "meaning": "what it changes"}]}]}`;
+}
+
+const EXPLANATION_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    segments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          explanation: { type: "string" },
+          flags: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { flag: { type: "string" }, meaning: { type: "string" } },
+              required: ["flag", "meaning"],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ["explanation", "flags"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["summary", "segments"],
+  additionalProperties: false,
+};
+
+function buildPlanPrompt(cwd: string, history: CommandHistory[], shellInfo: ShellInfo, repoContextEnabled?: boolean): string {
+  return `You are a shell task planner. Break the user's task into an ordered list of shell commands that are run one at a time.
+
+Current environment:
+- Platform: ${getPlatformName(shellInfo)}
+- Shell: ${shellInfo.shell} (${shellInfo.shellPath})
+- Working directory: ${cwd}
+- Home directory: ${shellInfo.homeDir}
+${formatProjectContextSection(cwd, repoContextEnabled)}
+${getShellSyntaxHints(shellInfo.shell)}
+
+Recent command history:
+${formatHistory(history)}
+
+Rules:
+- Use the correct syntax for the detected shell (${shellInfo.shell})
+- One command per step; do not chain steps together with && or ;
+- Use at most ${MAX_PLAN_STEPS} steps, and a single step if one command is enough
+- Each step runs in a new shell, so environment changes such as activating a virtualenv do not carry over; call tools by path instead (e.g., .venv/bin/pip). A step that is only "cd <dir>" does change the directory for later steps
+- Set "usesPreviousOutput" when a command cannot be written until an earlier step's output is known; give your best guess and it is rewritten once that output is available
+- Set "requiresInteractive" when the command needs a terminal: editors, pagers, prompts for input or passwords
+- If steps have already run, plan only the remaining steps
+
+Respond with ONLY a JSON object, no markdown:
+{"steps": [{"command": "the shell command", "purpose": "what this step is for", "usesPreviousOutput": true | false, "requiresInteractive": true | false}]}`;
+}
+
+const PLAN_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    steps: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          command: { type: "string" },
+          purpose: { type: "string" },
+          usesPreviousOutput: { type: "boolean" },
+          requiresInteractive: { type: "boolean" },
+        },
+        required: ["command", "purpose", "usesPreviousOutput", "requiresInteractive"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["steps"],
+  additionalProperties: false,
+};
+
+const REVIEW_RISKS: SafetyAnalysis["severity"][] = ["low", "medium", "high", "critical"];
+
+function parseReview(text: string, modelId: string): SafetyReview {
+  // Models sometimes wrap the object in prose or code fences
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  let data: { risk?: unknown; affectedResources?: unknown; explanation?: unknown };
+  try {
+    data = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error("Safety review returned invalid JSON");
+  }
+
+  const risk = typeof data.risk === "string" ? data.risk.toLowerCase() : "";
+  if (!REVIEW_RISKS.includes(risk as SafetyAnalysis["severity"]) || typeof data.explanation !== "string" || !data.explanation.trim()) {
+    throw new Error("Safety review response is missing a risk level or explanation");
+  }
+
+  return {
+    severity: risk as SafetyAnalysis["severity"],
+    affectedResources: Array.isArray(data.affectedResources) ? data.affectedResources.filter((r): r is string => typeof r === "string") : [],
+    explanation: data.explanation.trim(),
+    model: modelId,
+  };
+}
+
+/** Pair the model's per-segment explanations with the parsed segments, by position */
+function parseExplanation(text: string, command: string, analysis: SafetyAnalysis, parts: ReturnType<typeof annotateSegments>): CommandExplanation {
+  const data = parseJsonObject(text);
+  if (!data || typeof data.summary !== "string") {
+    throw new Error("Explanation returned invalid JSON");
+  }
+
+  const explained = Array.isArray(data.segments) ? data.segments : [];
+  return {
+    command,
+    summary: data.summary.trim(),
+    segments: parts.segments.map((segment, i) => {
+      const entry = explained[i] as { explanation?: unknown; flags?: unknown } | undefined;
+      const flags = Array.isArray(entry?.flags) ? entry.flags : [];
+      return {
+        ...segment,
+        explanation: typeof entry?.explanation === "string" ? entry.explanation.trim() : "",
+        flags: flags.filter((f): f is { flag: string; meaning: string } => typeof f?.flag === "string" && typeof f?.meaning === "string"),
+      };
+    }),
+    findings: parts.rest,
+    safety: analysis,
+  };
 }
 
 function formatHistory(history: CommandHistory[]): string {
@@ -140,8 +362,145 @@ function cleanCommand(command: string): string {
   return cleaned.trim();
 }
 
-// OpenRouter API
-async function callOpenRouter(apiKey: string, modelId: string, systemPrompt: string, userInput: string): Promise<string> {
+// Also matches objects preceded by prose, once the command field has started
+function looksLikeJson(text: string): boolean {
+  return /^\s*(```\w*\s*)?\{/.test(text) || /"command"\s*:\s*"/.test(text);
+}
+
+/**
+ * The value of the "command" field in a possibly incomplete JSON object, so
+ * a streamed or truncated response still yields the command written so far.
+ */
+function extractJsonCommand(text: string): string {
+  const match = /"command"\s*:\s*"/.exec(text);
+  if (!match) {
+    return "";
+  }
+
+  let raw = "";
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') break;
+    if (ch === "\\") {
+      // Wait for the rest of a split escape sequence
+      const length = text[i + 1] === "u" ? 6 : 2;
+      if (i + length > text.length) break;
+      raw += text.slice(i, i + length);
+      i += length - 1;
+      continue;
+    }
+    raw += ch;
+  }
+
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+}
+
+function stripCodeFence(command: string): string {
+  return command
+    .trim()
+    .replace(/^```[\w]*\n?/, "")
+    .replace(/\n?```$/, "")
+    .trim();
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | undefined {
+  try {
+    // Models sometimes wrap the object in prose or code fences
+    const data = JSON.parse(text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1));
+    return data && typeof data === "object" && !Array.isArray(data) ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toTranslation(data: unknown): CommandTranslation | undefined {
+  if (!data || typeof data !== "object") {
+    return undefined;
+  }
+  const { command, explanation, assumptions, confidence, requiresInteractive } = data as Record<string, unknown>;
+  if (typeof command !== "string") {
+    return undefined;
+  }
+
+  const score = typeof confidence === "string" ? parseFloat(confidence) : confidence;
+  return {
+    command: stripCodeFence(command),
+    explanation: typeof explanation === "string" ? explanation.trim() : "",
+    assumptions: Array.isArray(assumptions) ? assumptions.filter((a): a is string => typeof a === "string" && a.trim() !== "") : [],
+    // Some models answer in percent
+    confidence: typeof score === "number" && Number.isFinite(score) ? Math.min(Math.max(score > 1 ? score / 100 : score, 0), 1) : undefined,
+    requiresInteractive: requiresInteractive === true,
+  };
+}
+
+/**
+ * Read a translation from the model's reply. Structured JSON is preferred;
+ * a truncated object still yields its command, and a reply that is not JSON
+ * at all is treated as a bare command.
+ */
+function parseTranslation(text: string): CommandTranslation {
+  const translation = toTranslation(parseJsonObject(text));
+  if (translation) {
+    return translation;
+  }
+
+  const command = looksLikeJson(text) ? stripCodeFence(extractJsonCommand(text)) : cleanCommand(text);
+  return { command, explanation: "", assumptions: [], requiresInteractive: false };
+}
+
+/** Ranked alternatives, without duplicates; falls back to a single translation */
+function parseAlternatives(text: string, count: number): CommandTranslation[] {
+  const data = parseJsonObject(text);
+  const alternatives = Array.isArray(data?.alternatives) ? data.alternatives.map(toTranslation) : [];
+
+  const unique: CommandTranslation[] = [];
+  for (const alternative of alternatives) {
+    if (alternative?.command && !unique.some((u) => u.command === alternative.command)) {
+      unique.push(alternative);
+    }
+  }
+  return unique.length > 0 ? unique.slice(0, count) : [parseTranslation(text)];
+}
+
+/** Plan steps in order; a reply with a single translation becomes a one-step plan */
+function parsePlan(text: string): PlanStep[] {
+  const data = parseJsonObject(text);
+  if (!Array.isArray(data?.steps)) {
+    const { command, explanation, requiresInteractive } = parseTranslation(text);
+    return command ? [{ command, purpose: explanation, usesPreviousOutput: false, requiresInteractive }] : [];
+  }
+
+  const steps: PlanStep[] = [];
+  for (const entry of data.steps as Record<string, unknown>[]) {
+    if (typeof entry?.command !== "string" || !entry.command.trim()) continue;
+    steps.push({
+      command: stripCodeFence(entry.command),
+      purpose: typeof entry.purpose === "string" ? entry.purpose.trim() : "",
+      usesPreviousOutput: entry.usesPreviousOutput === true,
+      requiresInteractive: entry.requiresInteractive === true,
+    });
+  }
+  return steps.slice(0, MAX_PLAN_STEPS);
+}
+
+/** The command as far as it has streamed in, for live display */
+function partialCommand(text: string): string {
+  return looksLikeJson(text) ? extractJsonCommand(text) : cleanCommand(text);
+}
+
+// A reply's text, with the token counts when the provider reports them
+interface ModelOutput {
+  text: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// OpenRouter API (server-sent events)
+async function callOpenRouter(apiKey: string, modelId: string, systemPrompt: string, userInput: string, stream: StreamOptions = {}, schema?: JSONSchema7): Promise<ModelOutput> {
   const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
     method: "POST",
     headers: {
@@ -156,9 +515,15 @@ async function callOpenRouter(apiKey: string, modelId: string, systemPrompt: str
         { role: "system", content: systemPrompt },
         { role: "user", content: userInput },
       ],
-      max_tokens: 500,
+      max_tokens: 1000,
       temperature: 0.1,
+      stream: true,
+      // Token counts arrive in the final chunk
+      usage: { include: true },
+      // Models without structured output support ignore this and follow the prompt
+      ...(schema && { response_format: { type: "json_schema", json_schema: { name: "response", strict: true, schema } } }),
     }),
+    signal: stream.signal,
   });
 
   if (!response.ok) {
@@ -170,34 +535,104 @@ async function callOpenRouter(apiKey: string, modelId: string, systemPrompt: str
         errorMessage = errorData.error.message;
       }
     } catch {}
-    throw new Error(errorMessage);
+    // Same error type as the AI SDK providers, so requestModel can tell what is worth retrying
+    throw new APICallError({
+      message: errorMessage,
+      url: response.url,
+      requestBodyValues: { model: modelId },
+      statusCode: response.status,
+      responseHeaders: Object.fromEntries(response.headers),
+      responseBody: errorText,
+    });
   }
 
-  const data = await response.json();
-  if (data.error) {
-    throw new Error(data.error.message);
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("OpenRouter returned an empty response");
   }
 
-  return data.choices[0]?.message?.content?.trim() || "";
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      // Skip keep-alive comments like ": OPENROUTER PROCESSING"
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") {
+        return { text: text.trim(), inputTokens: usage?.prompt_tokens, outputTokens: usage?.completion_tokens };
+      }
+
+      let data;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+      if (data.error) {
+        throw new Error(data.error.message);
+      }
+      if (data.usage) {
+        usage = data.usage;
+      }
+      const delta = data.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        stream.onText?.(text);
+      }
+    }
+  }
+
+  return { text: text.trim(), inputTokens: usage?.prompt_tokens, outputTokens: usage?.completion_tokens };
 }
 
 // Debug flag - set to true to see API responses
 const DEBUG_API = process.env.DEBUG_API === "1";
 
-async function generateZenText(model: LanguageModel, systemPrompt: string, userInput: string): Promise<string> {
-  const { text } = await generateText({
+async function streamZenText(model: LanguageModel, systemPrompt: string, userInput: string, stream: StreamOptions = {}, schema?: JSONSchema7): Promise<ModelOutput> {
+  const result = streamText({
     model,
     system: systemPrompt,
     prompt: userInput,
-    maxOutputTokens: 500,
+    maxOutputTokens: 1000,
     temperature: 0.1,
+    // The JSON still arrives as text deltas (Anthropic's json tool included); it is parsed by the caller
+    output: schema ? Output.object({ schema: jsonSchema(schema) }) : undefined,
+    abortSignal: stream.signal,
+    // requestModel retries and falls back across providers itself
+    maxRetries: 0,
+    // The default handler prints to the console; errors are rethrown from the stream below
+    onError: () => {},
   });
 
-  return text.trim();
+  // streamText reports failures as stream parts instead of throwing
+  let text = "";
+  let usage: LanguageModelUsage | undefined;
+  for await (const part of result.fullStream) {
+    if (part.type === "text-delta") {
+      text += part.text;
+      stream.onText?.(text);
+    } else if (part.type === "finish") {
+      usage = part.totalUsage;
+    } else if (part.type === "error") {
+      throw part.error instanceof Error ? part.error : new Error(String(part.error));
+    } else if (part.type === "abort") {
+      throw new Error("Request aborted");
+    }
+  }
+
+  return { text: text.trim(), inputTokens: usage?.inputTokens, outputTokens: usage?.outputTokens };
 }
 
 // OpenCode Zen - OpenAI Responses API
-async function callZenOpenAIResponses(apiKey: string, modelId: string, systemPrompt: string, userInput: string): Promise<string> {
+async function callZenOpenAIResponses(apiKey: string, modelId: string, systemPrompt: string, userInput: string, stream?: StreamOptions, schema?: JSONSchema7): Promise<ModelOutput> {
   if (DEBUG_API) {
     console.error(`[DEBUG] Calling OpenAI Responses API`);
     console.error(`[DEBUG] Model: ${modelId}`);
@@ -209,18 +644,18 @@ async function callZenOpenAIResponses(apiKey: string, modelId: string, systemPro
   });
 
   try {
-    return await generateZenText(openai(modelId), systemPrompt, userInput);
+    return await streamZenText(openai(modelId), systemPrompt, userInput, stream, schema);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     if (DEBUG_API) {
       console.error(`[DEBUG] OpenAI Responses API Error: ${message}`);
     }
-    throw new Error(message);
+    throw error;
   }
 }
 
 // OpenCode Zen - Anthropic Messages API
-async function callZenAnthropic(apiKey: string, modelId: string, systemPrompt: string, userInput: string): Promise<string> {
+async function callZenAnthropic(apiKey: string, modelId: string, systemPrompt: string, userInput: string, stream?: StreamOptions, schema?: JSONSchema7): Promise<ModelOutput> {
   if (DEBUG_API) {
     console.error(`[DEBUG] Calling Anthropic Messages API`);
     console.error(`[DEBUG] Model: ${modelId}`);
@@ -232,18 +667,18 @@ async function callZenAnthropic(apiKey: string, modelId: string, systemPrompt: s
   });
 
   try {
-    return await generateZenText(anthropic(modelId), systemPrompt, userInput);
+    return await streamZenText(anthropic(modelId), systemPrompt, userInput, stream, schema);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     if (DEBUG_API) {
       console.error(`[DEBUG] Anthropic Messages API Error: ${message}`);
     }
-    throw new Error(message);
+    throw error;
   }
 }
 
 // OpenCode Zen - OpenAI-compatible Chat Completions
-async function callZenOpenAICompatible(apiKey: string, modelId: string, systemPrompt: string, userInput: string): Promise<string> {
+async function callZenOpenAICompatible(apiKey: string, modelId: string, systemPrompt: string, userInput: string, stream?: StreamOptions): Promise<ModelOutput> {
   if (DEBUG_API) {
     console.error(`[DEBUG] Calling OpenAI-compatible Chat Completions API`);
     console.error(`[DEBUG] Model: ${modelId}`);
@@ -252,21 +687,22 @@ async function callZenOpenAICompatible(apiKey: string, modelId: string, systemPr
     name: "opencode-zen",
     apiKey,
     baseURL: ZEN_BASE_URL,
+    includeUsage: true,
   });
 
   try {
-    return await generateZenText(openaiCompatible(modelId), systemPrompt, userInput);
+    return await streamZenText(openaiCompatible(modelId), systemPrompt, userInput, stream);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     if (DEBUG_API) {
       console.error(`[DEBUG] OpenAI-compatible API Error: ${message}`);
     }
-    throw new Error(message);
+    throw error;
   }
 }
 
 // Custom model (LM Studio, Ollama, etc.)
-async function callCustomModel(model: CustomModel, systemPrompt: string, userInput: string): Promise<string> {
+async function callCustomModel(model: CustomModel, systemPrompt: string, userInput: string, stream?: StreamOptions): Promise<ModelOutput> {
   if (DEBUG_API) {
     console.error(`[DEBUG] Calling Custom Model`);
     console.error(`[DEBUG] Model: ${model.modelId}`);
@@ -276,22 +712,23 @@ async function callCustomModel(model: CustomModel, systemPrompt: string, userInp
     name: "custom",
     apiKey: model.apiKey || "not-needed",
     baseURL: model.baseUrl,
+    includeUsage: true,
   });
 
   try {
-    return await generateZenText(openaiCompatible(model.modelId), systemPrompt, userInput);
+    return await streamZenText(openaiCompatible(model.modelId), systemPrompt, userInput, stream);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     if (DEBUG_API) {
       console.error(`[DEBUG] Custom Model Error: ${message}`);
     }
-    throw new Error(message);
+    throw error;
   }
 }
 
 // OpenCode Zen - Google (Gemini)
 // Gemini uses the generateContent endpoint format
-async function callZenGoogle(apiKey: string, modelId: string, systemPrompt: string, userInput: string): Promise<string> {
+async function callZenGoogle(apiKey: string, modelId: string, systemPrompt: string, userInput: string, stream?: StreamOptions, schema?: JSONSchema7): Promise<ModelOutput> {
   if (DEBUG_API) {
     console.error(`[DEBUG] Calling Google Gemini API`);
     console.error(`[DEBUG] Model: ${modelId}`);
@@ -302,13 +739,38 @@ async function callZenGoogle(apiKey: string, modelId: string, systemPrompt: stri
   });
 
   try {
-    return await generateZenText(google(modelId), systemPrompt, userInput);
+    return await streamZenText(google(modelId), systemPrompt, userInput, stream, schema);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     if (DEBUG_API) {
       console.error(`[DEBUG] Google Gemini API Error: ${message}`);
     }
-    throw new Error(message);
+    throw error;
+  }
+}
+
+// Anthropic, OpenAI or Google at the vendor's own API, with the vendor's key
+async function callDirect(apiKey: string, model: Model, systemPrompt: string, userInput: string, stream?: StreamOptions, schema?: JSONSchema7): Promise<ModelOutput> {
+  const modelId = model.modelId ?? model.id;
+  if (DEBUG_API) {
+    console.error(`[DEBUG] Calling ${model.provider} API directly`);
+    console.error(`[DEBUG] Model: ${modelId}`);
+  }
+  const languageModel =
+    model.provider === "anthropic"
+      ? createAnthropic({ apiKey })(modelId)
+      : model.provider === "openai"
+        ? createOpenAI({ apiKey })(modelId)
+        : createGoogleGenerativeAI({ apiKey })(modelId);
+
+  try {
+    return await streamZenText(languageModel, systemPrompt, userInput, stream, schema);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (DEBUG_API) {
+      console.error(`[DEBUG] ${model.provider} API Error: ${message}`);
+    }
+    throw error;
   }
 }
 
@@ -322,38 +784,348 @@ export function getShellInfo(): ShellInfo {
   return cachedShellInfo;
 }
 
-export async function translateToCommand(apiKey: string, model: Model | CustomModel, userInput: string, cwd: string, history: CommandHistory[] = [], repoContextEnabled?: boolean): Promise<string> {
-  const shellInfo = getShellInfo();
-  const systemPrompt = buildSystemPrompt(cwd, history, shellInfo, repoContextEnabled);
-  let rawCommand: string;
-
+/**
+ * Send a prompt to any configured model. `schema` requests structured output
+ * from providers that support it (OpenRouter, the Anthropic, OpenAI and Google
+ * APIs, directly or through Zen); the rest rely on the prompt, so callers must still parse
+ * the reply tolerantly.
+ */
+async function callModel(apiKey: string, model: Model | CustomModel, systemPrompt: string, userInput: string, stream?: StreamOptions, schema?: JSONSchema7): Promise<ModelOutput> {
+  if (isOfflineModel(model)) {
+    throw new Error("The offline translator only turns requests into commands. Choose a model with !model or msh --model for this.");
+  }
   // Handle custom models (LM Studio, Ollama, etc.)
   if (isCustomModel(model)) {
-    rawCommand = await callCustomModel(model, systemPrompt, userInput);
-  } else if (model.provider === "openrouter") {
-    rawCommand = await callOpenRouter(apiKey, model.id, systemPrompt, userInput);
-  } else {
-    // OpenCode Zen - determine API type
-    const apiType = getZenApiType(model.id);
-    switch (apiType) {
-      case "openai-responses":
-        rawCommand = await callZenOpenAIResponses(apiKey, model.id, systemPrompt, userInput);
-        break;
-      case "anthropic":
-        rawCommand = await callZenAnthropic(apiKey, model.id, systemPrompt, userInput);
-        break;
-      case "google":
-        rawCommand = await callZenGoogle(apiKey, model.id, systemPrompt, userInput);
-        break;
-      case "openai-compatible":
-        rawCommand = await callZenOpenAICompatible(apiKey, model.id, systemPrompt, userInput);
-        break;
+    return callCustomModel(model, systemPrompt, userInput, stream);
+  }
+  if (model.provider === "openrouter") {
+    return callOpenRouter(apiKey, model.id, systemPrompt, userInput, stream, schema);
+  }
+  if (isDirectProvider(model.provider)) {
+    return callDirect(apiKey, model, systemPrompt, userInput, stream, schema);
+  }
+
+  // OpenCode Zen - determine API type
+  const apiType = getZenApiType(model.id);
+  switch (apiType) {
+    case "openai-responses":
+      return callZenOpenAIResponses(apiKey, model.id, systemPrompt, userInput, stream, schema);
+    case "anthropic":
+      return callZenAnthropic(apiKey, model.id, systemPrompt, userInput, stream, schema);
+    case "google":
+      return callZenGoogle(apiKey, model.id, systemPrompt, userInput, stream, schema);
+    case "openai-compatible":
+      return callZenOpenAICompatible(apiKey, model.id, systemPrompt, userInput, stream);
+  }
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 60000;
+const RETRY_BASE_DELAY_MS = 500;
+// Longer Retry-After waits move on to the next fallback sooner
+const MAX_RETRY_DELAY_MS = 10000;
+
+// No candidate got a response from its provider: network errors, timeouts, or skipped by a blocking budget
+class UnreachableError extends Error {}
+
+interface ModelReply {
+  text: string;
+  model: Model | CustomModel;
+  // The requested model, when a fallback answered instead
+  fallbackFrom?: Model | CustomModel;
+  usage?: TokenUsage;
+}
+
+// The request never got an HTTP response
+function isConnectionFailure(error: unknown): boolean {
+  return error instanceof TypeError || (APICallError.isInstance(error) && error.statusCode === undefined);
+}
+
+// Rate limits, server errors and dropped connections; bad requests and auth failures are not retried
+function isRetryable(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable;
+  }
+  // fetch reports connection failures as TypeErrors
+  return error instanceof TypeError;
+}
+
+function retryDelay(error: unknown, attempt: number): number {
+  const retryAfter = APICallError.isInstance(error) ? Number(error.responseHeaders?.["retry-after"]) : NaN;
+  return Math.min(Number.isFinite(retryAfter) ? retryAfter * 1000 : RETRY_BASE_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new Error("Request aborted"));
+      },
+      { once: true },
+    );
+  });
+}
+
+// Fallback ids that do not resolve, or whose provider has no API key, are skipped
+async function resolveFallbacks(ids: string[]): Promise<{ model: Model | CustomModel; apiKey: string }[]> {
+  const fallbacks: { model: Model | CustomModel; apiKey: string }[] = [];
+  for (const id of ids) {
+    const model = (await getCustomModel(id)) ?? findModel(id);
+    if (!model || (!isCustomModel(model) && model.disabled)) continue;
+    const apiKey = isCustomModel(model) ? "" : await getApiKey(model.provider);
+    if (isCustomModel(model) || apiKey) {
+      fallbacks.push({ model, apiKey });
+    }
+  }
+  return fallbacks;
+}
+
+/**
+ * callModel with a timeout per attempt, exponential-backoff retries on
+ * retryable failures, and then each of `fallbackModels` in turn. Only a
+ * cancelled request stops the chain early. Reported token usage is priced and
+ * recorded; once a budget with `action: "block"` is spent, paid models are
+ * skipped.
+ */
+async function requestModel(apiKey: string, model: Model | CustomModel, systemPrompt: string, userInput: string, stream: StreamOptions = {}, schema?: JSONSchema7): Promise<ModelReply> {
+  const { fallbackModels = [], retry = {}, budget } = loadConfig();
+  const maxRetries = retry.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const timeoutMs = retry.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const candidates = [{ model, apiKey }, ...(await resolveFallbacks(fallbackModels.filter((id) => id !== model.id)))];
+  const failures: string[] = [];
+  let lastError: unknown;
+  let reached = false;
+  const budgetStatus = checkBudget(budget);
+
+  for (const candidate of candidates) {
+    if (budgetStatus?.blocked && isPaid(candidate.model)) {
+      lastError = new Error(`${describeBudget(budgetStatus)}. Raise the limit in config.json or use a free model.`);
+      failures.push(`${candidate.model.name}: ${describeBudget(budgetStatus)}`);
+      continue;
+    }
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const timeout = AbortSignal.timeout(timeoutMs);
+      const signal = stream.signal ? AbortSignal.any([stream.signal, timeout]) : timeout;
+      try {
+        const output = await callModel(candidate.apiKey, candidate.model, systemPrompt, userInput, { ...stream, signal }, schema);
+        let usage: TokenUsage | undefined;
+        if (output.inputTokens !== undefined || output.outputTokens !== undefined) {
+          usage = priceUsage(candidate.model, output.inputTokens ?? 0, output.outputTokens ?? 0);
+          recordUsage(candidate.model, usage);
+        }
+        return { text: output.text, model: candidate.model, fallbackFrom: candidate.model === model ? undefined : model, usage };
+      } catch (error) {
+        if (stream.signal?.aborted) throw error;
+        lastError = timeout.aborted ? new Error(`Timed out after ${timeoutMs / 1000}s`) : error;
+        reached ||= !timeout.aborted && !isConnectionFailure(error);
+        if (!timeout.aborted && !isRetryable(error)) break;
+        if (attempt < maxRetries) {
+          await sleep(retryDelay(error, attempt), stream.signal);
+        }
+      }
     }
+    failures.push(`${candidate.model.name}: ${lastError instanceof Error ? lastError.message : String(lastError)}`);
   }
 
-  const cleaned = cleanCommand(rawCommand);
-  if (!cleaned) {
+  const message = candidates.length === 1 ? (lastError instanceof Error ? lastError.message : String(lastError)) : `No model answered. ${failures.join("; ")}`;
+  if (!reached) {
+    throw new UnreachableError(message);
+  }
+  if (candidates.length === 1) {
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  }
+  throw new Error(message);
+}
+
+// Which model answered and what it cost, for display and history
+function answeredBy(reply: ModelReply): Pick<CommandTranslation, "model" | "provider" | "fallbackFrom" | "usage"> {
+  const provider: Provider = isCustomModel(reply.model) ? "custom" : reply.model.provider;
+  return { model: reply.model.id, provider, fallbackFrom: reply.fallbackFrom?.id, usage: reply.usage };
+}
+
+/**
+ * Translate a request into a shell command with the model's explanation,
+ * assumptions and confidence. Pass `stream` to receive the partial command as
+ * tokens arrive and to cancel with an AbortSignal.
+ */
+export async function translateToCommand(apiKey: string, model: Model | CustomModel, userInput: string, cwd: string, history: CommandHistory[] = [], repoContextEnabled?: boolean, stream?: StreamOptions): Promise<CommandTranslation> {
+  const [translation] = await translateAlternatives(apiKey, model, userInput, cwd, history, repoContextEnabled, 1, stream);
+  return translation;
+}
+
+/**
+ * Ask for up to `count` (at most MAX_ALTERNATIVES) different commands for the
+ * same request, best first. The model may return fewer; there is always at
+ * least one. `stream` reports the first command as it arrives.
+ *
+ * With `useCache`, a request seen before in the same context is answered from
+ * the on-disk cache (marked `cached`), and new answers are stored unless one
+ * of them is rated critical.
+ */
+export async function translateAlternatives(apiKey: string, model: Model | CustomModel, userInput: string, cwd: string, history: CommandHistory[], repoContextEnabled: boolean | undefined, count: number, stream?: StreamOptions, useCache = false): Promise<CommandTranslation[]> {
+  const limit = Math.min(Math.max(Math.floor(count), 1), MAX_ALTERNATIVES);
+  const shellInfo = getShellInfo();
+  if (isOfflineModel(model)) {
+    const translation = translateOffline(userInput, shellInfo);
+    if (!translation) {
+      throw new Error("The offline translator has no rule for this request. It covers listing files, disk usage, ports, processes, git status and log, finding and searching files, and archives.");
+    }
+    return [{ ...translation, model: OFFLINE_MODEL.id, provider: "offline" }];
+  }
+
+  const config = loadConfig();
+  const cacheKey = useCache && config.cache?.enabled !== false && !isFollowUpRequest(userInput) ? getCacheKey(userInput, model, shellInfo, cwd, repoContextEnabled, limit) : undefined;
+  const cached = cacheKey ? getCachedTranslations(cacheKey, config.cache) : undefined;
+  if (cached) {
+    return cached.map((translation) => ({ ...translation, cached: true }));
+  }
+
+  const systemPrompt = buildSystemPrompt(cwd, history, shellInfo, repoContextEnabled, limit);
+  let reply: ModelReply;
+  try {
+    reply = await requestModel(apiKey, model, systemPrompt, userInput, stream && { signal: stream.signal, onText: (text) => stream.onText?.(partialCommand(text)) }, limit > 1 ? ALTERNATIVES_SCHEMA : TRANSLATION_SCHEMA);
+  } catch (error) {
+    // Without a network, the built-in rules still cover common requests
+    const offline = error instanceof UnreachableError ? translateOffline(userInput, shellInfo) : undefined;
+    if (!offline) throw error;
+    return [{ ...offline, model: OFFLINE_MODEL.id, provider: "offline", fallbackFrom: model.id }];
+  }
+
+  const translations = (limit > 1 ? parseAlternatives(reply.text, limit) : [parseTranslation(reply.text)]).filter((t) => t.command);
+  if (translations.length === 0) {
     throw new Error("Model returned an empty command. Try another model or rephrase your request.");
   }
-  return cleaned;
+
+  // Usage and fallback notes describe this request only, so they are not cached
+  const { model: answeredModel, provider } = answeredBy(reply);
+  if (cacheKey && !translations.some((t) => analyzeCommand(t.command, config, { shell: shellInfo.shell, platform: shellInfo.platform, cwd }).severity === "critical")) {
+    cacheTranslations(cacheKey, translations.map((translation) => ({ ...translation, model: answeredModel, provider })), config.cache);
+  }
+  return translations.map((translation) => ({ ...translation, ...answeredBy(reply) }));
+}
+
+/**
+ * Ask a model for a second opinion on a command the rules rated medium or
+ * above. Uses `reviewModel` when set, otherwise the translation model. The
+ * review is merged with applyReview, so it can raise the severity but never
+ * lower it.
+ */
+export async function reviewSafety(command: string, analysis: SafetyAnalysis, config: Config, model: Model | CustomModel, cwd: string): Promise<SafetyAnalysis> {
+  if (!config.safetyReview || analysis.severity === "low") {
+    return analysis;
+  }
+
+  let reviewer = model;
+  if (config.reviewModel) {
+    const configured = (await getCustomModel(config.reviewModel)) ?? findModel(config.reviewModel);
+    if (!configured) {
+      throw new Error(`Unknown review model: ${config.reviewModel}`);
+    }
+    reviewer = configured;
+  }
+  // The rules already rated the command; the offline translator has nothing to add
+  if (isOfflineModel(reviewer)) {
+    return analysis;
+  }
+
+  const apiKey = isCustomModel(reviewer) ? "" : await getApiKey(reviewer.provider);
+  if (!isCustomModel(reviewer) && !apiKey) {
+    throw new Error(`No API key configured for ${reviewer.provider}`);
+  }
+
+  const findings = analysis.findings.map((f) => `- [${f.severity}] ${f.description} in ${f.segment}`).join("\n");
+  const userInput = `Command: ${command}\n\nRule-based findings:\n${findings || "- none"}`;
+  const { text, model: answered } = await requestModel(apiKey, reviewer, buildReviewPrompt(cwd, getShellInfo(), config.repoContext), userInput);
+  return applyReview(analysis, parseReview(text, answered.id), config, command);
+}
+
+// How much of a command's output is sent back to the model
+const OUTPUT_TAIL_LINES = 20;
+const OUTPUT_TAIL_CHARS = 2000;
+
+function tailOutput(output: string): string {
+  return output.trim().split("\n").slice(-OUTPUT_TAIL_LINES).join("\n").slice(-OUTPUT_TAIL_CHARS);
+}
+
+/**
+ * Ask for a corrected command after a failure. This goes through the normal
+ * translation prompt, with the original request, the failed command, its exit
+ * code and the tail of its error output as the user's message.
+ */
+export async function suggestFix(apiKey: string, model: Model | CustomModel, failure: CommandFailure, cwd: string, history: CommandHistory[] = [], repoContextEnabled?: boolean, stream?: StreamOptions): Promise<CommandTranslation> {
+  const stderr = tailOutput(failure.stderr);
+  const request = `${failure.input}
+
+This command was run for the request above and failed with exit code ${failure.exitCode}:
+${failure.command}
+
+Error output (last lines):
+${stderr || "(none)"}
+
+Give a corrected command that does what the request asked. Do not repeat the failed command unchanged.`;
+  return translateToCommand(apiKey, model, request, cwd, history, repoContextEnabled, stream);
+}
+
+function formatOutcomes(outcomes: PlanStepOutcome[]): string {
+  return outcomes
+    .map((outcome, i) => {
+      const status = outcome.exitCode === undefined ? "skipped" : outcome.exitCode === 0 ? "succeeded" : `failed with exit code ${outcome.exitCode}`;
+      const output = outcome.exitCode === undefined ? "" : tailOutput(outcome.output);
+      return `${i + 1}. ${outcome.purpose || "Step"}: ${status}\n$ ${outcome.command}${output ? `\n${output}` : ""}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Break a task into steps that are checked and run one at a time. With
+ * `outcomes`, the steps already run (including one that failed) are sent
+ * along and only the remaining steps are planned.
+ */
+export async function planTask(apiKey: string, model: Model | CustomModel, task: string, cwd: string, history: CommandHistory[] = [], repoContextEnabled?: boolean, outcomes: PlanStepOutcome[] = [], signal?: AbortSignal): Promise<PlanStep[]> {
+  const userInput = outcomes.length > 0 ? `${task}\n\nSteps run so far:\n${formatOutcomes(outcomes)}\n\nPlan the remaining steps to finish the task.` : task;
+  const { text } = await requestModel(apiKey, model, buildPlanPrompt(cwd, history, getShellInfo(), repoContextEnabled), userInput, { signal }, PLAN_SCHEMA);
+
+  const steps = parsePlan(text);
+  if (steps.length === 0) {
+    throw new Error("Model returned an empty plan. Try another model or rephrase your task.");
+  }
+  return steps;
+}
+
+/**
+ * Rewrite a plan step that depends on earlier output, now that the output is
+ * known. Goes through the normal translation prompt, like suggestFix.
+ */
+export async function resolvePlanStep(apiKey: string, model: Model | CustomModel, task: string, step: PlanStep, outcomes: PlanStepOutcome[], cwd: string, history: CommandHistory[] = [], repoContextEnabled?: boolean, stream?: StreamOptions): Promise<CommandTranslation> {
+  const request = `${task}
+
+This is one step of a plan for the task above: ${step.purpose || "the next step"}
+Draft command: ${step.command}
+
+Steps run so far:
+${formatOutcomes(outcomes)}
+
+Give the command for this step only, using the output above.`;
+  return translateToCommand(apiKey, model, request, cwd, history, repoContextEnabled, stream);
+}
+
+/**
+ * Explain a command part by part before it runs. The command is split with
+ * the same parser the safety rules use, so each explained segment carries the
+ * findings from `analysis` that concern it.
+ */
+export async function explainCommand(apiKey: string, model: Model | CustomModel, command: string, analysis: SafetyAnalysis, cwd: string, repoContextEnabled?: boolean): Promise<CommandExplanation> {
+  const shellInfo = getShellInfo();
+  const parts = annotateSegments(command, analysis, shellInfo);
+  if (parts.segments.length === 0) {
+    throw new Error("Nothing to explain");
+  }
+
+  const userInput = `Command: ${command}\n\nParts:\n${parts.segments.map((s, i) => `${i + 1}. ${s.text}`).join("\n")}`;
+  const { text } = await requestModel(apiKey, model, buildExplainPrompt(cwd, shellInfo, repoContextEnabled), userInput, undefined, EXPLANATION_SCHEMA);
+  return parseExplanation(text, command, analysis, parts);
 }
@@ -0,0 +1,128 @@
+import { homedir } from "os";
+import { join } from "path";
+import { randomUUID } from "crypto";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import type { ApprovalScope, CommandApproval } from "./types";
+
+const CONFIG_DIR = join(homedir(), ".magic-shell");
+const APPROVALS_FILE = join(CONFIG_DIR, "approvals.json");
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Legacy confirmedDangerousPatterns entries become approvals that last this long
+const LEGACY_APPROVAL_DAYS = 30;
+
+// "session" approvals live only as long as this process
+let sessionApprovals: CommandApproval[] = [];
+
+function ensureConfigDir(): void {
+  if (!existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+}
+
+function isExpired(approval: CommandApproval, now = Date.now()): boolean {
+  return approval.expiresAt !== undefined && approval.expiresAt <= now;
+}
+
+/** Collapse whitespace so trivially different spellings of a command share an approval */
+export function normalizeApprovalMatcher(command: string): string {
+  return command.trim().replace(/\s+/g, " ");
+}
+
+export function loadApprovals(): CommandApproval[] {
+  ensureConfigDir();
+
+  if (!existsSync(APPROVALS_FILE)) {
+    return [];
+  }
+
+  try {
+    const data = readFileSync(APPROVALS_FILE, "utf-8");
+    const approvals = JSON.parse(data) as CommandApproval[];
+    const active = approvals.filter((a) => !isExpired(a));
+    if (active.length !== approvals.length) {
+      saveApprovals(active);
+    }
+    return active;
+  } catch {
+    return [];
+  }
+}
+
+export function saveApprovals(approvals: CommandApproval[]): void {
+  ensureConfigDir();
+  writeFileSync(APPROVALS_FILE, JSON.stringify(approvals, null, 2));
+}
+
+/** Persistent and session approvals that have not expired */
+export function getActiveApprovals(): CommandApproval[] {
+  return [...sessionApprovals, ...loadApprovals()];
+}
+
+export function addApproval(command: string, scope: ApprovalScope, options: { cwd: string; days?: number }): CommandApproval {
+  const approval: CommandApproval = {
+    id: randomUUID(),
+    matcher: normalizeApprovalMatcher(command),
+    scope,
+    createdAt: Date.now(),
+  };
+
+  if (scope === "directory") {
+    approval.cwd = options.cwd;
+  } else if (scope === "days") {
+    approval.expiresAt = approval.createdAt + Math.max(1, options.days ?? 1) * DAY_MS;
+  }
+
+  if (scope === "session") {
+    sessionApprovals.push(approval);
+  } else {
+    const approvals = loadApprovals();
+    approvals.push(approval);
+    saveApprovals(approvals);
+  }
+  return approval;
+}
+
+/**
+ * Turn legacy `confirmedDangerousPatterns` entries into expiring approvals.
+ * Those entries suppressed confirmation for any command containing them, with
+ * no scope or expiry; as approvals they only cover that exact command.
+ */
+export function migrateLegacyPatterns(patterns: string[], cwd: string): CommandApproval[] {
+  return patterns.filter((p) => p.trim()).map((pattern) => addApproval(pattern, "days", { cwd, days: LEGACY_APPROVAL_DAYS }));
+}
+
+export function revokeApproval(id: string): boolean {
+  const sessionCount = sessionApprovals.length;
+  sessionApprovals = sessionApprovals.filter((a) => a.id !== id);
+  if (sessionApprovals.length !== sessionCount) {
+    return true;
+  }
+
+  const approvals = loadApprovals();
+  const remaining = approvals.filter((a) => a.id !== id);
+  if (remaining.length === approvals.length) {
+    return false;
+  }
+  saveApprovals(remaining);
+  return true;
+}
+
+/** Find an approval covering this command when run from cwd */
+export function findApproval(command: string, cwd: string, approvals: CommandApproval[]): CommandApproval | undefined {
+  const matcher = normalizeApprovalMatcher(command);
+  const now = Date.now();
+  return approvals.find((a) => a.matcher === matcher && !isExpired(a, now) && (a.cwd === undefined || a.cwd === cwd));
+}
+
+export function describeApproval(approval: CommandApproval): string {
+  switch (approval.scope) {
+    case "session":
+      return "this session";
+    case "directory":
+      return `in ${approval.cwd}`;
+    case "days": {
+      const expires = approval.expiresAt ? new Date(approval.expiresAt).toLocaleString() : "never";
+      return `until ${expires}`;
+    }
+  }
+}
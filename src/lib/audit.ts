@@ -0,0 +1,125 @@
+import { homedir } from "os";
+import { join } from "path";
+import { createHash } from "crypto";
+import { existsSync, readFileSync, appendFileSync, mkdirSync } from "fs";
+import type { AuditDecision, AuditRecord, SafetyAnalysis } from "./types";
+
+const CONFIG_DIR = join(homedir(), ".magic-shell");
+const AUDIT_FILE = join(CONFIG_DIR, "audit.jsonl");
+const GENESIS_HASH = "0".repeat(64);
+
+const SEVERITY_RANK: Record<SafetyAnalysis["severity"], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+function ensureConfigDir(): void {
+  if (!existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+}
+
+function hashRecord(record: Omit<AuditRecord, "hash">): string {
+  return createHash("sha256").update(JSON.stringify(record)).digest("hex");
+}
+
+function readLines(): string[] {
+  if (!existsSync(AUDIT_FILE)) {
+    return [];
+  }
+  return readFileSync(AUDIT_FILE, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim());
+}
+
+/** How a command got to run; `confirmed` only when the user was actually asked and said yes */
+export function getAuditDecision(safety: SafetyAnalysis, confirmed: boolean): AuditDecision {
+  if (confirmed) return "confirmed";
+  return safety.approval ? "approved" : "auto";
+}
+
+export function getAuditFilePath(): string {
+  return AUDIT_FILE;
+}
+
+/**
+ * Append an execution record. Each record stores the hash of the previous one,
+ * so editing or deleting any line breaks the chain for every record after it.
+ */
+export function appendAuditRecord(entry: Omit<AuditRecord, "timestamp" | "prevHash" | "hash">): AuditRecord {
+  ensureConfigDir();
+
+  const lines = readLines();
+  let prevHash = GENESIS_HASH;
+  if (lines.length > 0) {
+    try {
+      prevHash = (JSON.parse(lines[lines.length - 1]) as AuditRecord).hash;
+    } catch {
+      // A corrupt tail is still chained to, and will fail verification
+      prevHash = createHash("sha256").update(lines[lines.length - 1]).digest("hex");
+    }
+  }
+
+  const unsigned: Omit<AuditRecord, "hash"> = { timestamp: Date.now(), ...entry, prevHash };
+  const record: AuditRecord = { ...unsigned, hash: hashRecord(unsigned) };
+  appendFileSync(AUDIT_FILE, JSON.stringify(record) + "\n");
+  return record;
+}
+
+export function loadAuditLog(): AuditRecord[] {
+  const records: AuditRecord[] = [];
+  for (const line of readLines()) {
+    try {
+      records.push(JSON.parse(line) as AuditRecord);
+    } catch {
+      // Skip unreadable lines; verifyAuditLog reports them
+    }
+  }
+  return records;
+}
+
+export interface AuditQuery {
+  since?: number;
+  until?: number;
+  minSeverity?: SafetyAnalysis["severity"];
+}
+
+export function queryAuditLog(query: AuditQuery): AuditRecord[] {
+  return loadAuditLog().filter((record) => {
+    if (query.since !== undefined && record.timestamp < query.since) return false;
+    if (query.until !== undefined && record.timestamp > query.until) return false;
+    if (query.minSeverity && SEVERITY_RANK[record.safety.severity] < SEVERITY_RANK[query.minSeverity]) return false;
+    return true;
+  });
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  records: number;
+  // 1-based line number of the first record that fails verification
+  brokenAt?: number;
+  error?: string;
+}
+
+export function verifyAuditLog(): AuditVerification {
+  const lines = readLines();
+  let prevHash = GENESIS_HASH;
+
+  for (let i = 0; i < lines.length; i++) {
+    let record: AuditRecord;
+    try {
+      record = JSON.parse(lines[i]) as AuditRecord;
+    } catch {
+      return { valid: false, records: lines.length, brokenAt: i + 1, error: "Line is not valid JSON" };
+    }
+
+    if (record.prevHash !== prevHash) {
+      return { valid: false, records: lines.length, brokenAt: i + 1, error: "Previous-hash link does not match (record removed or reordered)" };
+    }
+
+    const { hash, ...unsigned } = record;
+    if (hashRecord(unsigned) !== hash) {
+      return { valid: false, records: lines.length, brokenAt: i + 1, error: "Record contents do not match its hash (record modified)" };
+    }
+    prevHash = hash;
+  }
+
+  return { valid: true, records: lines.length };
+}
@@ -0,0 +1,102 @@
+import { homedir } from "os";
+import { dirname, join, sep } from "path";
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync, mkdirSync, rmSync } from "fs";
+import type { CacheSettings, CommandTranslation, CustomModel, Model, TranslationCacheEntry } from "./types";
+import type { ShellInfo } from "./shell";
+import { detectRepoContext, formatRepoContext } from "./repo-context";
+
+const CONFIG_DIR = join(homedir(), ".magic-shell");
+const CACHE_FILE = join(CONFIG_DIR, "cache.json");
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+const DEFAULT_MAX_ENTRIES = 500;
+
+function ensureConfigDir(): void {
+  if (!existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+}
+
+function loadEntries(): TranslationCacheEntry[] {
+  if (!existsSync(CACHE_FILE)) {
+    return [];
+  }
+  try {
+    return JSON.parse(readFileSync(CACHE_FILE, "utf-8")) as TranslationCacheEntry[];
+  } catch {
+    return [];
+  }
+}
+
+function saveEntries(entries: TranslationCacheEntry[]): void {
+  ensureConfigDir();
+  writeFileSync(CACHE_FILE, JSON.stringify(entries, null, 2));
+}
+
+// "Show disk usage?" and "show  disk usage" are the same request
+function normalizeInput(input: string): string {
+  return input.trim().toLowerCase().replace(/\s+/g, " ").replace(/[.?!]+$/, "");
+}
+
+// "Do that again", "delete the file I just created": the answer depends on the recent commands
+const FOLLOW_UP_PATTERN = /\b(again|it|those|same|last|previous|just|undo|redo|do that|that (one|file|folder|directory|command|process))\b/i;
+
+/**
+ * Whether a request refers back to earlier commands. The history is not part
+ * of the cache key (it changes after every command), so these requests skip
+ * the cache instead.
+ */
+export function isFollowUpRequest(input: string): boolean {
+  return FOLLOW_UP_PATTERN.test(input);
+}
+
+/**
+ * What kind of directory the request was made in. Translations rarely depend
+ * on the exact path, so requests from any git checkout share entries, as do
+ * requests from anywhere else under the home directory.
+ */
+function classifyCwd(cwd: string, home: string): string {
+  if (cwd === home) return "home";
+  for (let dir = cwd; ; dir = dirname(dir)) {
+    if (existsSync(join(dir, ".git"))) return "repo";
+    if (dirname(dir) === dir) break;
+  }
+  return cwd.startsWith(home + sep) ? "home-subdir" : "system";
+}
+
+/**
+ * Cache key for a translation request: the normalized input, the model, the
+ * shell and platform, the class of working directory and, with repo context
+ * on, a fingerprint of the detected project (so new npm scripts miss).
+ */
+export function getCacheKey(input: string, model: Model | CustomModel, shellInfo: ShellInfo, cwd: string, repoContextEnabled: boolean | undefined, count: number): string {
+  const repoContext = repoContextEnabled ? detectRepoContext(cwd) : null;
+  const parts = [normalizeInput(input), model.id, shellInfo.shell, shellInfo.platform, classifyCwd(cwd, shellInfo.homeDir), repoContext ? formatRepoContext(repoContext) : "", count];
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+/** Translations stored under `key`, unless they are older than the TTL */
+export function getCachedTranslations(key: string, settings: CacheSettings = {}): CommandTranslation[] | undefined {
+  const ttl = (settings.ttlHours ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+  const entry = loadEntries().find((e) => e.key === key);
+  if (!entry || Date.now() - entry.timestamp > ttl) {
+    return undefined;
+  }
+  return entry.translations;
+}
+
+/** Store translations under `key`, dropping expired entries and the oldest beyond the size cap */
+export function cacheTranslations(key: string, translations: CommandTranslation[], settings: CacheSettings = {}): void {
+  const ttl = (settings.ttlHours ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+  const maxEntries = Math.max(settings.maxEntries ?? DEFAULT_MAX_ENTRIES, 1);
+  const now = Date.now();
+
+  const entries = loadEntries().filter((e) => e.key !== key && now - e.timestamp <= ttl);
+  entries.push({ key, timestamp: now, translations });
+  saveEntries(entries.slice(-maxEntries));
+}
+
+export function clearCache(): void {
+  rmSync(CACHE_FILE, { force: true });
+}
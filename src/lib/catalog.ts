@@ -0,0 +1,240 @@
+import { homedir } from "os";
+import { join } from "path";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import type { CatalogSettings, DirectProvider, Model, ModelCatalog } from "./types";
+import { ANTHROPIC_MODELS, DIRECT_MODELS, GOOGLE_MODELS, OFFLINE_MODEL, OPENAI_MODELS, OPENCODE_ZEN_MODELS, OPENROUTER_MODELS, isDirectProvider } from "./types";
+import { loadConfig } from "./config";
+
+const CONFIG_DIR = join(homedir(), ".magic-shell");
+const CATALOG_FILE = join(CONFIG_DIR, "catalog.json");
+
+const DEFAULT_REFRESH_HOURS = 24;
+const FETCH_TIMEOUT_MS = 10000;
+
+export type CatalogProvider = "openrouter" | "opencode-zen";
+
+const CATALOG_PROVIDERS: CatalogProvider[] = ["opencode-zen", "openrouter"];
+
+const CATALOG_URLS: Record<CatalogProvider, string> = {
+  openrouter: "https://openrouter.ai/api/v1/models",
+  "opencode-zen": "https://opencode.ai/zen/v1/models",
+};
+
+const PROVIDER_NAMES: Record<CatalogProvider, string> = {
+  openrouter: "OpenRouter",
+  "opencode-zen": "OpenCode Zen",
+};
+
+const BUNDLED_MODELS: Record<CatalogProvider, Model[]> = {
+  openrouter: OPENROUTER_MODELS,
+  "opencode-zen": OPENCODE_ZEN_MODELS,
+};
+
+export interface CatalogRefresh {
+  provider: CatalogProvider;
+  refreshed: boolean;
+  models?: number;
+  // Models that were listed before and are gone now
+  removed?: string[];
+  error?: string;
+}
+
+// OpenAI-style model listing; OpenRouter adds the name, context length and per-token prices
+interface ListedModel {
+  id: string;
+  name?: string;
+  description?: string;
+  context_length?: number;
+  pricing?: { prompt?: string; completion?: string };
+}
+
+// Catalogs read from disk, once per process
+let catalogs: Partial<Record<CatalogProvider, ModelCatalog>> | undefined;
+
+function ensureConfigDir(): void {
+  if (!existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+}
+
+function loadCatalogs(): Partial<Record<CatalogProvider, ModelCatalog>> {
+  if (catalogs) {
+    return catalogs;
+  }
+  catalogs = {};
+  if (loadConfig().catalog?.enabled === false || !existsSync(CATALOG_FILE)) {
+    return catalogs;
+  }
+  try {
+    catalogs = JSON.parse(readFileSync(CATALOG_FILE, "utf-8")) as Partial<Record<CatalogProvider, ModelCatalog>>;
+  } catch {
+    // A corrupt catalog is fetched again on the next refresh
+  }
+  return catalogs;
+}
+
+function saveCatalogs(updated: Partial<Record<CatalogProvider, ModelCatalog>>): void {
+  ensureConfigDir();
+  writeFileSync(CATALOG_FILE, JSON.stringify(updated, null, 2));
+  catalogs = updated;
+}
+
+/**
+ * A provider's models from the last fetched catalog, or the bundled list
+ * before the first fetch. Direct vendor providers always use their bundled lists.
+ */
+export function getProviderModels(provider: CatalogProvider | DirectProvider): Model[] {
+  if (isDirectProvider(provider)) return DIRECT_MODELS[provider];
+  return loadCatalogs()[provider]?.models ?? BUNDLED_MODELS[provider];
+}
+
+/** Every OpenCode Zen and OpenRouter model, the bundled direct vendor models and the offline translator */
+export function getAllModels(): Model[] {
+  return [...getProviderModels("opencode-zen"), ...getProviderModels("openrouter"), ...ANTHROPIC_MODELS, ...OPENAI_MODELS, ...GOOGLE_MODELS, OFFLINE_MODEL];
+}
+
+export function findModel(id: string): Model | undefined {
+  return getAllModels().find((m) => m.id === id);
+}
+
+/** "updated 3 hours ago", or "bundled list" before the first fetch */
+export function describeCatalog(provider: CatalogProvider): string {
+  const catalog = loadCatalogs()[provider];
+  if (!catalog) return "bundled list";
+  const hours = Math.floor((Date.now() - catalog.fetchedAt) / (60 * 60 * 1000));
+  if (hours < 1) return "updated just now";
+  if (hours < 48) return `updated ${hours} hour${hours === 1 ? "" : "s"} ago`;
+  return `updated ${Math.floor(hours / 24)} days ago`;
+}
+
+// Per-token price strings to USD per million tokens; OpenRouter uses -1 for "varies"
+function perMillion(price: string | undefined): number | undefined {
+  const value = price === undefined ? NaN : parseFloat(price);
+  return Number.isFinite(value) && value >= 0 ? Math.round(value * 1_000_000 * 1000) / 1000 : undefined;
+}
+
+/** Guess a category from the model id: reasoning models by name, small and quick variants as fast */
+function guessCategory(id: string): Model["category"] {
+  if (/(^|[-/.])(r\d|o\d)([-:.]|$)|reason|think|qwq/i.test(id)) return "reasoning";
+  if (/mini|nano|flash|haiku|lite|small|fast|instant|(^|[^\d.])[1-9]b\b/i.test(id)) return "fast";
+  return "smart";
+}
+
+// "qwen3-coder-plus" -> "Qwen3 Coder Plus"
+function nameFromId(id: string): string {
+  return id
+    .split("/")
+    .pop()!
+    .split(/[-_]/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+// OpenRouter names read "OpenAI: GPT-5 Nano (free)"; the free flag is shown separately
+function cleanName(name: string): string {
+  return name.replace(/:\s*/, " ").replace(/\s*\(free\)$/i, "");
+}
+
+function shortDescription(description: string | undefined, provider: CatalogProvider): string {
+  const sentence = description?.split(/(?<=\.)\s/)[0]?.trim();
+  if (!sentence) return `Listed by ${PROVIDER_NAMES[provider]}`;
+  return sentence.length > 80 ? `${sentence.slice(0, 77)}...` : sentence.replace(/\.$/, "");
+}
+
+/**
+ * Map a listed model to the Model type. Bundled models keep their curated
+ * name, description and category; context length, prices and the free flag
+ * come from the listing when it has them.
+ */
+function toModel(listed: ListedModel, provider: CatalogProvider, bundled: Model | undefined): Model {
+  const inputPrice = perMillion(listed.pricing?.prompt);
+  const outputPrice = perMillion(listed.pricing?.completion);
+  const hasPrices = inputPrice !== undefined && outputPrice !== undefined;
+  const free = hasPrices ? inputPrice === 0 && outputPrice === 0 : listed.id.endsWith(":free") || listed.id.endsWith("-free") || Boolean(bundled?.free);
+
+  return {
+    id: listed.id,
+    name: bundled?.name ?? (listed.name ? cleanName(listed.name) : nameFromId(listed.id)),
+    description: bundled?.description ?? shortDescription(listed.description, provider),
+    category: bundled?.category ?? guessCategory(listed.id),
+    provider,
+    contextLength: listed.context_length ?? bundled?.contextLength ?? 0,
+    ...(free && { free: true }),
+    inputPrice: hasPrices ? inputPrice : bundled?.inputPrice,
+    outputPrice: hasPrices ? outputPrice : bundled?.outputPrice,
+    // Models switched off in the bundled list stay off while still listed
+    ...(bundled?.disabled && { disabled: true, disabledReason: bundled.disabledReason }),
+  };
+}
+
+async function fetchListing(provider: CatalogProvider): Promise<ListedModel[]> {
+  const response = await fetch(CATALOG_URLS[provider], { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${CATALOG_URLS[provider]}`);
+  }
+  const body = (await response.json()) as { data?: ListedModel[] };
+  if (!Array.isArray(body.data) || body.data.length === 0) {
+    throw new Error(`No models in the response from ${CATALOG_URLS[provider]}`);
+  }
+  return body.data.filter((m) => typeof m?.id === "string");
+}
+
+/**
+ * Fetch the model list of each provider whose catalog is older than
+ * `refreshHours` (all of them with `force`) and store it on disk. Models
+ * that were listed before but are gone upstream stay in the catalog marked
+ * disabled until the next refresh, and for as long as the default, a
+ * fallback or the review model names them, so a saved choice explains
+ * itself. A failed fetch keeps the previous catalog.
+ */
+export async function refreshCatalogs(settings: CatalogSettings = {}, force = false): Promise<CatalogRefresh[]> {
+  if (settings.enabled === false) {
+    return [];
+  }
+
+  const maxAge = (settings.refreshHours ?? DEFAULT_REFRESH_HOURS) * 60 * 60 * 1000;
+  const current = { ...loadCatalogs() };
+  const stale = CATALOG_PROVIDERS.filter((p) => force || !current[p] || Date.now() - current[p]!.fetchedAt > maxAge);
+  if (stale.length === 0) {
+    return [];
+  }
+
+  const config = loadConfig();
+  const referenced = new Set([config.defaultModel, ...(config.fallbackModels ?? []), ...(config.reviewModel ? [config.reviewModel] : [])]);
+
+  const results = await Promise.all(
+    stale.map(async (provider): Promise<CatalogRefresh> => {
+      let listed: ListedModel[];
+      try {
+        listed = await fetchListing(provider);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { provider, refreshed: false, error: message };
+      }
+
+      const bundled = new Map(BUNDLED_MODELS[provider].map((m) => [m.id, m]));
+      const models = listed.map((m) => toModel(m, provider, bundled.get(m.id)));
+      const listedIds = new Set(models.map((m) => m.id));
+
+      const previous = current[provider]?.models ?? BUNDLED_MODELS[provider];
+      const known = [...previous, ...BUNDLED_MODELS[provider].filter((m) => referenced.has(m.id) && !previous.some((p) => p.id === m.id))];
+      const vanished = known.filter((m) => !listedIds.has(m.id));
+      const removed = vanished.filter((m) => !m.disabled).map((m) => m.id);
+      for (const model of vanished) {
+        if (!model.disabled) {
+          models.push({ ...model, disabled: true, disabledReason: `No longer offered by ${PROVIDER_NAMES[provider]}` });
+        } else if (referenced.has(model.id)) {
+          models.push(model);
+        }
+      }
+
+      current[provider] = { fetchedAt: Date.now(), models };
+      return { provider, refreshed: true, models: listedIds.size, removed };
+    }),
+  );
+
+  if (results.some((r) => r.refreshed)) {
+    saveCatalogs(current);
+  }
+  return results;
+}
@@ -0,0 +1,47 @@
+import { existsSync, readFileSync } from "fs"
+import { homedir } from "os"
+import { delimiter, join } from "path"
+import { expandHome } from "./protected-paths"
+
+/** Value of `--name value` or `--name=value`, if present */
+export function getOptionValue(args: string[], ...names: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === "--") return undefined
+    for (const name of names) {
+      if (arg === name && i + 1 < args.length) return args[i + 1]
+      if (arg.startsWith(`${name}=`)) return arg.slice(name.length + 1)
+    }
+  }
+  return undefined
+}
+
+/**
+ * The kube context a kubectl/helm command will talk to: an explicit --context flag,
+ * otherwise current-context from --kubeconfig, $KUBECONFIG or ~/.kube/config.
+ */
+export function getKubeContext(args: string[]): string | undefined {
+  const explicit = getOptionValue(args, "--context", "--kube-context")
+  if (explicit) return explicit
+
+  const configFlag = getOptionValue(args, "--kubeconfig")
+  const files = configFlag ? [configFlag] : process.env.KUBECONFIG ? process.env.KUBECONFIG.split(delimiter) : [join(homedir(), ".kube", "config")]
+
+  for (const file of files) {
+    const path = expandHome(file)
+    if (!path || !existsSync(path)) continue
+    try {
+      // Avoid a YAML dependency; current-context is always a top-level scalar
+      const match = readFileSync(path, "utf-8").match(/^current-context:\s*["']?([^"'\s#]+)/m)
+      if (match) return match[1]
+    } catch {
+      // Unreadable kubeconfig: try the next one
+    }
+  }
+  return undefined
+}
+
+/** The AWS profile an aws command will use: --profile, then $AWS_PROFILE / $AWS_DEFAULT_PROFILE */
+export function getAwsProfile(args: string[]): string {
+  return getOptionValue(args, "--profile") ?? process.env.AWS_PROFILE ?? process.env.AWS_DEFAULT_PROFILE ?? "default"
+}
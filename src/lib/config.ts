@@ -1,17 +1,28 @@
 import { homedir } from "os";
 import { join } from "path";
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
-import type { Config, CommandHistory, Provider, CustomModel } from "./types";
+import type { Config, CommandHistory, CommandTranslation, Provider, CustomModel, DirectProvider } from "./types";
+import { isDirectProvider } from "./types";
 import { deleteSecret, getSecret, setSecret, isSecureStorageAvailable } from "./keychain";
+import { getLocalModel } from "./local-models";
+import { migrateLegacyPatterns } from "./approvals";
 
 const CONFIG_DIR = join(homedir(), ".magic-shell");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
 const HISTORY_FILE = join(CONFIG_DIR, "history.json");
+const ALTERNATIVES_FILE = join(CONFIG_DIR, "last-alternatives.json");
 
 // Keys for keychain storage
 const KEYCHAIN_OPENROUTER = "openrouter-api-key";
 const KEYCHAIN_OPENCODE_ZEN = "opencode-zen-api-key";
 
+// Direct vendor keys: environment variable, keychain entry and config file fallback
+const DIRECT_KEYS: Record<DirectProvider, { env: string; keychain: string; field: "anthropicApiKey" | "openaiApiKey" | "googleApiKey" }> = {
+  anthropic: { env: "ANTHROPIC_API_KEY", keychain: "anthropic-api-key", field: "anthropicApiKey" },
+  openai: { env: "OPENAI_API_KEY", keychain: "openai-api-key", field: "openaiApiKey" },
+  google: { env: "GOOGLE_API_KEY", keychain: "google-api-key", field: "googleApiKey" },
+};
+
 const DEFAULT_CONFIG: Config = {
   provider: "opencode-zen",
   openrouterApiKey: "", // Only used as fallback if keychain unavailable
@@ -27,8 +38,12 @@ const DEFAULT_CONFIG: Config = {
     "chmod -R 777 /",
     "chown -R",
   ],
-  confirmedDangerousPatterns: [],
+  safetyRules: [],
   repoContext: false, // Opt-in for privacy
+  undo: { enabled: false }, // Opt-in: snapshots use disk space
+  alternatives: 1,
+  autoSuggestFix: false,
+  fallbackModels: [],
   customModels: [],
 };
 
@@ -48,6 +63,11 @@ export function loadConfig(): Config {
   try {
     const data = readFileSync(CONFIG_FILE, "utf-8");
     const loaded = JSON.parse(data) as Partial<Config>;
+    if (loaded.confirmedDangerousPatterns) {
+      migrateLegacyPatterns(loaded.confirmedDangerousPatterns, process.cwd());
+      delete loaded.confirmedDangerousPatterns;
+      writeFileSync(CONFIG_FILE, JSON.stringify(loaded, null, 2));
+    }
     return { ...DEFAULT_CONFIG, ...loaded };
   } catch {
     return { ...DEFAULT_CONFIG };
@@ -62,12 +82,26 @@ export function saveConfig(config: Config): void {
   if (isSecureStorageAvailable()) {
     configToSave.openrouterApiKey = "";
     configToSave.opencodeZenApiKey = "";
+    for (const { field } of Object.values(DIRECT_KEYS)) {
+      delete configToSave[field];
+    }
   }
 
   writeFileSync(CONFIG_FILE, JSON.stringify(configToSave, null, 2));
 }
 
 export async function getApiKey(provider: Provider): Promise<string> {
+  // The offline translator runs locally
+  if (provider === "offline") return "";
+
+  if (isDirectProvider(provider)) {
+    const { env, keychain, field } = DIRECT_KEYS[provider];
+    // Google's SDK documents GOOGLE_GENERATIVE_AI_API_KEY, so accept that name too
+    const envKey = process.env[env] || (provider === "google" ? process.env.GOOGLE_GENERATIVE_AI_API_KEY : undefined);
+    if (envKey) return envKey;
+    return (await getSecret(keychain)) || loadConfig()[field] || "";
+  }
+
   // Check environment variables first (highest priority)
   if (provider === "openrouter") {
     const envKey = process.env.OPENROUTER_API_KEY;
@@ -91,6 +125,15 @@ export async function setApiKey(provider: Provider, key: string): Promise<void>
   const config = loadConfig();
   config.provider = provider;
 
+  if (isDirectProvider(provider)) {
+    const { keychain, field } = DIRECT_KEYS[provider];
+    if (!(await setSecret(keychain, key))) {
+      config[field] = key;
+    }
+    saveConfig(config);
+    return;
+  }
+
   // Try to store in secure storage first
   const keychainKey = provider === "openrouter" ? KEYCHAIN_OPENROUTER : KEYCHAIN_OPENCODE_ZEN;
   const stored = await setSecret(keychainKey, key);
@@ -135,6 +178,32 @@ export function addToHistory(entry: CommandHistory): void {
   saveHistory(history);
 }
 
+interface SavedAlternatives {
+  query: string;
+  model: string;
+  cwd: string;
+  translations: CommandTranslation[];
+}
+
+// The list `msh --alternatives` printed last, so `-x N` runs exactly what was shown
+export function saveLastAlternatives(saved: SavedAlternatives): void {
+  ensureConfigDir();
+  writeFileSync(ALTERNATIVES_FILE, JSON.stringify(saved, null, 2));
+}
+
+export function loadLastAlternatives(query: string, model: string, cwd: string): CommandTranslation[] | undefined {
+  if (!existsSync(ALTERNATIVES_FILE)) {
+    return undefined;
+  }
+
+  try {
+    const saved = JSON.parse(readFileSync(ALTERNATIVES_FILE, "utf-8")) as SavedAlternatives;
+    return saved.query === query && saved.model === model && saved.cwd === cwd ? saved.translations : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 // Custom model management
 export function getCustomModels(): CustomModel[] {
   const config = loadConfig();
@@ -178,11 +247,12 @@ function normalizeCustomModel(model: CustomModel): CustomModel {
   };
 }
 
+// Custom models added with --add-model, then models on a local Ollama or LM Studio server ("ollama/llama3.2")
 export async function getCustomModel(id: string): Promise<CustomModel | undefined> {
   const customModels = getCustomModels();
   const model = customModels.find((m) => m.id === id);
   if (!model) {
-    return undefined;
+    return getLocalModel(id, loadConfig());
   }
 
   const keychainKey = `customModel:${model.id}:apiKey`;
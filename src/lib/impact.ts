@@ -0,0 +1,286 @@
+import { spawnSync } from "child_process"
+import { lstatSync, readdirSync, type Stats } from "fs"
+import { homedir } from "os"
+import { basename, join, relative, sep } from "path"
+import { resolveTarget } from "./protected-paths"
+import type { ImpactSummary } from "./types"
+
+/** A path operand of a destructive command, as written (globs allowed) */
+export interface ImpactTarget {
+  path: string
+  /** Directory the command runs in */
+  cwd: string
+  /** The command also affects everything beneath a directory target */
+  recursive: boolean
+}
+
+/** A `find` expression whose matches are deleted or modified */
+export interface FindImpact {
+  roots: string[]
+  cwd: string
+  /** Primary tests, e.g. [["-name", "*.log"], ["-type", "f"]]; unknown tests match everything */
+  tests: string[][]
+  minDepth?: number
+  maxDepth?: number
+}
+
+/** `git clean` flags that decide which untracked files go */
+export interface GitCleanImpact {
+  cwd: string
+  paths: string[]
+  directories: boolean
+  ignored: "include" | "only" | "exclude"
+}
+
+/** A path a command would touch; `recursive` when everything beneath it goes too */
+export interface AffectedPath {
+  path: string
+  recursive: boolean
+}
+
+// Stop walking after this many entries; the summary is then a lower bound
+const MAX_ENTRIES = 10000
+const SAMPLE_SIZE = 5
+
+class ImpactCounter {
+  private seen = new Set<string>()
+  readonly roots: string[] = []
+  readonly walked: string[] = []
+  files = 0
+  directories = 0
+  totalBytes = 0
+  truncated = false
+
+  constructor(private readonly cwd: string) {}
+
+  get full(): boolean {
+    if (this.seen.size >= MAX_ENTRIES) this.truncated = true
+    return this.truncated
+  }
+
+  /** Count a path, and its contents when recursive */
+  add(path: string, recursive: boolean, isRoot = true): void {
+    if (this.full || this.seen.has(path)) return
+    let stats: Stats
+    try {
+      stats = lstatSync(path)
+    } catch {
+      return
+    }
+    this.seen.add(path)
+    ;(isRoot ? this.roots : this.walked).push(path)
+
+    if (!stats.isDirectory()) {
+      this.files++
+      this.totalBytes += stats.size
+      return
+    }
+    this.directories++
+    if (!recursive) return
+    for (const entry of safeReaddir(path)) {
+      this.add(join(path, entry), true, false)
+      if (this.full) return
+    }
+  }
+
+  summary(): ImpactSummary | undefined {
+    // A walk cut short before any match still says "at least 0 files"
+    if (this.seen.size === 0 && !this.truncated) return undefined
+    const sample = [...this.roots, ...this.walked].slice(0, SAMPLE_SIZE).map((p) => displayPath(p, this.cwd))
+    return { files: this.files, directories: this.directories, totalBytes: this.totalBytes, sample, truncated: this.truncated }
+  }
+}
+
+/**
+ * Expand globs, find expressions and git clean candidates into the paths a
+ * command would touch. `truncated` is set when a find walk hit the entry limit.
+ */
+export function resolveAffectedPaths(targets: ImpactTarget[], finds: FindImpact[], gitCleans: GitCleanImpact[]): { paths: AffectedPath[]; truncated: boolean } {
+  const paths: AffectedPath[] = []
+
+  for (const target of targets) {
+    paths.push(...expandGlob(target.path, target.cwd).map((path) => ({ path, recursive: target.recursive })))
+  }
+
+  const walk = { visited: 0 }
+  for (const find of finds) {
+    for (const root of find.roots.length > 0 ? find.roots : ["."]) {
+      for (const path of expandGlob(root, find.cwd)) walkFind(find, path, root, 0, paths, walk)
+    }
+  }
+
+  for (const clean of gitCleans) {
+    paths.push(...listGitCleanCandidates(clean).map((path) => ({ path, recursive: clean.directories })))
+  }
+
+  return { paths, truncated: walk.visited >= MAX_ENTRIES }
+}
+
+/**
+ * Read-only pre-flight for a destructive command: count the files and
+ * directories it would touch and their total size.
+ */
+export function measureImpact(targets: ImpactTarget[], finds: FindImpact[], gitCleans: GitCleanImpact[], cwd: string): ImpactSummary | undefined {
+  const counter = new ImpactCounter(cwd)
+  const { paths, truncated } = resolveAffectedPaths(targets, finds, gitCleans)
+
+  for (const { path, recursive } of paths) {
+    counter.add(path, recursive)
+    if (counter.full) break
+  }
+  counter.truncated ||= truncated
+
+  return counter.summary()
+}
+
+function walkFind(find: FindImpact, path: string, display: string, depth: number, matches: AffectedPath[], walk: { visited: number }): void {
+  if (walk.visited >= MAX_ENTRIES) return
+  walk.visited++
+  let stats: Stats
+  try {
+    stats = lstatSync(path)
+  } catch {
+    return
+  }
+
+  if (depth >= (find.minDepth ?? 0) && matchesFind(find.tests, path, display, stats)) matches.push({ path, recursive: false })
+  if (!stats.isDirectory() || (find.maxDepth !== undefined && depth >= find.maxDepth)) return
+
+  for (const entry of safeReaddir(path)) {
+    walkFind(find, join(path, entry), `${display.replace(/\/$/, "")}/${entry}`, depth + 1, matches, walk)
+    if (walk.visited >= MAX_ENTRIES) return
+  }
+}
+
+function matchesFind(tests: string[][], path: string, display: string, stats: Stats): boolean {
+  return tests.every(([test, value]) => {
+    switch (test) {
+      case "-name":
+        return globToRegex(value ?? "*").test(basename(display))
+      case "-iname":
+        return globToRegex(value ?? "*", "i").test(basename(display))
+      case "-path":
+      case "-wholename":
+        return globToRegex(value ?? "*", "", true).test(display)
+      case "-ipath":
+        return globToRegex(value ?? "*", "i", true).test(display)
+      case "-type":
+        return value === "d" ? stats.isDirectory() : value === "f" ? stats.isFile() : value === "l" ? stats.isSymbolicLink() : true
+      case "-empty":
+        return stats.isDirectory() ? safeReaddir(path).length === 0 : stats.size === 0
+      default:
+        // Unsupported tests are treated as matching, so the estimate errs high
+        return true
+    }
+  })
+}
+
+function listGitCleanCandidates(clean: GitCleanImpact): string[] {
+  const args = ["ls-files", "--others", "--directory", "-z"]
+  if (clean.ignored === "exclude") args.push("--exclude-standard")
+  if (clean.ignored === "only") args.push("--ignored", "--exclude-standard")
+  args.push("--", ...clean.paths)
+
+  const result = spawnSync("git", args, { cwd: clean.cwd, encoding: "utf-8", timeout: 2000 })
+  if (result.status !== 0 || !result.stdout) return []
+
+  return result.stdout
+    .split("\0")
+    .filter(Boolean)
+    // Without -d, git clean leaves untracked directories alone
+    .filter((entry) => clean.directories || !entry.endsWith("/"))
+    .map((entry) => join(clean.cwd, entry))
+}
+
+/**
+ * Expand a shell glob against the filesystem. A path without unescaped glob
+ * characters expands to itself.
+ */
+export function expandGlob(pattern: string, cwd: string): string[] {
+  if (!hasGlob(pattern)) return [resolveTarget(unescapeGlob(pattern), cwd)]
+
+  const [root, ...segments] = resolveTarget(pattern, cwd).split(sep)
+  let matches = [root === "" ? sep : root]
+  for (const segment of segments) {
+    if (!segment) continue
+    if (!hasGlob(segment)) {
+      matches = matches.map((dir) => join(dir, unescapeGlob(segment)))
+      continue
+    }
+    const regex = globToRegex(segment)
+    matches = matches.flatMap((dir) =>
+      safeReaddir(dir)
+        // Like the shell, * does not match dotfiles unless the pattern starts with a dot
+        .filter((entry) => (segment.startsWith(".") || !entry.startsWith(".")) && regex.test(entry))
+        .map((entry) => join(dir, entry)),
+    )
+    if (matches.length === 0) return []
+  }
+  return matches
+}
+
+function hasGlob(pattern: string): boolean {
+  return /(^|[^\\])[*?[]/.test(pattern)
+}
+
+function unescapeGlob(pattern: string): string {
+  return pattern.replace(/\\([*?[\\])/g, "$1")
+}
+
+function globToRegex(glob: string, flags = "", matchSlash = false): RegExp {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === "\\" && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*?+^${}()|[\]\\]/g, "\\$&")
+    } else if (ch === "*") {
+      source += matchSlash ? ".*" : "[^/]*"
+    } else if (ch === "?") {
+      source += matchSlash ? "." : "[^/]"
+    } else if (ch === "[") {
+      const close = glob.indexOf("]", i + 2)
+      if (close === -1) {
+        source += "\\["
+      } else {
+        source += `[${glob.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`
+        i = close
+      }
+    } else {
+      source += ch.replace(/[.+^${}()|\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${source}$`, flags)
+}
+
+function safeReaddir(path: string): string[] {
+  try {
+    return readdirSync(path).sort()
+  } catch {
+    return []
+  }
+}
+
+function displayPath(path: string, cwd: string): string {
+  const rel = relative(cwd, path)
+  if (rel && !rel.startsWith("..")) return rel
+  const home = homedir()
+  return path === home || path.startsWith(home + sep) ? `~${path.slice(home.length)}` : path
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"]
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`
+}
+
+/** "12 files, 3 directories (4.2 MB)"; prefixed with "at least" when the walk was cut short */
+export function describeImpact(impact: ImpactSummary): string {
+  const parts = [`${impact.files} ${impact.files === 1 ? "file" : "files"}`]
+  if (impact.directories > 0) parts.push(`${impact.directories} ${impact.directories === 1 ? "directory" : "directories"}`)
+  return `${impact.truncated ? "at least " : ""}${parts.join(", ")} (${formatBytes(impact.totalBytes)})`
+}
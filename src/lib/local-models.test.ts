@@ -0,0 +1,144 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { describeLocalStatus, discoverLocalModels, getLocalBaseUrl } from "./local-models";
+import type { Config, LocalProviderSettings } from "./types";
+
+function makeConfig(ollama: LocalProviderSettings, lmstudio: LocalProviderSettings): Config {
+  return {
+    provider: "opencode-zen",
+    openrouterApiKey: "",
+    opencodeZenApiKey: "",
+    defaultModel: "big-pickle",
+    safetyLevel: "moderate",
+    dryRunByDefault: false,
+    blockedCommands: [],
+    localProviders: { ollama, lmstudio },
+  };
+}
+
+// Stands in for both servers: Ollama's listing at /api/tags, LM Studio's at /v1/models
+let stub: Server<undefined>;
+// A port nothing listens on, taken from a server that was started and stopped
+let closedPort: number;
+
+beforeAll(() => {
+  stub = Bun.serve({
+    port: 0,
+    fetch(request) {
+      const { pathname } = new URL(request.url);
+      if (pathname === "/api/tags") {
+        return Response.json({
+          models: [
+            { name: "qwen2.5-coder:7b", details: { parameter_size: "7.6B", quantization_level: "Q4_K_M" } },
+            { name: "llama3.2:latest", details: {} },
+          ],
+        });
+      }
+      if (pathname === "/v1/models") {
+        return Response.json({ object: "list", data: [{ id: "qwen2.5-7b-instruct" }] });
+      }
+      if (pathname === "/broken/api/tags" || pathname === "/broken/v1/models") {
+        return new Response("internal error", { status: 500 });
+      }
+      return new Response("not found", { status: 404 });
+    },
+  });
+
+  const closed = Bun.serve({ port: 0, fetch: () => new Response() });
+  closedPort = closed.port!;
+  closed.stop(true);
+});
+
+afterAll(() => {
+  stub.stop(true);
+});
+
+describe("discoverLocalModels", () => {
+  test("lists Ollama models from /api/tags", async () => {
+    const config = makeConfig({ baseUrl: `http://127.0.0.1:${stub.port}` }, { enabled: false });
+    const [status] = await discoverLocalModels(config);
+
+    expect(status.provider).toBe("ollama");
+    expect(status.reachable).toBe(true);
+    expect(status.models.map((m) => m.id)).toEqual(["ollama/llama3.2", "ollama/qwen2.5-coder:7b"]);
+
+    const qwen = status.models[1];
+    expect(qwen.modelId).toBe("qwen2.5-coder:7b");
+    expect(qwen.description).toBe("Local Ollama model, 7.6B Q4_K_M");
+    expect(qwen.baseUrl).toBe(`http://127.0.0.1:${stub.port}/v1`);
+    expect(describeLocalStatus(status)).toMatch(/^2 models, \d+ms$/);
+  });
+
+  test("lists LM Studio models from /v1/models", async () => {
+    const config = makeConfig({ enabled: false }, { baseUrl: `http://127.0.0.1:${stub.port}/v1/` });
+    const [status] = await discoverLocalModels(config);
+
+    expect(status.provider).toBe("lmstudio");
+    expect(status.reachable).toBe(true);
+    expect(status.models).toHaveLength(1);
+    expect(status.models[0].id).toBe("lmstudio/qwen2.5-7b-instruct");
+    expect(status.models[0].baseUrl).toBe(`http://127.0.0.1:${stub.port}/v1`);
+    expect(describeLocalStatus(status)).toMatch(/^1 model, \d+ms$/);
+  });
+
+  test("reports a server that is not running as unreachable", async () => {
+    const config = makeConfig({ baseUrl: `http://127.0.0.1:${closedPort}` }, { baseUrl: `http://127.0.0.1:${closedPort}/v1` });
+    const statuses = await discoverLocalModels(config);
+
+    expect(statuses).toHaveLength(2);
+    for (const status of statuses) {
+      expect(status.reachable).toBe(false);
+      expect(status.models).toEqual([]);
+      expect(describeLocalStatus(status)).toBe("not running");
+    }
+  });
+
+  test("reports a non-200 reply as unreachable", async () => {
+    const config = makeConfig({ baseUrl: `http://127.0.0.1:${stub.port}/broken` }, { baseUrl: `http://127.0.0.1:${stub.port}/broken/v1` });
+    const [ollama, lmstudio] = await discoverLocalModels(config);
+
+    expect(ollama.reachable).toBe(false);
+    expect(ollama.models).toEqual([]);
+    expect(ollama.error).toBe(`HTTP 500 from http://127.0.0.1:${stub.port}/broken/api/tags`);
+    expect(lmstudio.reachable).toBe(false);
+    expect(lmstudio.error).toBe(`HTTP 500 from http://127.0.0.1:${stub.port}/broken/v1/models`);
+  });
+
+  test("skips disabled providers", async () => {
+    const config = makeConfig({ enabled: false }, { enabled: false });
+    expect(await discoverLocalModels(config)).toEqual([]);
+  });
+});
+
+describe("getLocalBaseUrl", () => {
+  const originalHost = process.env.OLLAMA_HOST;
+
+  afterEach(() => {
+    if (originalHost === undefined) delete process.env.OLLAMA_HOST;
+    else process.env.OLLAMA_HOST = originalHost;
+  });
+
+  const cases: [string, string][] = [
+    ["0.0.0.0", "http://0.0.0.0:11434"],
+    ["myhost:8080", "http://myhost:8080"],
+    [":11435", "http://127.0.0.1:11435"],
+    ["http://myhost", "http://myhost"],
+    ["https://ollama.example.com/", "https://ollama.example.com"],
+  ];
+
+  test.each(cases)("OLLAMA_HOST=%s resolves to %s", (host, expected) => {
+    process.env.OLLAMA_HOST = host;
+    expect(getLocalBaseUrl("ollama", makeConfig({}, {}))).toBe(expected);
+  });
+
+  test("prefers the configured base URL over OLLAMA_HOST", () => {
+    process.env.OLLAMA_HOST = "0.0.0.0";
+    expect(getLocalBaseUrl("ollama", makeConfig({ baseUrl: "http://gpu-box:11434/" }, {}))).toBe("http://gpu-box:11434");
+  });
+
+  test("falls back to the default ports", () => {
+    delete process.env.OLLAMA_HOST;
+    expect(getLocalBaseUrl("ollama", makeConfig({}, {}))).toBe("http://localhost:11434");
+    expect(getLocalBaseUrl("lmstudio", makeConfig({}, {}))).toBe("http://localhost:1234/v1");
+  });
+});
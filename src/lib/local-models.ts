@@ -0,0 +1,171 @@
+import type { Config, CustomModel, LocalProvider } from "./types";
+
+const DEFAULT_OLLAMA_URL = "http://localhost:11434";
+const DEFAULT_LMSTUDIO_URL = "http://localhost:1234/v1";
+
+// Local servers answer at once or not at all, so a short wait keeps model lists snappy
+const DISCOVERY_TIMEOUT_MS = 1500;
+
+// Neither listing reports a context window; matches the --add-model default
+const DEFAULT_CONTEXT_LENGTH = 8192;
+
+const LOCAL_PROVIDERS: LocalProvider[] = ["ollama", "lmstudio"];
+
+export const LOCAL_PROVIDER_NAMES: Record<LocalProvider, string> = {
+  ollama: "Ollama",
+  lmstudio: "LM Studio",
+};
+
+export interface LocalProviderStatus {
+  provider: LocalProvider;
+  baseUrl: string;
+  reachable: boolean;
+  // Round trip of the model listing request
+  latencyMs?: number;
+  error?: string;
+  models: CustomModel[];
+}
+
+interface OllamaTagsResponse {
+  models?: { name: string; details?: { parameter_size?: string; quantization_level?: string } }[];
+}
+
+interface OpenAIModelsResponse {
+  data?: { id: string }[];
+}
+
+function trimUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+/**
+ * OLLAMA_HOST read the way Ollama reads it: "0.0.0.0", ":11434" and
+ * "myhost:8080" are all valid, and only a bare host falls back to port
+ * 11434 (an explicit scheme keeps its own default port).
+ */
+function parseOllamaHost(value: string): string {
+  const host = value.trim();
+  if (/^https?:\/\//.test(host)) return trimUrl(host);
+  let url: URL;
+  try {
+    url = new URL(`http://${host.startsWith(":") ? `127.0.0.1${host}` : host}`);
+  } catch {
+    // Left as typed so discovery reports the server as not running
+    return trimUrl(`http://${host}`);
+  }
+  if (!url.port) url.port = "11434";
+  return trimUrl(url.toString());
+}
+
+/**
+ * Where a local server listens: `localProviders.<provider>.baseUrl`, then
+ * OLLAMA_HOST for Ollama, then the default port.
+ */
+export function getLocalBaseUrl(provider: LocalProvider, config: Config): string {
+  const configured = config.localProviders?.[provider]?.baseUrl;
+  if (configured) return trimUrl(configured);
+  if (provider === "ollama" && process.env.OLLAMA_HOST?.trim()) {
+    return parseOllamaHost(process.env.OLLAMA_HOST);
+  }
+  return provider === "ollama" ? DEFAULT_OLLAMA_URL : DEFAULT_LMSTUDIO_URL;
+}
+
+export function isLocalProviderEnabled(provider: LocalProvider, config: Config): boolean {
+  return config.localProviders?.[provider]?.enabled !== false;
+}
+
+// Requests go through Ollama's OpenAI-compatible endpoint; LM Studio's base URL already is one
+function getChatBaseUrl(provider: LocalProvider, config: Config): string {
+  const baseUrl = getLocalBaseUrl(provider, config);
+  return provider === "ollama" ? `${baseUrl}/v1` : baseUrl;
+}
+
+function toCustomModel(provider: LocalProvider, modelId: string, config: Config, description?: string): CustomModel {
+  // Ollama treats "llama3.2" and "llama3.2:latest" as the same model
+  const shortId = provider === "ollama" ? modelId.replace(/:latest$/, "") : modelId;
+  return {
+    id: `${provider}/${shortId}`,
+    name: shortId,
+    description: description ?? `Local ${LOCAL_PROVIDER_NAMES[provider]} model`,
+    modelId,
+    baseUrl: getChatBaseUrl(provider, config),
+    contextLength: DEFAULT_CONTEXT_LENGTH,
+    category: "smart",
+    localProvider: provider,
+  };
+}
+
+/**
+ * The model behind an id like "ollama/llama3.2" or "lmstudio/qwen2.5-7b-instruct",
+ * built from the id alone so a saved default works without asking the server.
+ */
+export function getLocalModel(id: string, config: Config): CustomModel | undefined {
+  const slash = id.indexOf("/");
+  const provider = id.slice(0, slash) as LocalProvider;
+  const modelId = id.slice(slash + 1);
+  if (slash < 0 || !modelId || !LOCAL_PROVIDERS.includes(provider) || !isLocalProviderEnabled(provider, config)) {
+    return undefined;
+  }
+  return toCustomModel(provider, modelId, config);
+}
+
+function describeOllamaModel(details: { parameter_size?: string; quantization_level?: string } | undefined): string {
+  const size = [details?.parameter_size, details?.quantization_level].filter(Boolean).join(" ");
+  return size ? `Local Ollama model, ${size}` : "Local Ollama model";
+}
+
+function describeFetchError(error: unknown): string {
+  if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return "not responding";
+  }
+  // fetch rejects with a TypeError (Node) or a connection error (Bun) when nothing listens
+  return "not running";
+}
+
+async function probe(provider: LocalProvider, config: Config, timeoutMs: number): Promise<LocalProviderStatus> {
+  const baseUrl = getLocalBaseUrl(provider, config);
+  const url = provider === "ollama" ? `${baseUrl}/api/tags` : `${baseUrl}/models`;
+  const started = Date.now();
+
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    if (process.env.DEBUG_API === "1") {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[DEBUG] ${LOCAL_PROVIDER_NAMES[provider]} discovery error: ${message}`);
+    }
+    return { provider, baseUrl, reachable: false, error: describeFetchError(error), models: [] };
+  }
+
+  const latencyMs = Date.now() - started;
+  if (!response.ok) {
+    return { provider, baseUrl, reachable: false, latencyMs, error: `HTTP ${response.status} from ${url}`, models: [] };
+  }
+
+  try {
+    const models =
+      provider === "ollama"
+        ? ((await response.json()) as OllamaTagsResponse).models?.map((m) => toCustomModel(provider, m.name, config, describeOllamaModel(m.details)))
+        : ((await response.json()) as OpenAIModelsResponse).data?.map((m) => toCustomModel(provider, m.id, config));
+    return { provider, baseUrl, reachable: true, latencyMs, models: (models ?? []).sort((a, b) => a.name.localeCompare(b.name)) };
+  } catch {
+    return { provider, baseUrl, reachable: false, latencyMs, error: `Unexpected model list from ${url}`, models: [] };
+  }
+}
+
+/**
+ * Ask each enabled local server for its models, in parallel. Servers that
+ * are not running come back unreachable with no models rather than failing.
+ */
+export async function discoverLocalModels(config: Config, timeoutMs = DISCOVERY_TIMEOUT_MS): Promise<LocalProviderStatus[]> {
+  const providers = LOCAL_PROVIDERS.filter((p) => isLocalProviderEnabled(p, config));
+  return Promise.all(providers.map((p) => probe(p, config, timeoutMs)));
+}
+
+/** "3 models, 12ms" or "not running" */
+export function describeLocalStatus(status: LocalProviderStatus): string {
+  if (!status.reachable) return status.error ?? "unavailable";
+  const count = `${status.models.length} model${status.models.length === 1 ? "" : "s"}`;
+  return `${count}, ${status.latencyMs}ms`;
+}
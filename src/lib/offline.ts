@@ -0,0 +1,474 @@
+import type { PlatformType, ShellInfo, ShellType } from "./shell"
+import { formatPathForShell } from "./shell"
+import type { CommandTranslation } from "./types"
+
+/**
+ * Rule-based translator for common requests, used without a model: when no
+ * API key is configured, when the provider cannot be reached, or when the
+ * "offline" model is selected. Each intent matches the request with patterns
+ * whose named groups are slots, then fills a template for the shell.
+ */
+
+type ShellFamily = "posix" | "powershell" | "cmd"
+
+type Slots = Record<string, string | undefined>
+
+interface Intent {
+  id: string
+  /** Tried in order against the request, minus polite prefixes and trailing punctuation */
+  patterns: RegExp[]
+  explain: (slots: Slots) => string
+  /** Commands per shell family; a missing family means this shell has no equivalent */
+  templates: Partial<Record<ShellFamily, (slots: Slots, platform: PlatformType) => string | undefined>>
+}
+
+// Confidence reported for a rule match; lower than a model's typical answer since phrasing can fool a pattern
+const RULE_CONFIDENCE = 0.7
+
+// "this folder", "here" and friends mean the working directory
+const HERE = /^(?:\.|here|this (?:folder|directory|dir)|the current (?:folder|directory)|current (?:folder|directory)|files|all files)$/i
+
+// Words people use for file types, mapped to the extension to search for
+const FILE_TYPES: Record<string, string> = {
+  javascript: "js",
+  typescript: "ts",
+  python: "py",
+  markdown: "md",
+  text: "txt",
+  log: "log",
+  json: "json",
+  yaml: "yml",
+  csv: "csv",
+  pdf: "pdf",
+  shell: "sh",
+  go: "go",
+  rust: "rs",
+  java: "java",
+  ruby: "rb",
+  php: "php",
+  html: "html",
+  css: "css",
+}
+
+const SIZE_UNITS: Record<string, { find: string; powershell: string }> = {
+  k: { find: "k", powershell: "KB" },
+  m: { find: "M", powershell: "MB" },
+  g: { find: "G", powershell: "GB" },
+}
+
+function getShellFamily(shell: ShellType): ShellFamily | undefined {
+  switch (shell) {
+    case "powershell":
+    case "pwsh":
+      return "powershell"
+    case "cmd":
+      return "cmd"
+    // Nushell's builtins (ls, ps, find) take different flags than the POSIX tools
+    case "nushell":
+      return undefined
+    default:
+      return "posix"
+  }
+}
+
+function quote(value: string, family: ShellFamily): string {
+  switch (family) {
+    case "posix":
+      return /^~?[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`
+    case "powershell":
+      return /^[\w@%+=:,./\\-]+$/.test(value) ? value : `'${value.replace(/'/g, "''")}'`
+    case "cmd":
+      return /^[\w@%+=:,./\\-]+$/.test(value) ? value : `"${value.replace(/"/g, "")}"`
+  }
+}
+
+/** A slot holding a path, quoted for the shell; undefined for the working directory */
+function pathSlot(value: string | undefined, family: ShellFamily, shell: ShellType): string | undefined {
+  const path = value?.replace(/^["']|["']$/g, "")
+  if (!path || HERE.test(path)) return undefined
+  return quote(formatPathForShell(path, shell), family)
+}
+
+function withDir(dir: string | undefined): string {
+  return dir ? ` ${dir}` : ""
+}
+
+function fileTypePattern(slots: Slots): string | undefined {
+  if (slots.name) return slots.name.replace(/^["']|["']$/g, "")
+  const type = slots.type?.toLowerCase()
+  if (!type) return undefined
+  return `*.${FILE_TYPES[type] ?? type.replace(/^\./, "")}`
+}
+
+function archiveBase(path: string): string {
+  const base = path.replace(/[\\/]+$/, "").split(/[\\/]/).pop() ?? ""
+  return base === "." || base === ".." || base === "" ? "archive" : base
+}
+
+function ageMinutes(slots: Slots): number {
+  const count = Number(slots.count ?? 1)
+  const perUnit: Record<string, number> = { minute: 1, hour: 60, day: 60 * 24, week: 60 * 24 * 7 }
+  return count * (perUnit[slots.period ?? "day"] ?? 60 * 24)
+}
+
+const INTENTS: Intent[] = [
+  {
+    id: "list-files",
+    patterns: [
+      /^(?:list|show)(?: all)?(?: the)?(?: hidden)? files(?: (?:in|under|inside) (?<dir>\S+))?$/i,
+      /^what(?:'s| is) in (?<dir>.+)$/i,
+    ],
+    explain: () => "Lists every entry in the directory, including hidden ones, with details",
+    templates: {
+      posix: (s) => `ls -la${withDir(s.dir)}`,
+      powershell: (s) => `Get-ChildItem -Force${withDir(s.dir)}`,
+      cmd: (s) => `dir /a${withDir(s.dir)}`,
+    },
+  },
+  {
+    id: "largest-files",
+    patterns: [/^(?:find|list|show)?(?: the)? ?(?:(?<count>\d+) )?(?:largest|biggest|large|big) files(?: (?:in|under) (?<dir>\S+))?$/i],
+    explain: (s) => `Lists the ${s.count ?? 10} largest files under the directory, biggest first`,
+    templates: {
+      posix: (s) => `find ${s.dir ?? "."} -type f -exec du -h {} + | sort -rh | head -n ${s.count ?? 10}`,
+      powershell: (s) => `Get-ChildItem${withDir(s.dir)} -Recurse -File | Sort-Object Length -Descending | Select-Object -First ${s.count ?? 10} FullName, Length`,
+    },
+  },
+  {
+    id: "files-by-size",
+    patterns: [
+      /^(?:find|list|show)?(?: all)?(?: the)? ?files (?:(?:larger|bigger|greater|more) than|over|above) (?<size>\d+) ?(?<unit>[kmg])i?b?(?: (?:in|under) (?<dir>\S+))?$/i,
+    ],
+    explain: (s) => `Finds files larger than ${s.size}${s.unit?.toUpperCase()}B`,
+    templates: {
+      posix: (s) => `find ${s.dir ?? "."} -type f -size +${s.size}${SIZE_UNITS[s.unit?.toLowerCase() ?? "m"].find}`,
+      powershell: (s) => `Get-ChildItem${withDir(s.dir)} -Recurse -File | Where-Object { $_.Length -gt ${s.size}${SIZE_UNITS[s.unit?.toLowerCase() ?? "m"].powershell} }`,
+    },
+  },
+  {
+    id: "files-by-age",
+    patterns: [
+      /^(?:find|list|show)?(?: all)?(?: the)? ?files (?:modified|changed|edited|updated)(?: in| within)?(?: the)? (?:last|past) (?:(?<count>\d+) )?(?<period>minute|hour|day|week)s?(?: (?:in|under) (?<dir>\S+))?$/i,
+      /^(?:find|list|show)?(?: all)?(?: the)? ?files (?:modified|changed|edited|updated) (?<today>today)(?: (?:in|under) (?<dir>\S+))?$/i,
+    ],
+    explain: (s) => (s.today ? "Finds files modified in the last 24 hours" : `Finds files modified in the last ${s.count ?? 1} ${s.period}${Number(s.count ?? 1) === 1 ? "" : "s"}`),
+    templates: {
+      posix: (s) => {
+        const minutes = ageMinutes(s)
+        const test = minutes % (60 * 24) === 0 ? `-mtime -${minutes / (60 * 24)}` : `-mmin -${minutes}`
+        return `find ${s.dir ?? "."} -type f ${test}`
+      },
+      powershell: (s) => `Get-ChildItem${withDir(s.dir)} -Recurse -File | Where-Object { $_.LastWriteTime -gt (Get-Date).AddMinutes(-${ageMinutes(s)}) }`,
+    },
+  },
+  {
+    id: "find-by-name",
+    patterns: [
+      /^find (?:all )?(?:the )?(?:files? )?(?:named|called) (?<name>\S+)(?: (?:in|under) (?<dir>\S+))?$/i,
+      /^find (?:all )?(?:the )?(?<type>\.\w+|javascript|typescript|python|markdown|text|log|json|yaml|csv|pdf|shell|go|rust|java|ruby|php|html|css) files(?: (?:in|under) (?<dir>\S+))?$/i,
+      /^(?:where is|locate) (?:the )?(?:file )?(?<name>[\w.*-]+\.\w+)$/i,
+    ],
+    explain: (s) => `Finds files matching ${fileTypePattern(s)} under the directory`,
+    templates: {
+      posix: (s) => `find ${s.dir ?? "."} -type f -name ${quote(fileTypePattern(s) ?? "*", "posix")}`,
+      powershell: (s) => `Get-ChildItem${withDir(s.dir)} -Recurse -File -Filter ${quote(fileTypePattern(s) ?? "*", "powershell")}`,
+      cmd: (s) => `dir /s /b ${quote(s.dir ? `${s.dir.replace(/"/g, "")}\\${fileTypePattern(s)}` : (fileTypePattern(s) ?? "*"), "cmd")}`,
+    },
+  },
+  {
+    id: "disk-free",
+    patterns: [
+      /^(?:show|check|get)?(?: the)? ?(?:free |available )?disk (?:usage|space)(?: left| free| available)?$/i,
+      /^how much (?:free |disk )?space(?: is)?(?: left| free| available)?(?: on (?:the |my )?(?:disk|drive))?$/i,
+      /^(?:free|available) (?:disk )?space$/i,
+    ],
+    explain: () => "Shows used and free space on each mounted filesystem",
+    templates: {
+      posix: () => "df -h",
+      powershell: () => "Get-PSDrive -PSProvider FileSystem",
+      cmd: () => "wmic logicaldisk get caption,freespace,size",
+    },
+  },
+  {
+    id: "directory-size",
+    patterns: [/^(?:show |get |check )?(?:what(?:'s| is) )?(?:the )?(?:total )?size of (?<dir>.+)$/i, /^how (?:big|large) is (?<dir>.+)$/i],
+    explain: () => "Shows the total size of the path",
+    templates: {
+      posix: (s) => `du -sh ${s.dir ?? "."}`,
+      powershell: (s) => `"{0:N1} MB" -f ((Get-ChildItem${withDir(s.dir)} -Recurse -File | Measure-Object -Property Length -Sum).Sum / 1MB)`,
+      cmd: (s) => `dir /s${withDir(s.dir)}`,
+    },
+  },
+  {
+    id: "folder-sizes",
+    patterns: [/^(?:show |list )?(?:the )?(?:folder|directory) sizes(?: in (?<dir>\S+))?$/i, /^(?:show |list )?(?:the )?size of each (?:folder|directory)(?: in (?<dir>\S+))?$/i],
+    explain: () => "Shows the size of each entry in the directory, largest last",
+    templates: {
+      posix: (s) => (s.dir ? `du -sh ${s.dir.replace(/\/?$/, "/")}* | sort -h` : "du -sh -- * | sort -h"),
+      powershell: (s) =>
+        `Get-ChildItem${withDir(s.dir)} | ForEach-Object { [pscustomobject]@{ Name = $_.Name; MB = [math]::Round(((Get-ChildItem $_.FullName -Recurse -File -ErrorAction SilentlyContinue | Measure-Object -Property Length -Sum).Sum + $_.Length) / 1MB, 1) } } | Sort-Object MB`,
+    },
+  },
+  {
+    id: "port-user",
+    patterns: [
+      /^(?:what|who|which process)(?:'s| is)? (?:using|running on|listening on|on) port (?<port>\d+)$/i,
+      /^(?:find|show)(?: the)? process(?:es)? (?:using|on|listening on) port (?<port>\d+)$/i,
+      /^(?:check |is )?port (?<port>\d+)(?: in use| used| open| taken)?$/i,
+    ],
+    explain: (s) => `Shows the process using port ${s.port}`,
+    templates: {
+      posix: (s, platform) => (platform === "windows" ? `netstat -ano | grep :${s.port}` : `lsof -i :${s.port}`),
+      powershell: (s) => `Get-NetTCPConnection -LocalPort ${s.port}`,
+      cmd: (s) => `netstat -ano | findstr :${s.port}`,
+    },
+  },
+  {
+    id: "listening-ports",
+    patterns: [
+      /^(?:list|show|check)?(?: all)?(?: the)? ?(?:open|listening|used) ports$/i,
+      /^(?:which |what )?ports (?:are )?(?:open|in use|listening|being used)$/i,
+      /^what(?:'s| is) listening(?: on which ports)?$/i,
+    ],
+    explain: () => "Lists TCP ports with a process listening on them",
+    templates: {
+      posix: (_s, platform) => (platform === "macos" ? "lsof -iTCP -sTCP:LISTEN -n -P" : platform === "windows" ? "netstat -ano | grep LISTENING" : "ss -tlnp"),
+      powershell: () => "Get-NetTCPConnection -State Listen",
+      cmd: () => "netstat -ano | findstr LISTENING",
+    },
+  },
+  {
+    id: "top-processes",
+    patterns: [
+      /^(?:show|list|what are)?(?: the)? ?(?:top |most )?(?:processes|apps|programs)(?: that are)? using (?:the )?(?:most )?(?<resource>cpu|memory|ram)$/i,
+      /^what(?:'s| is) using (?:the most |all the |so much )?(?<resource>cpu|memory|ram)$/i,
+      /^(?:top|highest) (?<resource>cpu|memory|ram) processes$/i,
+    ],
+    explain: (s) => `Lists the 10 processes using the most ${s.resource?.toLowerCase() === "cpu" ? "CPU" : "memory"}`,
+    templates: {
+      posix: (s, platform) => {
+        const cpu = s.resource?.toLowerCase() === "cpu"
+        if (platform === "macos") return `ps aux ${cpu ? "-r" : "-m"} | head -n 11`
+        if (platform === "windows") return undefined
+        return `ps aux --sort=-${cpu ? "%cpu" : "%mem"} | head -n 11`
+      },
+      powershell: (s) => `Get-Process | Sort-Object ${s.resource?.toLowerCase() === "cpu" ? "CPU" : "WorkingSet"} -Descending | Select-Object -First 10`,
+    },
+  },
+  {
+    id: "processes",
+    patterns: [/^(?:list|show)(?: all)?(?: the)?(?: running)? processes$/i, /^what(?:'s| is) running$/i, /^running processes$/i],
+    explain: () => "Lists every running process",
+    templates: {
+      posix: () => "ps aux",
+      powershell: () => "Get-Process",
+      cmd: () => "tasklist",
+    },
+  },
+  {
+    id: "find-process",
+    patterns: [/^is (?<name>[\w.-]+) running$/i, /^(?:find|show|list)(?: the| all)? (?<name>[\w.-]+) process(?:es)?$/i],
+    explain: (s) => `Lists running processes whose command line contains "${s.name}"`,
+    templates: {
+      posix: (s, platform) => (platform === "windows" ? `ps -W | grep -i ${s.name}` : `pgrep -ifl ${s.name}`),
+      powershell: (s) => `Get-Process -Name *${s.name}*`,
+      cmd: (s) => `tasklist | findstr /i ${s.name}`,
+    },
+  },
+  {
+    id: "git-status",
+    patterns: [
+      /^(?:show |check )?(?:the )?(?:git|repo|repository) status$/i,
+      /^(?:show |check )?(?:the )?status of (?:the |this )?(?:repo|repository)$/i,
+      /^what(?:'s| has) changed$/i,
+      /^(?:show |list )?(?:my )?(?:uncommitted|unstaged|local) changes$/i,
+    ],
+    explain: () => "Shows staged, unstaged and untracked changes in the repository",
+    templates: {
+      posix: () => "git status",
+      powershell: () => "git status",
+      cmd: () => "git status",
+    },
+  },
+  {
+    id: "git-log",
+    patterns: [
+      /^(?:show |list )?(?:the |my )?(?:last |recent |latest )?(?:(?<count>\d+) )?(?:git )?commits$/i,
+      /^(?:show )?(?:the )?(?:git )?(?:commit )?(?:log|history)$/i,
+    ],
+    explain: (s) => `Shows the last ${s.count ?? 10} commits, one line each`,
+    templates: {
+      posix: (s) => `git log --oneline -n ${s.count ?? 10}`,
+      powershell: (s) => `git log --oneline -n ${s.count ?? 10}`,
+      cmd: (s) => `git log --oneline -n ${s.count ?? 10}`,
+    },
+  },
+  {
+    id: "git-current-branch",
+    patterns: [/^(?:what(?:'s| is) )?(?:the |my )?current (?:git )?branch$/i, /^which branch am i on$/i],
+    explain: () => "Prints the name of the checked-out branch",
+    templates: {
+      posix: () => "git branch --show-current",
+      powershell: () => "git branch --show-current",
+      cmd: () => "git branch --show-current",
+    },
+  },
+  {
+    id: "git-branches",
+    patterns: [/^(?:list|show)(?: all)?(?: the)?(?: git)? branches$/i],
+    explain: () => "Lists local and remote branches",
+    templates: {
+      posix: () => "git branch -a",
+      powershell: () => "git branch -a",
+      cmd: () => "git branch -a",
+    },
+  },
+  {
+    id: "extract",
+    patterns: [
+      /^(?:extract|unzip|untar|unpack|decompress) (?<path>\S+?\.(?<format>zip|tar\.gz|tgz|tar\.bz2|tbz2|tar\.xz|txz|tar))(?: (?:to|into|in) (?<dest>\S+))?$/i,
+    ],
+    explain: (s) => `Extracts ${s.path}${s.dest ? ` into ${s.dest}` : " into the current directory"}`,
+    templates: {
+      posix: (s) => {
+        if (s.format?.toLowerCase() === "zip") return `unzip ${s.path}${s.dest ? ` -d ${s.dest}` : ""}`
+        const flag = /bz2$/i.test(s.format ?? "") ? "j" : /xz$/i.test(s.format ?? "") ? "J" : /gz$/i.test(s.format ?? "") ? "z" : ""
+        return `${s.dest ? `mkdir -p ${s.dest} && ` : ""}tar -x${flag}f ${s.path}${s.dest ? ` -C ${s.dest}` : ""}`
+      },
+      // Windows 10 and later ship bsdtar, which reads zip and every tar compression
+      powershell: (s) =>
+        s.format?.toLowerCase() === "zip" ? `Expand-Archive -Path ${s.path} -DestinationPath ${s.dest ?? "."}` : `${s.dest ? `New-Item -ItemType Directory -Force ${s.dest} | Out-Null; ` : ""}tar -xf ${s.path}${s.dest ? ` -C ${s.dest}` : ""}`,
+      cmd: (s) => `${s.dest ? `mkdir ${s.dest} 2>nul & ` : ""}tar -xf ${s.path}${s.dest ? ` -C ${s.dest}` : ""}`,
+    },
+  },
+  {
+    id: "archive",
+    patterns: [
+      /^(?<format>zip|compress|archive|tar)(?: up)? (?<path>\S+)(?: (?:into|to|as) (?<dest>\S+))?$/i,
+      /^(?:create|make) (?:a |an )?(?<format>zip|tar|tarball|archive)(?: file)? (?:of|from) (?<path>\S+)(?: (?:called|named) (?<dest>\S+))?$/i,
+    ],
+    explain: (s) => `Packs ${s.path ?? "the current directory"} into a ${s.format?.toLowerCase() === "zip" || /\.zip$/i.test(s.dest ?? "") ? "zip" : "gzipped tar"} archive`,
+    templates: {
+      posix: (s) => {
+        const zip = s.format?.toLowerCase() === "zip" || /\.zip$/i.test(s.dest ?? "")
+        const dest = s.dest ?? quote(`${archiveBase(s.rawPath ?? "")}.${zip ? "zip" : "tar.gz"}`, "posix")
+        return zip ? `zip -r ${dest} ${s.path ?? "."}` : `tar -czf ${dest} ${s.path ?? "."}`
+      },
+      powershell: (s) => {
+        const zip = s.format?.toLowerCase() === "zip" || /\.zip$/i.test(s.dest ?? "")
+        const dest = s.dest ?? quote(`${archiveBase(s.rawPath ?? "")}.${zip ? "zip" : "tar.gz"}`, "powershell")
+        return zip ? `Compress-Archive -Path ${s.path ?? "*"} -DestinationPath ${dest}` : `tar -czf ${dest} ${s.path ?? "."}`
+      },
+      cmd: (s) => {
+        const zip = s.format?.toLowerCase() === "zip" || /\.zip$/i.test(s.dest ?? "")
+        const dest = s.dest ?? quote(`${archiveBase(s.rawPath ?? "")}.${zip ? "zip" : "tar.gz"}`, "cmd")
+        return zip ? `tar -a -cf ${dest} ${s.path ?? "."}` : `tar -czf ${dest} ${s.path ?? "."}`
+      },
+    },
+  },
+  {
+    id: "count-lines",
+    patterns: [/^(?:count(?: the)?|how many) lines (?:are )?in (?<path>\S+)$/i],
+    explain: (s) => `Counts the lines in ${s.path}`,
+    templates: {
+      posix: (s) => `wc -l ${s.path}`,
+      powershell: (s) => `(Get-Content ${s.path} | Measure-Object -Line).Lines`,
+      cmd: (s) => `find /c /v "" ${s.path}`,
+    },
+  },
+  {
+    id: "search-text",
+    patterns: [
+      /^(?:search|grep|look) for (?<pattern>.+?)(?: in (?<dir>\S+))?$/i,
+      /^find (?:the )?(?:text|string|word) (?<pattern>.+?)(?: in (?<dir>\S+))?$/i,
+      /^(?:which|what) files contain (?<pattern>.+?)(?: in (?<dir>\S+))?$/i,
+    ],
+    explain: (s) => `Searches file contents under the directory for "${s.pattern}", with line numbers`,
+    templates: {
+      posix: (s) => `grep -rn ${quote(s.pattern ?? "", "posix")}${s.dir ? ` ${s.dir}` : " ."}`,
+      powershell: (s) => `Get-ChildItem${withDir(s.dir)} -Recurse -File | Select-String -SimpleMatch -Pattern ${quote(s.pattern ?? "", "powershell")}`,
+      cmd: (s) => `findstr /s /n /c:"${s.pattern?.replace(/"/g, "")}" ${s.dir ? `${s.dir.replace(/"/g, "")}\\*` : "*"}`,
+    },
+  },
+  {
+    id: "memory",
+    patterns: [
+      /^(?:show |check )?(?:the )?(?:free |available )?(?:memory|ram)(?: usage)?$/i,
+      /^how much (?:free )?(?:memory|ram)(?: is)?(?: free| left| available| used)?$/i,
+    ],
+    explain: () => "Shows total, used and free memory",
+    templates: {
+      posix: (_s, platform) => (platform === "macos" ? "top -l 1 -s 0 | grep PhysMem" : platform === "windows" ? "systeminfo | grep Memory" : "free -h"),
+      powershell: () => "Get-CimInstance Win32_OperatingSystem | Select-Object TotalVisibleMemorySize, FreePhysicalMemory",
+      cmd: () => 'systeminfo | findstr /c:"Memory"',
+    },
+  },
+  {
+    id: "current-directory",
+    patterns: [/^where am i$/i, /^(?:what(?:'s| is) )?(?:the |my )?current (?:directory|folder|path)$/i, /^print working directory$/i],
+    explain: () => "Prints the working directory",
+    templates: {
+      posix: () => "pwd",
+      powershell: () => "Get-Location",
+      cmd: () => "cd",
+    },
+  },
+  {
+    id: "ip-address",
+    patterns: [/^(?:what(?:'s| is) )?(?:my )?(?:local )?ip(?: address)?$/i, /^(?:show|get)(?: my)?(?: local)? ip(?: address)?$/i],
+    explain: () => "Shows the machine's local IP addresses",
+    templates: {
+      posix: (_s, platform) => (platform === "macos" ? "ipconfig getifaddr en0" : platform === "windows" ? "ipconfig" : "hostname -I"),
+      powershell: () => "Get-NetIPAddress -AddressFamily IPv4 | Select-Object InterfaceAlias, IPAddress",
+      cmd: () => "ipconfig",
+    },
+  },
+]
+
+// "please", "can you" and similar add nothing to the request
+function normalizeRequest(input: string): string {
+  return input
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(/[.?!]+$/, "")
+    .replace(/^(?:please |(?:can|could|would) you |how (?:do|can) i |how to |i want to |i need to |help me )+/i, "")
+    .replace(/ please$/i, "")
+    // "here" adds nothing, since commands run in the current directory anyway
+    .replace(/ (?:here|in (?:this|the current) (?:folder|directory|dir))$/i, "")
+}
+
+// Slots that hold paths are quoted for the shell; the rest are used as matched
+const PATH_SLOTS = ["dir", "path", "dest"]
+
+/**
+ * Translate a request with the built-in rules. Returns undefined when no rule
+ * matches, or the matching rule has no command for this shell.
+ */
+export function translateOffline(input: string, shellInfo: ShellInfo): CommandTranslation | undefined {
+  const family = getShellFamily(shellInfo.shell)
+  if (!family) return undefined
+  const request = normalizeRequest(input)
+
+  for (const intent of INTENTS) {
+    for (const pattern of intent.patterns) {
+      const match = pattern.exec(request)
+      if (!match) continue
+
+      const slots: Slots = { ...match.groups, rawPath: match.groups?.path, pattern: match.groups?.pattern?.replace(/^(["'])(.*)\1$/, "$2") }
+      for (const name of PATH_SLOTS) {
+        slots[name] = pathSlot(slots[name], family, shellInfo.shell)
+      }
+      const command = intent.templates[family]?.(slots, shellInfo.platform)
+      if (!command) return undefined
+
+      return {
+        command,
+        explanation: intent.explain(slots),
+        assumptions: [],
+        confidence: RULE_CONFIDENCE,
+        requiresInteractive: false,
+      }
+    }
+  }
+  return undefined
+}
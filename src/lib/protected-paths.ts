@@ -0,0 +1,172 @@
+import { existsSync } from "fs"
+import { homedir } from "os"
+import { dirname, isAbsolute, join, resolve } from "path"
+
+/**
+ * Protected path patterns.
+ * - A plain path protects exactly that path (and flags deleting/moving its parents)
+ * - A trailing `/**` protects the path and everything beneath it
+ * - `*`, `**` and `?` work as in shell globs
+ * - `~` expands to the home directory, `$REPO_ROOT` to the enclosing git repository
+ * - `$REPO_ROOT` on its own also guards the repository's contents, but only
+ *   against bulk removal (deleting or moving out a directory or a glob);
+ *   single-file deletes, edits and renames are everyday work.
+ *   `$REPO_ROOT/**` guards everything
+ */
+export const DEFAULT_PROTECTED_PATHS = [
+  "~/.ssh/**",
+  "~/.gnupg/**",
+  "~/.magic-shell/**",
+  "~/.bashrc",
+  "~/.bash_profile",
+  "~/.zshrc",
+  "~/.profile",
+  "**/.git/**",
+  "$REPO_ROOT",
+  "~",
+]
+
+/**
+ * The defaults plus the configured entries. An entry starting with `!`
+ * drops that pattern, so a default can be switched off without copying the
+ * list into config.json (where later additions to the defaults would never
+ * reach it).
+ */
+export function mergeProtectedPaths(configured: string[] = []): string[] {
+  const patterns = new Set(DEFAULT_PROTECTED_PATHS)
+  for (const entry of configured) {
+    if (entry.startsWith("!")) patterns.delete(entry.slice(1).trim())
+    else patterns.add(entry)
+  }
+  return [...patterns]
+}
+
+export interface ProtectedPath {
+  /** Pattern as written in config */
+  pattern: string
+  /** Pattern with `$REPO_ROOT` resolved, for messages */
+  label: string
+  /** Absolute literal part of the pattern, used for parent checks (absent for patterns like **\/.git) */
+  base?: string
+  /** Matches the protected path itself */
+  rootRegex: RegExp
+  /** Matches the protected path and, for `/**` patterns, everything beneath it */
+  regex: RegExp
+  /** Only removing a directory or glob beneath the path counts, not writing to it (bare `$REPO_ROOT`) */
+  removalOnly?: boolean
+}
+
+export type ProtectedPathRelation = "exact" | "inside" | "ancestor"
+
+export interface ProtectedPathMatch {
+  path: ProtectedPath
+  /** exact: the protected path itself; inside: something beneath it; ancestor: a directory containing it */
+  relation: ProtectedPathRelation
+}
+
+/** Walk up from cwd looking for a .git entry */
+export function findRepoRoot(cwd: string): string | undefined {
+  let current = resolve(cwd)
+  while (true) {
+    if (existsSync(join(current, ".git"))) return current
+    const parent = dirname(current)
+    if (parent === current) return undefined
+    current = parent
+  }
+}
+
+export function compileProtectedPaths(patterns: string[], cwd: string): ProtectedPath[] {
+  const repoRoot = findRepoRoot(cwd)
+  const compiled: ProtectedPath[] = []
+
+  for (const pattern of patterns) {
+    let expanded = pattern.trim()
+    if (!expanded) continue
+    const repoContents = expanded === "$REPO_ROOT"
+    if (expanded.includes("$REPO_ROOT")) {
+      if (!repoRoot) continue
+      expanded = expanded.replace("$REPO_ROOT", repoRoot)
+    }
+    expanded = expandHome(expanded)
+
+    const recursive = expanded.endsWith("/**")
+    const body = recursive ? expanded.slice(0, -3) : expanded
+    const isGlob = /[*?]/.test(body)
+    const absoluteBody = (isGlob || isAbsolute(body) ? body : resolve(cwd, body)).replace(/\/+$/, "") || "/"
+    const rootSource = globToRegexSource(absoluteBody)
+
+    compiled.push({
+      pattern,
+      label: pattern.replace("$REPO_ROOT", repoRoot ?? "$REPO_ROOT").replace(/\/\*\*$/, ""),
+      base: isGlob ? undefined : absoluteBody,
+      rootRegex: new RegExp(`^${rootSource}$`),
+      regex: new RegExp(`^${rootSource}${recursive || repoContents ? "(/.*)?" : ""}$`),
+      ...(repoContents && { removalOnly: true }),
+    })
+  }
+
+  return compiled
+}
+
+/** Expand ~, $HOME and ${HOME} at the start of a path */
+export function expandHome(path: string): string {
+  const home = homedir()
+  if (path === "~" || path.startsWith("~/")) return home + path.slice(1)
+  if (path === "$HOME" || path.startsWith("$HOME/")) return home + path.slice(5)
+  if (path === "${HOME}" || path.startsWith("${HOME}/")) return home + path.slice(7)
+  return path
+}
+
+/** Resolve a command-line path operand against the working directory */
+export function resolveTarget(target: string, cwd: string): string {
+  const expanded = expandHome(target)
+  return isAbsolute(expanded) ? resolve(expanded) : resolve(cwd, expanded)
+}
+
+/**
+ * Check a resolved target against the protected list. Targets containing glob
+ * characters match if the glob could expand to a protected path, or if it
+ * expands inside a protected directory (`~/.ssh/*`).
+ */
+export function matchProtectedPath(target: string, protectedPaths: ProtectedPath[]): ProtectedPathMatch | null {
+  const globStart = target.search(/[*?[]/)
+  const targetRegex = globStart >= 0 ? new RegExp(`^${globToRegexSource(target)}$`) : null
+  // The directory the glob expands in: /home/me/.ssh for /home/me/.ssh/*.pub
+  const globDirectory = globStart >= 0 ? target.slice(0, target.lastIndexOf("/", globStart)) : ""
+
+  for (const path of protectedPaths) {
+    if (targetRegex) {
+      if (path.base && targetRegex.test(path.base)) return { path, relation: "exact" }
+      if (globDirectory && path.regex.test(`${globDirectory}/`)) return { path, relation: "inside" }
+      continue
+    }
+    if (path.rootRegex.test(target)) return { path, relation: "exact" }
+    if (path.regex.test(target)) return { path, relation: "inside" }
+    if (path.base && (target === "/" || path.base.startsWith(`${target}/`))) return { path, relation: "ancestor" }
+  }
+  return null
+}
+
+function globToRegexSource(glob: string): string {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === "*" && glob[i + 1] === "*") {
+      // **/ matches zero or more directories
+      if (glob[i + 2] === "/") {
+        source += "(.*/)?"
+        i += 2
+      } else {
+        source += ".*"
+        i++
+      }
+    } else if (ch === "*") {
+      source += "[^/]*"
+    } else if (ch === "?") {
+      source += "[^/]"
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  return source
+}
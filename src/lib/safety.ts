@@ -1,64 +1,316 @@
-import type { SafetyAnalysis, Config } from "./types"
-
-// Patterns that are always dangerous
-const CRITICAL_PATTERNS = [
-  /rm\s+(-[rf]+\s+)*[\/~](\s|$)/, // rm -rf / or ~
-  /rm\s+(-[rf]+\s+)*\/\*/, // rm -rf /*
-  /rm\s+-[rf]*\s+--no-preserve-root/, // rm with no-preserve-root
-  />\s*\/dev\/sd[a-z]/, // overwrite disk
-  /dd\s+.*of=\/dev\/sd[a-z]/, // dd to disk
-  /mkfs\./, // format filesystem
-  /:\(\)\s*\{.*\}/, // fork bomb
-  /chmod\s+(-R\s+)?777\s+\//, // chmod 777 /
-  /wget.*\|\s*(ba)?sh/, // pipe wget to shell
-  /curl.*\|\s*(ba)?sh/, // pipe curl to shell
+import { statSync } from "fs"
+import type { SafetyAnalysis, SafetyFinding, SafetyReview, Config, CustomSafetyRule, CommandApproval, ImpactSummary } from "./types"
+import type { PlatformType, ShellType } from "./shell"
+import { parseShellCommand, type ParsedCommand, type Redirect, type SimpleCommand } from "./shell-parser"
+import { findApproval } from "./approvals"
+import { getAwsProfile, getKubeContext } from "./cloud-context"
+import { parseCmdCommand, parsePowerShellCommand } from "./windows-parser"
+import { measureImpact, resolveAffectedPaths, type AffectedPath, type FindImpact, type GitCleanImpact, type ImpactTarget } from "./impact"
+import { compileProtectedPaths, matchProtectedPath, mergeProtectedPaths, resolveTarget, type ProtectedPath } from "./protected-paths"
+
+type Severity = SafetyAnalysis["severity"]
+
+/** A simple command with wrappers like sudo/env/nohup peeled off */
+interface Invocation {
+  program: string // basename of the real program, lowercased
+  args: string[]
+  elevated: boolean // ran through sudo/doas
+  command: SimpleCommand
+}
+
+interface RuleContext {
+  pipeline: Invocation[]
+  position: number
+}
+
+interface SafetyRule {
+  id: string
+  description: string
+  /** Report the whole pipeline as the triggering segment instead of the single command */
+  pipeline?: boolean
+  test: (inv: Invocation, ctx: RuleContext) => boolean
+}
+
+const SHELLS = ["sh", "bash", "zsh", "dash", "ksh", "fish"]
+const FILE_EXEC_ACTIONS = ["-exec", "-execdir", "-ok", "-okdir"]
+const FILE_DELETERS = ["rm", "rmdir", "unlink", "shred"]
+const NETWORK_FETCHERS = ["curl", "wget"]
+const TERRAFORM = ["terraform", "tofu", "terragrunt"]
+const KUBECTL_MUTATING = ["apply", "create", "delete", "patch", "replace", "scale", "rollout", "set", "edit", "drain", "cordon", "taint", "label", "annotate"]
+const ROOT_TARGETS = ["/", "/*", "~", "~/", "~/*", "$HOME", "$HOME/", "$HOME/*", "${HOME}", "${HOME}/", "${HOME}/*"]
+
+// Rules that are always dangerous
+const CRITICAL_RULES: SafetyRule[] = [
+  { id: "rm-root", description: "rm targeting / or ~", test: (inv) => inv.program === "rm" && operands(inv.args).some((a) => ROOT_TARGETS.includes(a)) },
+  { id: "rm-no-preserve-root", description: "rm with --no-preserve-root", test: (inv) => inv.program === "rm" && hasFlag(inv.args, "", "no-preserve-root") },
+  { id: "redirect-disk-device", description: "redirect onto a disk device", test: (inv) => inv.command.redirects.some((r) => isFileWrite(r) && isDiskDevice(r.target)) },
+  { id: "dd-disk-device", description: "dd writing to a disk device", test: (inv) => inv.program === "dd" && inv.args.some((a) => a.startsWith("of=") && isDiskDevice(a.slice(3))) },
+  { id: "mkfs", description: "filesystem format (mkfs)", test: (inv) => inv.program === "mkfs" || inv.program.startsWith("mkfs.") },
+  { id: "fork-bomb", description: "fork bomb (self-recursive function)", pipeline: true, test: (inv) => inv.command.functionName !== undefined && inv.command.argv[0] === inv.command.functionName },
+  { id: "chmod-777-root", description: "chmod 777 on /", test: (inv) => inv.program === "chmod" && operands(inv.args)[0] === "777" && operands(inv.args).slice(1).includes("/") },
+  { id: "kubectl-delete-namespace", description: "kubectl delete namespace", test: (inv) => cliArgs(inv, "kubectl")[0] === "delete" && ["namespace", "namespaces", "ns"].includes(cliArgs(inv, "kubectl")[1]?.split("/")[0]) },
+  { id: "kubectl-delete-all", description: "kubectl delete --all / --all-namespaces", test: (inv) => cliArgs(inv, "kubectl")[0] === "delete" && (hasFlag(inv.args, "", "all") || hasFlag(inv.args, "A", "all-namespaces")) },
+  { id: "terraform-destroy-auto-approve", description: "terraform destroy without confirmation", test: (inv) => isTerraformDestroy(inv) && hasTerraformFlag(inv, "auto-approve") },
+  { id: "aws-s3-rb-force", description: "delete S3 bucket and all its objects", test: (inv) => matchesPrefix(cliArgs(inv, "aws"), ["s3", "rb"]) && hasFlag(inv.args, "", "force") },
+  { id: "gcloud-projects-delete", description: "delete a GCP project", test: (inv) => matchesPrefix(cliArgs(inv, "gcloud"), ["projects", "delete"]) },
+  { id: "az-group-delete", description: "delete an Azure resource group", test: (inv) => matchesPrefix(cliArgs(inv, "az"), ["group", "delete"]) },
+  { id: "sql-drop-database", description: "SQL DROP DATABASE", test: (inv) => getSqlStatements(inv).some((sql) => /^drop\s+(database|schema)\b/i.test(sql)) },
+  {
+    id: "download-to-shell",
+    description: "downloaded script run by a shell",
+    pipeline: true,
+    test: (inv, ctx) => (SHELLS.includes(inv.program) && ctx.pipeline.slice(0, ctx.position).some((p) => NETWORK_FETCHERS.includes(p.program))) || executesDownload(inv),
+  },
+]
+
+// Rules that are high severity but may be intentional
+const HIGH_RULES: SafetyRule[] = [
+  { id: "rm-recursive-force", description: "rm with force/recursive", test: (inv) => inv.program === "rm" && (hasFlag(inv.args, "r", "recursive") || hasFlag(inv.args, "R") || hasFlag(inv.args, "f", "force")) },
+  { id: "sudo-rm", description: "sudo rm", test: (inv) => inv.program === "rm" && inv.elevated },
+  { id: "redirect-etc", description: "redirect into /etc", test: (inv) => inv.command.redirects.some((r) => isFileWrite(r) && r.target.startsWith("/etc/")) },
+  { id: "chmod-recursive", description: "recursive chmod", test: (inv) => inv.program === "chmod" && hasFlag(inv.args, "R", "recursive") },
+  { id: "chown-recursive", description: "recursive chown", test: (inv) => inv.program === "chown" && hasFlag(inv.args, "R", "recursive") },
+  { id: "kill-all", description: "kill all processes", test: (inv) => inv.program === "kill" && inv.args.includes("-1") },
+  { id: "killall", description: "kill by name (killall)", test: (inv) => inv.program === "killall" },
+  { id: "pkill", description: "pattern kill (pkill)", test: (inv) => inv.program === "pkill" },
+  { id: "shutdown", description: "shutdown system", test: (inv) => ["shutdown", "halt", "poweroff"].includes(inv.program) },
+  { id: "reboot", description: "reboot system", test: (inv) => inv.program === "reboot" },
+  { id: "systemctl-stop", description: "systemctl stop/disable", test: (inv) => inv.program === "systemctl" && ["stop", "disable"].includes(operands(inv.args)[0]) },
+  { id: "service-stop", description: "stop a service", test: (inv) => inv.program === "service" && operands(inv.args)[1] === "stop" },
+  { id: "kubectl-delete", description: "kubectl delete", test: (inv) => cliArgs(inv, "kubectl")[0] === "delete" },
+  { id: "kubectl-drain", description: "kubectl drain", test: (inv) => cliArgs(inv, "kubectl")[0] === "drain" },
+  { id: "kubectl-scale-zero", description: "kubectl scale to zero replicas", test: (inv) => cliArgs(inv, "kubectl")[0] === "scale" && inv.args.some((arg, i) => arg === "--replicas=0" || (arg === "--replicas" && inv.args[i + 1] === "0")) },
+  {
+    id: "kubectl-production-context",
+    description: "kubectl change against a production context",
+    test: (inv) => KUBECTL_MUTATING.includes(cliArgs(inv, "kubectl")[0]) && /prod/i.test(getKubeContext(inv.args) ?? ""),
+  },
+  { id: "helm-uninstall", description: "helm uninstall", test: (inv) => ["uninstall", "delete", "del", "un"].includes(cliArgs(inv, "helm")[0]) },
+  { id: "terraform-destroy", description: "terraform destroy", test: (inv) => isTerraformDestroy(inv) },
+  { id: "terraform-apply-auto-approve", description: "terraform apply without confirmation", test: (inv) => TERRAFORM.includes(inv.program) && operands(inv.args)[0] === "apply" && hasTerraformFlag(inv, "auto-approve") },
+  { id: "aws-s3-rm-recursive", description: "recursive S3 delete", test: (inv) => matchesPrefix(cliArgs(inv, "aws"), ["s3", "rm"]) && hasFlag(inv.args, "", "recursive") },
+  { id: "aws-s3-rb", description: "delete S3 bucket", test: (inv) => matchesPrefix(cliArgs(inv, "aws"), ["s3", "rb"]) },
+  { id: "aws-ec2-terminate", description: "terminate EC2 instances", test: (inv) => matchesPrefix(cliArgs(inv, "aws"), ["ec2", "terminate-instances"]) },
+  { id: "aws-delete", description: "AWS delete operation", test: (inv) => cliArgs(inv, "aws")[1]?.startsWith("delete-") ?? false },
+  { id: "gcloud-delete", description: "gcloud delete", test: (inv) => cliArgs(inv, "gcloud").includes("delete") },
+  { id: "az-delete", description: "az delete", test: (inv) => cliArgs(inv, "az").includes("delete") },
+  { id: "docker-volume-rm", description: "remove docker volumes", test: (inv) => cliArgs(inv, "docker")[0] === "volume" && ["rm", "remove", "prune"].includes(cliArgs(inv, "docker")[1]) },
+  {
+    id: "docker-compose-down-volumes",
+    description: "docker compose down with volumes",
+    test: (inv) => (cliArgs(inv, "docker")[0] === "compose" || inv.program === "docker-compose") && operands(inv.args).includes("down") && hasFlag(inv.args, "v", "volumes"),
+  },
+  { id: "sql-drop-table", description: "SQL DROP TABLE", test: (inv) => getSqlStatements(inv).some((sql) => /^drop\s+table\b/i.test(sql)) },
+  { id: "sql-truncate", description: "SQL TRUNCATE", test: (inv) => getSqlStatements(inv).some((sql) => /^truncate\b/i.test(sql)) },
+  { id: "sql-delete-without-where", description: "SQL DELETE without WHERE", test: (inv) => getSqlStatements(inv).some((sql) => /^delete\s+from\b/i.test(sql) && !/\bwhere\b/i.test(sql)) },
+  { id: "find-delete", description: "find -delete", test: (inv) => inv.program === "find" && inv.args.includes("-delete") },
+  { id: "find-exec-delete", description: "find -exec rm", test: (inv) => inv.program === "find" && inv.args.some((arg, i) => FILE_EXEC_ACTIONS.includes(arg) && FILE_DELETERS.includes(basename(inv.args[i + 1] ?? ""))) },
+  { id: "inline-code-delete", description: "inline interpreter code deletes files", test: (inv) => INLINE_DELETE.test(getInlineCode(inv)?.code ?? "") },
 ]
 
-// Patterns that are high severity but may be intentional
-const HIGH_PATTERNS = [
-  /rm\s+-[rf]+/, // rm with force/recursive
-  /sudo\s+rm/, // sudo rm
-  />\s*\/etc\//, // overwrite /etc files
-  /chmod\s+-R/, // recursive chmod
-  /chown\s+-R/, // recursive chown
-  /kill\s+-9\s+-1/, // kill all processes
-  /killall/, // kill by name
-  /pkill/, // pattern kill
-  /shutdown/, // shutdown system
-  /reboot/, // reboot system
-  /systemctl\s+(stop|disable)/, // systemctl dangerous ops
-  /service\s+.*\s+stop/, // stop services
+// Rules that are medium severity - common but need attention
+const MEDIUM_RULES: SafetyRule[] = [
+  { id: "sudo", description: "sudo command", test: (inv) => inv.elevated },
+  { id: "rm", description: "rm command", test: (inv) => inv.program === "rm" },
+  { id: "mv-absolute", description: "mv involving absolute paths", test: (inv) => inv.program === "mv" && operands(inv.args).some((a) => a.startsWith("/")) },
+  { id: "cp-recursive-force", description: "force/recursive copy", test: (inv) => inv.program === "cp" && (hasFlag(inv.args, "r", "recursive") || hasFlag(inv.args, "R") || hasFlag(inv.args, "f", "force")) },
+  { id: "chmod", description: "chmod command", test: (inv) => inv.program === "chmod" },
+  { id: "chown", description: "chown command", test: (inv) => inv.program === "chown" },
+  { id: "apt-remove", description: "package removal (apt)", test: (inv) => (inv.program === "apt" || inv.program === "apt-get") && ["remove", "purge", "autoremove"].includes(operands(inv.args)[0]) },
+  { id: "brew-uninstall", description: "brew uninstall", test: (inv) => inv.program === "brew" && ["uninstall", "remove", "rm"].includes(operands(inv.args)[0]) },
+  { id: "npm-uninstall-global", description: "global npm uninstall", test: (inv) => inv.program === "npm" && ["uninstall", "remove", "rm", "un"].includes(operands(inv.args)[0]) && hasFlag(inv.args, "g", "global") },
+  { id: "pip-uninstall", description: "pip uninstall", test: (inv) => /^pip3?$/.test(inv.program) && operands(inv.args)[0] === "uninstall" },
+  { id: "git-force-push", description: "git force push", test: (inv) => isGit(inv, "push") && (hasFlag(inv.args, "f", "force") || hasFlag(inv.args, "", "force-with-lease")) },
+  { id: "git-reset-hard", description: "git hard reset", test: (inv) => isGit(inv, "reset") && hasFlag(inv.args, "", "hard") },
+  { id: "git-clean", description: "git clean (deletes untracked files)", test: (inv) => isGit(inv, "clean") && hasFlag(inv.args, "f", "force") && !hasFlag(inv.args, "n", "dry-run") },
+  { id: "docker-rm", description: "docker remove", test: (inv) => inv.program === "docker" && ["rm", "rmi"].includes(operands(inv.args)[0]) },
+  { id: "docker-system-prune", description: "docker system prune", test: (inv) => inv.program === "docker" && operands(inv.args)[0] === "system" && operands(inv.args)[1] === "prune" },
+  { id: "inline-code-network", description: "inline interpreter code makes network calls", test: (inv) => INLINE_NETWORK.test(getInlineCode(inv)?.code ?? "") },
+  {
+    id: "eval-dynamic",
+    description: "executes a command built at runtime",
+    test: (inv) => /^\$/.test((inv.program === "eval" ? inv.args.join(" ") : getShellCommandString(inv)) ?? ""),
+  },
 ]
 
-// Patterns that are medium severity - common but need attention
-const MEDIUM_PATTERNS = [
-  /sudo\s+/, // any sudo command
-  /rm\s+/, // any rm command
-  /mv\s+.*\//, // move to root paths
-  /cp\s+-[rf]/, // force/recursive copy
-  /chmod\s+/, // any chmod
-  /chown\s+/, // any chown
-  /apt\s+(remove|purge)/, // package removal
-  /brew\s+uninstall/, // brew uninstall
-  /npm\s+uninstall\s+-g/, // global npm uninstall
-  /pip\s+uninstall/, // pip uninstall
-  /git\s+push\s+.*--force/, // force push
-  /git\s+reset\s+--hard/, // hard reset
-  /docker\s+rm/, // docker remove
-  /docker\s+system\s+prune/, // docker prune
+// Rules that are low severity but worth noting
+const LOW_RULES: SafetyRule[] = [
+  { id: "git-checkout", description: "git checkout (may lose changes)", test: (inv) => isGit(inv, "checkout") },
+  { id: "git-stash", description: "git stash", test: (inv) => isGit(inv, "stash") },
+  { id: "npm-install", description: "npm install (modifies node_modules)", test: (inv) => inv.program === "npm" && ["install", "i", "add"].includes(operands(inv.args)[0]) },
+  { id: "pip-install", description: "pip install", test: (inv) => /^pip3?$/.test(inv.program) && operands(inv.args)[0] === "install" },
+  { id: "brew-install", description: "brew install", test: (inv) => inv.program === "brew" && operands(inv.args)[0] === "install" },
+  { id: "apt-install", description: "apt install", test: (inv) => (inv.program === "apt" || inv.program === "apt-get") && operands(inv.args)[0] === "install" },
 ]
 
-// Patterns that are low severity but worth noting
-const LOW_PATTERNS = [
-  /git\s+checkout/, // git checkout (may lose changes)
-  /git\s+stash/, // git stash
-  /npm\s+install/, // npm install (modifies node_modules)
-  /pip\s+install/, // pip install
-  /brew\s+install/, // brew install
-  /apt\s+install/, // apt install
+const RULE_TABLES: [Severity, SafetyRule[]][] = [
+  ["critical", CRITICAL_RULES],
+  ["high", HIGH_RULES],
+  ["medium", MEDIUM_RULES],
+  ["low", LOW_RULES],
 ]
 
-export function analyzeCommand(command: string, config: Config): SafetyAnalysis {
+// Native Windows executables, reachable from both PowerShell and cmd
+const WINDOWS_RULE_TABLES: [Severity, SafetyRule[]][] = [
+  [
+    "critical",
+    [
+      { id: "win-format", description: "format a drive", test: (inv) => inv.program === "format" && inv.args.some((a) => /^[a-z]:\\?$/i.test(a)) },
+      {
+        id: "win-delete-shadow-copies",
+        description: "delete volume shadow copies",
+        test: (inv) => (inv.program === "vssadmin" && lower(inv.args).includes("delete")) || (inv.program === "wmic" && lower(inv.args).includes("shadowcopy") && lower(inv.args).includes("delete")),
+      },
+    ],
+  ],
+  [
+    "high",
+    [
+      { id: "win-diskpart", description: "diskpart (partition editor)", test: (inv) => inv.program === "diskpart" },
+      { id: "win-bcdedit", description: "modify boot configuration", test: (inv) => inv.program === "bcdedit" && hasSwitch(inv.args, "set", "delete", "deletevalue") },
+      { id: "win-reg-delete", description: "delete registry keys", test: (inv) => inv.program === "reg" && lower(inv.args)[0] === "delete" },
+      { id: "win-cipher-wipe", description: "wipe free disk space (cipher /w)", test: (inv) => inv.program === "cipher" && hasSwitch(inv.args, "w") },
+      { id: "win-takeown-recursive", description: "recursive ownership change (takeown /r)", test: (inv) => inv.program === "takeown" && hasSwitch(inv.args, "r") },
+      { id: "win-net-user-delete", description: "delete a user account", test: (inv) => inv.program === "net" && lower(inv.args)[0] === "user" && hasSwitch(inv.args, "delete") },
+      { id: "win-sc-stop", description: "stop or delete a service", test: (inv) => inv.program === "sc" && ["stop", "delete"].includes(lower(inv.args)[0]) },
+      { id: "win-taskkill-all", description: "kill all matching processes", test: (inv) => inv.program === "taskkill" && inv.args.includes("*") },
+    ],
+  ],
+  [
+    "medium",
+    [
+      { id: "win-reg-add", description: "modify the registry", test: (inv) => inv.program === "reg" && ["add", "import"].includes(lower(inv.args)[0]) },
+      { id: "win-icacls-grant", description: "change file permissions (icacls)", test: (inv) => inv.program === "icacls" && hasSwitch(inv.args, "grant", "reset", "setowner") },
+      { id: "win-runas", description: "run as another user (runas)", test: (inv) => inv.program === "runas" },
+    ],
+  ],
+]
+
+const POWERSHELL_RULE_TABLES: [Severity, SafetyRule[]][] = [
+  [
+    "critical",
+    [
+      { id: "ps-remove-item-root", description: "Remove-Item targeting a drive root, system folder or home", test: (inv) => inv.program === "remove-item" && getPowerShellPaths(inv.args).some(isWindowsCriticalPath) },
+      { id: "ps-format-volume", description: "format or wipe a disk", test: (inv) => ["format-volume", "clear-disk", "remove-partition"].includes(inv.program) },
+      {
+        id: "ps-download-execute",
+        description: "downloaded script executed with Invoke-Expression",
+        pipeline: true,
+        test: (inv, ctx) =>
+          inv.program === "invoke-expression" &&
+          (ctx.pipeline.slice(0, ctx.position).some((p) => POWERSHELL_DOWNLOADERS.includes(p.program)) || /downloadstring|invoke-webrequest|invoke-restmethod|\b(iwr|irm)\b|net\.webclient/i.test(inv.command.text)),
+      },
+    ],
+  ],
+  [
+    "high",
+    [
+      { id: "ps-remove-item-recurse-force", description: "Remove-Item with -Recurse/-Force", test: (inv) => inv.program === "remove-item" && hasParam(inv.args, "recurse", "force") },
+      { id: "ps-registry-delete", description: "delete registry keys", test: (inv) => ["remove-item", "remove-itemproperty"].includes(inv.program) && getPowerShellPaths(inv.args).some((p) => /^(hk(lm|cu|cr|u|cc)|registry):/i.test(p)) },
+      { id: "ps-stop-computer", description: "shut down or restart the computer", test: (inv) => ["stop-computer", "restart-computer"].includes(inv.program) },
+      { id: "ps-stop-service", description: "stop or disable a service", test: (inv) => inv.program === "stop-service" || (inv.program === "set-service" && lower(inv.args).includes("disabled")) },
+      { id: "ps-remove-user", description: "delete a local user", test: (inv) => inv.program === "remove-localuser" },
+      { id: "ps-execution-policy", description: "disable script execution policy", test: (inv) => inv.program === "set-executionpolicy" && lower(inv.args).some((a) => a === "unrestricted" || a === "bypass") },
+      {
+        id: "ps-defender",
+        description: "weaken Windows Defender",
+        test: (inv) => (inv.program === "set-mppreference" && inv.args.some((a) => /^-disable/i.test(a))) || (inv.program === "add-mppreference" && hasParam(inv.args, "exclusionpath", "exclusionprocess")),
+      },
+      { id: "ps-encoded-command", description: "encoded PowerShell command", test: (inv) => POWERSHELL_HOSTS.includes(inv.program) && getPowerShellCommand(inv)?.encoded === true },
+    ],
+  ],
+  [
+    "medium",
+    [
+      { id: "ps-remove-item", description: "Remove-Item", test: (inv) => inv.program === "remove-item" },
+      { id: "ps-start-elevated", description: "start an elevated process", test: (inv) => inv.program === "start-process" && lower(inv.args).includes("runas") },
+      { id: "ps-uninstall", description: "uninstall software", test: (inv) => ["uninstall-package", "uninstall-module", "remove-appxpackage", "remove-windowsfeature", "uninstall-windowsfeature"].includes(inv.program) },
+      { id: "ps-invoke-expression-dynamic", description: "Invoke-Expression of a string built at runtime", test: (inv) => inv.program === "invoke-expression" && /^[$(]/.test(inv.args.join(" ")) },
+    ],
+  ],
+]
+
+// cmd.exe builtins
+const CMD_RULE_TABLES: [Severity, SafetyRule[]][] = [
+  [
+    "critical",
+    [
+      { id: "cmd-rd-root", description: "rd targeting a drive root, system folder or home", test: (inv) => inv.program === "rd" && cmdOperands(inv.args).some(isWindowsCriticalPath) },
+      { id: "cmd-del-root", description: "recursive del on a drive root, system folder or home", test: (inv) => inv.program === "del" && hasSwitch(inv.args, "s") && cmdOperands(inv.args).some(isWindowsCriticalPath) },
+    ],
+  ],
+  [
+    "high",
+    [
+      { id: "cmd-rd-recursive", description: "recursive directory removal (rd /s)", test: (inv) => inv.program === "rd" && hasSwitch(inv.args, "s") },
+      { id: "cmd-del-force-recursive", description: "forced or recursive delete (del /f /s)", test: (inv) => inv.program === "del" && hasSwitch(inv.args, "s", "f") },
+    ],
+  ],
+  [
+    "medium",
+    [
+      { id: "cmd-del", description: "del command", test: (inv) => inv.program === "del" },
+      { id: "cmd-rd", description: "rd command", test: (inv) => inv.program === "rd" },
+    ],
+  ],
+]
+
+type ShellDialect = "posix" | "powershell" | "cmd"
+
+// Cross-platform tools (git, kubectl, terraform, ...) are dangerous from any shell
+const DIALECT_RULE_TABLES: Record<ShellDialect, [Severity, SafetyRule[]][]> = {
+  posix: RULE_TABLES,
+  powershell: [...POWERSHELL_RULE_TABLES, ...WINDOWS_RULE_TABLES, ...RULE_TABLES],
+  cmd: [...CMD_RULE_TABLES, ...WINDOWS_RULE_TABLES, ...RULE_TABLES],
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2, critical: 3 }
+
+/** Environment the command will run in, used to scope custom rules */
+export interface SafetyContext {
+  shell?: ShellType
+  platform?: PlatformType
+  /** Directory the command will run in; relative paths are resolved against it */
+  cwd?: string
+  /** Remembered approvals that may suppress confirmation for non-critical commands */
+  approvals?: CommandApproval[]
+}
+
+interface ActiveRule extends SafetyRule {
+  severity: Severity
+}
+
+interface AnalysisEnv {
+  rules: Record<ShellDialect, ActiveRule[]>
+  protectedPaths: ProtectedPath[]
+  cwd: string
+  /** PowerShell defines rm/ls/cp/... aliases only on Windows */
+  windowsAliases: boolean
+}
+
+/** Where a nested command string came from, relative to the command that contains it */
+interface NestingContext {
+  /** Labels of the enclosing commands, outermost first, e.g. ["bash -c", "eval"] */
+  path: string[]
+  /** The enclosing command ran through sudo/doas */
+  elevated: boolean
+  /** Output of this command string is itself executed (e.g. `eval "$(...)"`) */
+  executesOutput: boolean
+  dialect: ShellDialect
+}
+
+interface NestedCommand {
+  label: string
+  source: string
+  executesOutput?: boolean
+  /** Shell that runs the nested string, when it differs from the enclosing one */
+  dialect?: ShellDialect
+}
+
+// Nested strings deeper than this are reported instead of analyzed
+const MAX_NESTING_DEPTH = 5
+
+export function analyzeCommand(command: string, config: Config, context: SafetyContext = {}): SafetyAnalysis {
   const normalizedCommand = command.toLowerCase().trim()
 
   // Check blocked commands first
@@ -69,76 +321,1256 @@ export function analyzeCommand(command: string, config: Config): SafetyAnalysis
         severity: "critical",
         reason: `Command contains blocked pattern: ${blocked}`,
         patterns: [blocked],
+        findings: [{ severity: "critical", description: `blocked pattern: ${blocked}`, segment: command.trim() }],
       }
     }
   }
 
-  const matchedPatterns: string[] = []
-  let highestSeverity: SafetyAnalysis["severity"] = "low"
+  const cwd = context.cwd ?? process.cwd()
+  const dialect = getDialect(context.shell)
+  const customRules = config.safetyRules ?? []
+  const env: AnalysisEnv = {
+    rules: {
+      posix: buildRules(customRules, context, "posix"),
+      powershell: buildRules(customRules, context, "powershell"),
+      cmd: buildRules(customRules, context, "cmd"),
+    },
+    protectedPaths: compileProtectedPaths(mergeProtectedPaths(config.protectedPaths), cwd),
+    cwd,
+    windowsAliases: hasWindowsAliases(context.platform),
+  }
+
+  // The same segment can be reached by more than one route (eval "$(...)"); keep the shallowest
+  const unique = new Map<string, SafetyFinding>()
+  for (const finding of collectFindings(command, env, { path: [], elevated: false, executesOutput: false, dialect })) {
+    const key = `${finding.description}\0${finding.segment}`
+    const existing = unique.get(key)
+    if (!existing || (finding.path?.length ?? 0) < (existing.path?.length ?? 0)) unique.set(key, finding)
+  }
+  let findings = [...unique.values()]
+
+  // Low findings are only reported when nothing more serious matched
+  if (findings.some((f) => f.severity !== "low")) {
+    findings = findings.filter((f) => f.severity !== "low")
+  }
+
+  const highestSeverity = findings.reduce<Severity>((highest, f) => (SEVERITY_RANK[f.severity] > SEVERITY_RANK[highest] ? f.severity : highest), "low")
+
+  let isDangerous = exceedsSafetyLevel(highestSeverity, findings.length, config.safetyLevel)
+
+  // Scoped approvals never cover critical commands
+  const approval = isDangerous && highestSeverity !== "critical" && context.approvals ? findApproval(command, cwd, context.approvals) : undefined
+  if (approval) {
+    isDangerous = false
+  }
+
+  return {
+    isDangerous,
+    severity: highestSeverity,
+    reason: isDangerous ? getSeverityMessage(highestSeverity) : undefined,
+    patterns: findings.map((f) => f.description),
+    findings,
+    approval,
+  }
+}
+
+/**
+ * What a flagged command would touch on disk. This walks the filesystem, so
+ * it is computed only where the preview is shown, not in analyzeCommand.
+ */
+export function estimateCommandImpact(command: string, analysis: SafetyAnalysis, context: SafetyContext = {}): ImpactSummary | undefined {
+  // Only POSIX paths and globs are expanded; Windows shells get no preview
+  if (analysis.findings.length === 0 || getDialect(context.shell) !== "posix") return undefined
+  return estimateImpact(parseShellCommand(command), context.cwd ?? process.cwd())
+}
+
+function hasWindowsAliases(platform?: PlatformType): boolean {
+  return platform !== "linux" && platform !== "macos"
+}
+
+/**
+ * Split a command into the simple commands the shell would run and attach
+ * each finding to the commands it concerns: pipeline-wide findings go to
+ * every command in the pipeline, nested ones (bash -c "...") to the command
+ * that contains them. Findings that fit no single command are returned in `rest`.
+ */
+export function annotateSegments(command: string, analysis: SafetyAnalysis, context: SafetyContext = {}): { segments: { text: string; findings: SafetyFinding[] }[]; rest: SafetyFinding[] } {
+  const parsed = parseCommand(command, getDialect(context.shell), hasWindowsAliases(context.platform))
+  const segments = parsed.commands.map((c) => ({ text: c.text.trim(), findings: [] as SafetyFinding[] })).filter((s) => s.text)
+
+  // Blocked patterns and reviews name the whole command; they belong to no single part
+  const pipelines = new Set(parsed.pipelines.map((p) => p.text))
+  const spansCommand = (finding: SafetyFinding) => finding.segment === command.trim() && !pipelines.has(finding.segment)
+
+  const rest: SafetyFinding[] = []
+  for (const finding of analysis.findings) {
+    const matches = segments.filter((s) => s.text.includes(finding.segment) || (!spansCommand(finding) && finding.segment.includes(s.text)))
+    if (matches.length === 0) {
+      rest.push(finding)
+    }
+    for (const segment of matches) {
+      segment.findings.push(finding)
+    }
+  }
+
+  return { segments, rest }
+}
+
+/** Whether a result at this severity needs confirmation under the configured safety level */
+function exceedsSafetyLevel(severity: Severity, findingCount: number, level: Config["safetyLevel"]): boolean {
+  if (level === "strict") return findingCount > 0
+  if (level === "moderate") return severity === "critical" || severity === "high"
+  return severity === "critical"
+}
+
+/**
+ * Merge a model's second opinion into a rule-based analysis. A review rated
+ * above the rules raises the severity and may require confirmation; one rated
+ * at or below it is kept for display but changes nothing.
+ */
+export function applyReview(analysis: SafetyAnalysis, review: SafetyReview, config: Config, command: string): SafetyAnalysis {
+  if (SEVERITY_RANK[review.severity] <= SEVERITY_RANK[analysis.severity]) {
+    return { ...analysis, review }
+  }
+
+  const finding: SafetyFinding = { severity: review.severity, description: `rated ${review.severity} by safety review`, segment: command.trim() }
+  // Low findings are dropped once anything more serious is present, as in analyzeCommand
+  const findings = [...analysis.findings.filter((f) => f.severity !== "low"), finding]
+  let isDangerous = analysis.isDangerous || exceedsSafetyLevel(review.severity, findings.length, config.safetyLevel)
 
-  // Check critical patterns
-  for (const pattern of CRITICAL_PATTERNS) {
-    if (pattern.test(normalizedCommand)) {
-      matchedPatterns.push(pattern.source)
-      highestSeverity = "critical"
+  // Scoped approvals still apply below critical
+  const approval = review.severity === "critical" ? undefined : analysis.approval
+  if (approval) {
+    isDangerous = false
+  }
+
+  return {
+    ...analysis,
+    isDangerous,
+    severity: review.severity,
+    reason: isDangerous ? getSeverityMessage(review.severity) : undefined,
+    patterns: findings.map((f) => f.description),
+    findings,
+    approval,
+    review,
+  }
+}
+
+/**
+ * Analyze a command string, then recurse into every command string it runs
+ * indirectly: substitutions, eval, `sh -c`, heredocs and echoed scripts fed to a shell, xargs,
+ * find -exec, shell-outs from inline interpreter code and decodable payloads.
+ */
+function collectFindings(source: string, env: AnalysisEnv, nesting: NestingContext): SafetyFinding[] {
+  const parsed = parseCommand(source, nesting.dialect, env.windowsAliases)
+  const findings = [
+    ...evaluateRules(parsed, env.rules[nesting.dialect], nesting.elevated),
+    ...findProtectedPathTargets(parsed, env.protectedPaths, env.cwd),
+    ...findDecodedPayloads(parsed, nesting.executesOutput),
+    ...findSecretExfiltration(parsed),
+  ]
+
+  const nested: { inv: Invocation; command: NestedCommand }[] = []
+  for (const command of parsed.commands) {
+    const inv = resolveInvocation(command)
+    nested.push(...getNestedCommands(inv, nesting.dialect).map((n) => ({ inv, command: n })))
+  }
+  nested.push(...getDecodedPayloads(parsed, nesting.executesOutput).map(({ inv, payload }) => ({ inv, command: payload })))
+  nested.push(...getPipedScripts(parsed))
+
+  for (const { inv, command } of nested) {
+    const path = [...nesting.path, command.label]
+    if (path.length > MAX_NESTING_DEPTH) {
+      findings.push({ severity: "high", description: "command nested too deeply to analyze", segment: inv.command.text.trim() })
+      continue
     }
+    findings.push(
+      ...collectFindings(command.source, env, {
+        path,
+        elevated: nesting.elevated || inv.elevated,
+        executesOutput: Boolean(command.executesOutput),
+        dialect: command.dialect ?? nesting.dialect,
+      }),
+    )
   }
 
-  // Check high patterns
-  if (highestSeverity !== "critical") {
-    for (const pattern of HIGH_PATTERNS) {
-      if (pattern.test(normalizedCommand)) {
-        matchedPatterns.push(pattern.source)
-        highestSeverity = "high"
+  return nesting.path.length > 0 ? findings.map((f) => (f.path ? f : { ...f, path: nesting.path })) : findings
+}
+
+function getDialect(shell?: ShellType): ShellDialect {
+  if (shell === "powershell" || shell === "pwsh") return "powershell"
+  if (shell === "cmd") return "cmd"
+  return "posix"
+}
+
+function parseCommand(source: string, dialect: ShellDialect, windowsAliases: boolean): ParsedCommand {
+  switch (dialect) {
+    case "powershell":
+      return parsePowerShellCommand(source, { windowsAliases })
+    case "cmd":
+      return parseCmdCommand(source)
+    case "posix":
+      return parseShellCommand(source)
+  }
+}
+
+/**
+ * Merge user-defined rules from config with the built-in tables.
+ * A custom rule whose id matches a built-in replaces it; the rest are appended.
+ */
+function buildRules(customRules: CustomSafetyRule[], context: SafetyContext, dialect: ShellDialect): ActiveRule[] {
+  const rules: ActiveRule[] = DIALECT_RULE_TABLES[dialect].flatMap(([severity, table]) => table.map((rule) => ({ ...rule, severity })))
+
+  for (const custom of customRules) {
+    if (!isInScope(custom, context)) continue
+
+    const index = custom.id ? rules.findIndex((r) => r.id === custom.id) : -1
+    if (custom.disabled) {
+      if (index >= 0) rules.splice(index, 1)
+      continue
+    }
+    if (!(custom.severity in SEVERITY_RANK)) continue
+
+    const test = compileMatcher(custom)
+    if (index >= 0) {
+      // Overriding a built-in keeps its matcher unless the custom rule brings its own
+      const builtIn = rules[index]
+      rules[index] = {
+        ...builtIn,
+        severity: custom.severity,
+        description: custom.reason || builtIn.description,
+        ...(test ? { test, pipeline: false } : {}),
       }
+    } else if (test) {
+      rules.push({ id: custom.id ?? `custom-${rules.length}`, description: custom.reason, severity: custom.severity, test })
     }
   }
 
-  // Check medium patterns
-  for (const pattern of MEDIUM_PATTERNS) {
-    if (pattern.test(normalizedCommand)) {
-      matchedPatterns.push(pattern.source)
-      if (highestSeverity === "low") {
-        highestSeverity = "medium"
+  return rules
+}
+
+function isInScope(rule: CustomSafetyRule, context: SafetyContext): boolean {
+  // Unknown environment: apply the rule rather than silently skipping it
+  if (rule.scope?.platform && context.platform && !rule.scope.platform.includes(context.platform)) return false
+  if (rule.scope?.shell && context.shell && !rule.scope.shell.includes(context.shell)) return false
+  return true
+}
+
+function compileMatcher(rule: CustomSafetyRule): SafetyRule["test"] | null {
+  if (rule.argv && rule.argv.length > 0) {
+    const [program, ...rest] = rule.argv.map((p) => p.toLowerCase())
+    return (inv) => globMatch(program, inv.program) && matchesInOrder(rest, inv.args.map((a) => a.toLowerCase()))
+  }
+  if (rule.regex) {
+    let regex: RegExp
+    try {
+      regex = new RegExp(rule.regex, "i")
+    } catch {
+      return null
+    }
+    return (inv) => regex.test(inv.command.text)
+  }
+  if (rule.substring) {
+    const needle = rule.substring.toLowerCase()
+    return (inv) => inv.command.text.toLowerCase().includes(needle)
+  }
+  return null
+}
+
+/** Every pattern must match some argument, in order, with anything in between */
+function matchesInOrder(patterns: string[], args: string[]): boolean {
+  let cursor = 0
+  for (const pattern of patterns) {
+    while (cursor < args.length && !globMatch(pattern, args[cursor])) cursor++
+    if (cursor >= args.length) return false
+    cursor++
+  }
+  return true
+}
+
+function globMatch(pattern: string, value: string): boolean {
+  if (!pattern.includes("*")) return pattern === value
+  const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")
+  return new RegExp(`^${source}$`).test(value)
+}
+
+/**
+ * Run every rule against each simple command of the parsed command line.
+ * Quoted arguments are data, so `echo "rm -rf /"` never matches an rm rule.
+ */
+function evaluateRules(parsed: ParsedCommand, rules: ActiveRule[], elevated = false): SafetyFinding[] {
+  const findings: SafetyFinding[] = []
+  const seen = new Set<string>()
+  // A function body is also listed inside the definition's pipeline (`:(){ :|:& }`); report each command once per rule
+  const matched = new Map<string, Set<SimpleCommand>>()
+
+  for (const pipeline of parsed.pipelines) {
+    const invocations = pipeline.commands.map((command) => {
+      const inv = resolveInvocation(command)
+      return elevated ? { ...inv, elevated } : inv
+    })
+    invocations.forEach((inv, position) => {
+      for (const rule of rules) {
+        if (!rule.test(inv, { pipeline: invocations, position })) continue
+
+        const segment = rule.pipeline ? pipeline.text : inv.command.text.trim()
+        const key = `${rule.id}\0${segment}`
+        const commands = matched.get(rule.id) ?? new Set<SimpleCommand>()
+        if (seen.has(key) || commands.has(inv.command)) continue
+        seen.add(key)
+        for (const command of rule.pipeline ? pipeline.commands : [inv.command]) commands.add(command)
+        matched.set(rule.id, commands)
+        const target = getCloudTarget(inv)
+        findings.push({ severity: rule.severity, description: target ? `${rule.description} (${target})` : rule.description, segment })
       }
+    })
+  }
+
+  return findings
+}
+
+/** Command strings an invocation runs indirectly */
+function getNestedCommands(inv: Invocation, dialect: ShellDialect): NestedCommand[] {
+  const nested: NestedCommand[] = []
+  // `eval "$(...)"` and `sh -c "$(...)"` execute the substitution's output
+  const runsArguments = inv.program === "eval" || inv.program === "source" || inv.program === "." || getShellCommandString(inv) !== undefined
+  const programWord = inv.command.rawArgv[inv.command.argv.length - inv.args.length - 1] ?? ""
+
+  for (const body of inv.command.substitutions) {
+    nested.push({ label: dialect === "powershell" ? "script block" : "$(...)", source: body, executesOutput: runsArguments || programWord.includes(body) })
+  }
+
+  if (inv.program === "invoke-expression" && inv.args.length > 0) {
+    nested.push({ label: "Invoke-Expression", source: inv.args.join(" "), dialect: "powershell" })
+  }
+
+  const powershellCommand = getPowerShellCommand(inv)
+  if (powershellCommand) {
+    nested.push({ label: `${inv.program} ${powershellCommand.encoded ? "-EncodedCommand" : "-Command"}`, source: powershellCommand.source, dialect: "powershell" })
+  }
+
+  // cmd /c and /k run the rest of the line
+  if (inv.program === "cmd") {
+    const index = inv.args.findIndex((a) => /^\/[ck]$/i.test(a))
+    if (index >= 0 && index + 1 < inv.args.length) nested.push({ label: "cmd /c", source: inv.args.slice(index + 1).join(" "), dialect: "cmd" })
+  }
+
+  if (inv.program === "eval" && inv.args.length > 0) {
+    nested.push({ label: "eval", source: inv.args.join(" ") })
+  }
+
+  const shellCommand = getShellCommandString(inv)
+  if (shellCommand !== undefined) {
+    nested.push({ label: `${inv.program} -c`, source: shellCommand })
+  } else if (readsScriptFromStdin(inv)) {
+    for (const redirect of inv.command.redirects) {
+      if (redirect.heredoc !== undefined) nested.push({ label: `${inv.program} ${redirect.op}`, source: redirect.heredoc })
+      else if (redirect.op === "<<<") nested.push({ label: `${inv.program} <<<`, source: redirect.target })
+    }
+  }
+
+  if (inv.program === "xargs") {
+    const command = getXargsCommand(inv.args)
+    if (command.length > 0) nested.push({ label: "xargs", source: command.map(quoteWord).join(" ") })
+  }
+
+  if (inv.program === "find") {
+    for (let i = 0; i < inv.args.length; i++) {
+      if (!FILE_EXEC_ACTIONS.includes(inv.args[i])) continue
+      const end = inv.args.findIndex((a, j) => j > i && (a === ";" || a === "+"))
+      const command = inv.args.slice(i + 1, end === -1 ? undefined : end)
+      if (command.length > 0) nested.push({ label: `find ${inv.args[i]}`, source: command.map(quoteWord).join(" ") })
+      if (end === -1) break
+      i = end
+    }
+  }
+
+  const inline = getInlineCode(inv)
+  if (inline) {
+    for (const source of getShellOuts(inline.code)) {
+      nested.push({ label: `${inv.program} ${inline.flag}`, source })
+    }
+  }
+
+  return nested
+}
+
+/** The string passed to `sh -c` (or bash, zsh, ...), if any */
+function getShellCommandString(inv: Invocation): string | undefined {
+  if (!SHELLS.includes(inv.program)) return undefined
+  for (let i = 0; i < inv.args.length; i++) {
+    const arg = inv.args[i]
+    if (["-o", "+o", "-O", "+O"].includes(arg)) {
+      i++
+      continue
+    }
+    if (arg === "--" || !/^[-+]/.test(arg)) return undefined
+    if (arg.startsWith("-") && !arg.startsWith("--") && arg.slice(1).includes("c")) return inv.args[i + 1]
+  }
+  return undefined
+}
+
+/**
+ * Whether the invocation runs the output of a `$(...)` or `<(...)` that
+ * downloads something: `eval "$(curl ...)"`, `sh -c "$(curl ...)"`, `source <(curl ...)`
+ */
+function executesDownload(inv: Invocation): boolean {
+  let executed: string | undefined
+  if (inv.program === "eval") executed = inv.args.join(" ")
+  else if (inv.program === "source" || inv.program === ".") executed = operands(inv.args)[0]
+  else if (SHELLS.includes(inv.program)) executed = getShellCommandString(inv) ?? operands(inv.args)[0]
+  if (!executed) return false
+
+  const script = executed
+  return inv.command.substitutions.some((body) => script.includes(body) && parseShellCommand(body).commands.some((c) => NETWORK_FETCHERS.includes(resolveInvocation(c).program)))
+}
+
+/** A shell with no script operand runs whatever arrives on stdin */
+function readsScriptFromStdin(inv: Invocation): boolean {
+  if (!SHELLS.includes(inv.program) || getShellCommandString(inv) !== undefined) return false
+  return operands(inv.args).length === 0 || hasFlag(inv.args, "s")
+}
+
+const XARGS_OPTIONS_WITH_VALUE = ["-I", "-L", "-n", "-P", "-s", "-d", "-E", "-a"]
+
+/** The command xargs runs (echo when none is given) */
+function getXargsCommand(args: string[]): string[] {
+  let i = 0
+  while (i < args.length && args[i].startsWith("-")) {
+    if (args[i] === "--") {
+      i++
+      break
     }
+    i += XARGS_OPTIONS_WITH_VALUE.includes(args[i]) ? 2 : 1
   }
+  return args.slice(i)
+}
+
+// Flags that take a program as a string, by interpreter
+const INLINE_CODE_FLAGS: Record<string, string[]> = {
+  python: ["-c"],
+  pypy: ["-c"],
+  node: ["-e", "--eval", "-p", "--print"],
+  nodejs: ["-e", "--eval", "-p", "--print"],
+  bun: ["-e", "--eval", "-p", "--print"],
+  deno: ["eval"],
+  perl: ["-e", "-E"],
+  ruby: ["-e"],
+  php: ["-r"],
+}
+
+const INLINE_DELETE =
+  /\b(os\.(remove|unlink|rmdir|removedirs)|shutil\.rmtree|unlink(Sync)?|rmdir(Sync)?|rmSync|rimraf|rm_rf?|remove_dir|File\.delete|Dir\.delete)\b|\bfs(\.promises)?\.rm\b/
+const INLINE_NETWORK =
+  /urllib|\brequests\.(get|post|put|patch|delete|head|request)\b|http\.client|httplib|\bsocket\b|\bfetch\s*\(|\bhttps?\.(get|request)\b|\bnet\.(connect|createConnection)\b|XMLHttpRequest|LWP::|IO::Socket|HTTP::Tiny|Net::HTTP|open-uri|\bcurl_exec\b|\bfsockopen\b|https?:\/\//
+// First argument of calls that hand a string (or list of strings) to the shell
+const SHELL_OUT_CALL =
+  /\b(?:os\.system|os\.popen|subprocess\.[a-z_]+|execSync|execFileSync|spawnSync|exec|system|popen|shell_exec|passthru)\s*\(\s*(\[[^\]]*\]|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')/g
+const STRING_LITERAL = /"((?:\\.|[^"\\])*)"|'((?:\\.|[^'\\])*)'/g
 
-  // Check low patterns (only if nothing else matched)
-  if (matchedPatterns.length === 0) {
-    for (const pattern of LOW_PATTERNS) {
-      if (pattern.test(normalizedCommand)) {
-        matchedPatterns.push(pattern.source)
+/** Program text passed to python -c, node -e, perl -e and friends */
+function getInlineCode(inv: Invocation): { flag: string; code: string } | undefined {
+  const interpreter = inv.program.replace(/[\d.]+$/, "")
+  const flags = INLINE_CODE_FLAGS[interpreter]
+  if (!flags) return undefined
+
+  for (let i = 0; i < inv.args.length; i++) {
+    const arg = inv.args[i]
+    // perl and ruby allow clusters like -ne / -pie
+    const clustered = (interpreter === "perl" || interpreter === "ruby") && /^-[a-zA-Z]*[eE]$/.test(arg)
+    if ((flags.includes(arg) || clustered) && i + 1 < inv.args.length) return { flag: arg, code: inv.args[i + 1] }
+  }
+  return undefined
+}
+
+/** Shell command strings that inline code hands to system(), subprocess, execSync, ... */
+function getShellOuts(code: string): string[] {
+  const commands: string[] = []
+  for (const match of code.matchAll(SHELL_OUT_CALL)) {
+    const literals = [...match[1].matchAll(STRING_LITERAL)].map((m) => (m[1] ?? m[2]).replace(/\\(.)/g, "$1"))
+    // A list is an argv vector; a single string is parsed by the shell
+    commands.push(match[1].startsWith("[") ? literals.map(quoteWord).join(" ") : literals.join(""))
+  }
+  return commands.filter((c) => c.trim())
+}
+
+// Decoders whose output is commonly piped into a shell to hide the real command
+function getDecoder(inv: Invocation): "base64" | "hex" | undefined {
+  if (inv.program === "base64" && (hasFlag(inv.args, "d", "decode") || hasFlag(inv.args, "D"))) return "base64"
+  if (inv.program === "openssl" && operands(inv.args).some((a) => a === "base64" || a === "enc") && hasFlag(inv.args, "d")) return "base64"
+  if (inv.program === "xxd" && hasFlag(inv.args, "r")) return "hex"
+  return undefined
+}
+
+/** Decoders whose output is run by a later shell in the pipeline, or by an enclosing eval / sh -c */
+function findExecutedDecoders(parsed: ParsedCommand, executesOutput: boolean): { inv: Invocation; previous?: Invocation; decoder: "base64" | "hex"; pipelineText: string }[] {
+  const result: { inv: Invocation; previous?: Invocation; decoder: "base64" | "hex"; pipelineText: string }[] = []
+  for (const pipeline of parsed.pipelines) {
+    const invocations = pipeline.commands.map(resolveInvocation)
+    invocations.forEach((inv, position) => {
+      const decoder = getDecoder(inv)
+      if (!decoder) return
+      if (!executesOutput && !invocations.slice(position + 1).some(readsScriptFromStdin)) return
+      result.push({ inv, previous: invocations[position - 1], decoder, pipelineText: pipeline.text })
+    })
+  }
+  return result
+}
+
+function findDecodedPayloads(parsed: ParsedCommand, executesOutput: boolean): SafetyFinding[] {
+  return findExecutedDecoders(parsed, executesOutput).map(({ pipelineText }) => ({ severity: "high", description: "executes a decoded payload", segment: pipelineText }))
+}
+
+/** Decode literal payloads (`echo <base64> | base64 -d | sh`) so their contents can be analyzed */
+function getDecodedPayloads(parsed: ParsedCommand, executesOutput: boolean): { inv: Invocation; payload: NestedCommand }[] {
+  const payloads: { inv: Invocation; payload: NestedCommand }[] = []
+  for (const { inv, previous, decoder } of findExecutedDecoders(parsed, executesOutput)) {
+    let encoded: string | undefined
+    const hereString = inv.command.redirects.find((r) => r.op === "<<<" || r.heredoc !== undefined)
+    if (hereString) {
+      encoded = hereString.heredoc ?? hereString.target
+    } else if (previous && (previous.program === "echo" || previous.program === "printf")) {
+      encoded = operands(previous.args).pop()
+    }
+    if (!encoded) continue
+
+    const decoded = decodePayload(encoded, decoder)
+    if (decoded) payloads.push({ inv, payload: { label: decoder === "base64" ? "base64 -d" : "xxd -r", source: decoded } })
+  }
+  return payloads
+}
+
+/**
+ * Literal scripts written into a shell's stdin by the command before it:
+ * `echo "rm -rf /" | sh`, `printf '...' | bash`, `cat <<EOF | sh`
+ */
+function getPipedScripts(parsed: ParsedCommand): { inv: Invocation; command: NestedCommand }[] {
+  const scripts: { inv: Invocation; command: NestedCommand }[] = []
+  for (const pipeline of parsed.pipelines) {
+    const invocations = pipeline.commands.map(resolveInvocation)
+    invocations.forEach((inv, position) => {
+      const previous = invocations[position - 1]
+      if (!previous || !readsScriptFromStdin(inv)) return
+      const source = getWrittenText(previous)
+      if (source?.trim()) scripts.push({ inv, command: { label: `${previous.program} | ${inv.program}`, source } })
+    })
+  }
+  return scripts
+}
+
+/** Text that echo, printf or cat (of a heredoc or here-string) writes to stdout */
+function getWrittenText(inv: Invocation): string | undefined {
+  if (inv.program === "cat" && operands(inv.args).length === 0) {
+    const input = inv.command.redirects.find((r) => r.op === "<<<" || r.heredoc !== undefined)
+    return input && (input.heredoc ?? input.target)
+  }
+  if (inv.program === "echo") {
+    const text = operands(inv.args).join(" ")
+    return hasFlag(inv.args, "e") ? unescapeOutput(text) : text
+  }
+  if (inv.program === "printf") {
+    // The format string alone; %s placeholders stay as written
+    return unescapeOutput(operands(inv.args)[0] ?? "")
+  }
+  return undefined
+}
+
+function unescapeOutput(text: string): string {
+  return text.replace(/\\n/g, "\n").replace(/\\t/g, "\t")
+}
+
+function decodePayload(encoded: string, decoder: "base64" | "hex"): string | undefined {
+  const compact = encoded.replace(/\s+/g, "")
+  if (decoder === "base64" && !/^[A-Za-z0-9+/_-]+=*$/.test(compact)) return undefined
+  if (decoder === "hex" && !/^([0-9a-fA-F]{2})+$/.test(compact)) return undefined
+
+  const decoded = Buffer.from(compact, decoder === "base64" ? "base64" : "hex").toString("utf-8")
+  // Binary output is not a shell script
+  return /^[\P{C}\t\n\r]*$/u.test(decoded) ? decoded : undefined
+}
+
+/** Quote a word so it survives re-parsing as part of a command string */
+function quoteWord(word: string): string {
+  return /^[\w@%+=:,./{}-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`
+}
+
+interface SecretSource {
+  label: string
+  severity: Severity
+}
+
+// Files that hold credentials or keys; matched against paths as written
+const SECRET_FILES = [
+  /(^|\/)\.ssh(\/|$)/,
+  /(^|\/)\.gnupg(\/|$)/,
+  /(^|\/)\.aws\/(credentials|config)$/,
+  /(^|\/)\.kube\/config$/,
+  /(^|\/)\.config\/gcloud(\/|$)/,
+  /(^|\/)\.azure(\/|$)/,
+  /(^|\/)\.docker\/config\.json$/,
+  /(^|\/)\.(netrc|npmrc|pypirc|pgpass|git-credentials)$/,
+  /(^|\/)\.env(\.[\w.-]+)?$/,
+  /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/,
+  /\.(pem|key|p12|pfx)$/,
+  /^\/etc\/(shadow|gshadow|sudoers)$/,
+]
+
+// Subcommands (in order) that print stored secrets, by program
+const SECRET_COMMANDS: Record<string, string[][]> = {
+  security: [["find-generic-password"], ["find-internet-password"], ["dump-keychain"]],
+  "secret-tool": [["lookup"]],
+  pass: [["show"]],
+  op: [["read"], ["item", "get"], ["inject"]],
+  bw: [["get"]],
+  aws: [["configure", "get"], ["secretsmanager", "get-secret-value"], ["ssm", "get-parameter"], ["sts", "get-session-token"]],
+  gh: [["auth", "token"]],
+  gcloud: [["auth", "print-access-token"], ["auth", "print-identity-token"]],
+  kubectl: [["get", "secret"], ["get", "secrets"]],
+  vault: [["read"], ["kv", "get"]],
+  az: [["keyvault", "secret", "show"]],
+}
+
+// Programs that send data off-box
+const NETWORK_SINKS = ["curl", "wget", "http", "https", "nc", "ncat", "netcat", "socat", "telnet", "ssh", "scp", "sftp", "ftp", "rsync", "mail", "mailx", "sendmail", "mutt", "dig", "nslookup", "host", "drill"]
+// Sinks that send whatever arrives on stdin
+const STDIN_SINKS = ["http", "https", "nc", "ncat", "netcat", "socat", "telnet", "ssh", "sftp", "ftp", "mail", "mailx", "sendmail", "mutt"]
+// ssh-family options whose value is a local file that is not sent (e.g. -i identity)
+const SSH_OPTIONS_WITH_VALUE = ["-i", "-F", "-o", "-J", "-P", "-p", "-S", "-c", "-l", "-e"]
+
+/**
+ * Flag commands that read credentials and send them off-box: a secret source
+ * piped into a network sink, or a sink given a secret file or `$(secret)` as an argument.
+ */
+function findSecretExfiltration(parsed: ParsedCommand): SafetyFinding[] {
+  const findings: SafetyFinding[] = []
+
+  for (const pipeline of parsed.pipelines) {
+    const invocations = pipeline.commands.map(resolveInvocation)
+    invocations.forEach((inv, position) => {
+      if (!NETWORK_SINKS.includes(inv.program)) return
+
+      const direct = getSinkArgumentSource(inv)
+      if (direct) {
+        findings.push({ severity: direct.severity, description: `${direct.label} sent off-box via ${inv.program}`, segment: inv.command.text.trim() })
+        return
       }
+
+      if (!sinkReadsStdin(inv)) return
+      const upstream = invocations.slice(0, position).map(getSecretSource).find((source) => source !== undefined)
+      if (upstream) {
+        findings.push({ severity: upstream.severity, description: `${upstream.label} piped off-box via ${inv.program}`, segment: pipeline.text })
+      }
+    })
+  }
+
+  return findings
+}
+
+/** What secret an invocation reads: a secret file operand or input redirect, the environment, or a keychain CLI */
+function getSecretSource(inv: Invocation): SecretSource | undefined {
+  const file = [...operands(inv.args), ...inv.command.redirects.filter((r) => r.op === "<").map((r) => r.target)].find(isSecretFile)
+  if (file) return { label: file, severity: "critical" }
+
+  // A bare `env` is peeled off as a wrapper, leaving no program
+  const dumpsEnvironment =
+    inv.program === "printenv" ||
+    (inv.program === "" && basename(inv.command.argv[0] ?? "") === "env") ||
+    (inv.program === "export" && hasFlag(inv.args, "p")) ||
+    (inv.program === "declare" && (hasFlag(inv.args, "x") || hasFlag(inv.args, "p"))) ||
+    (inv.program === "set" && inv.args.length === 0)
+  if (dumpsEnvironment) return { label: "environment variables", severity: "critical" }
+
+  const args = operands(inv.args)
+  const readsSecretStore =
+    SECRET_COMMANDS[inv.program]?.some((subcommand) => matchesInOrder(subcommand, args)) ||
+    ((inv.program === "gpg" || inv.program === "gpg2") && (hasFlag(inv.args, "d", "decrypt") || hasFlag(inv.args, "", "export-secret-keys")))
+  if (readsSecretStore) return { label: `secrets from ${inv.program}`, severity: "high" }
+
+  return undefined
+}
+
+/** A secret handed to a sink directly: upload file arguments or `$(...)` that reads a secret */
+function getSinkArgumentSource(inv: Invocation): SecretSource | undefined {
+  for (const path of getUploadedFiles(inv)) {
+    if (isSecretFile(path)) return { label: path, severity: "critical" }
+  }
+
+  for (const body of inv.command.substitutions) {
+    const source = parseShellCommand(body).commands.map(resolveInvocation).map(getSecretSource).find((s) => s !== undefined)
+    if (source) return source
+  }
+
+  return undefined
+}
+
+/** Local files a sink sends */
+function getUploadedFiles(inv: Invocation): string[] {
+  const files = sinkReadsStdin(inv) ? inv.command.redirects.filter((r) => r.op === "<").map((r) => r.target) : []
+
+  switch (inv.program) {
+    case "curl":
+      inv.args.forEach((arg, i) => {
+        // -d @file, --data-binary @file, -F name=@file;type=...
+        const at = arg.match(/(?:^|=)@([^;]+)/)
+        if (at && at[1] !== "-") files.push(at[1])
+        if ((arg === "-T" || arg === "--upload-file") && inv.args[i + 1]) files.push(inv.args[i + 1])
+      })
+      break
+    case "wget":
+      inv.args.forEach((arg, i) => {
+        const match = arg.match(/^--(post|body)-file(?:=(.*))?$/)
+        if (match) files.push(match[2] ?? inv.args[i + 1] ?? "")
+      })
+      break
+    case "scp":
+    case "sftp":
+    case "rsync": {
+      // Only uploads: local sources followed by a remote destination
+      const args = operands(skipOptionValues(inv.args, SSH_OPTIONS_WITH_VALUE))
+      if (args.length > 1 && isRemotePath(args[args.length - 1])) files.push(...args.slice(0, -1).filter((a) => !isRemotePath(a)))
+      break
     }
   }
 
-  // Determine if dangerous based on safety level
-  let isDangerous = false
-  if (config.safetyLevel === "strict") {
-    isDangerous = matchedPatterns.length > 0
-  } else if (config.safetyLevel === "moderate") {
-    isDangerous = highestSeverity === "critical" || highestSeverity === "high"
-  } else {
-    // relaxed
-    isDangerous = highestSeverity === "critical"
+  return files
+}
+
+function sinkReadsStdin(inv: Invocation): boolean {
+  if (STDIN_SINKS.includes(inv.program)) return true
+  // curl -d @- / --data-binary @- / -F f=@- / -T -
+  if (inv.program === "curl") return inv.args.some((arg, i) => /(^|=)@-$/.test(arg) || ((arg === "-T" || arg === "--upload-file") && inv.args[i + 1] === "-"))
+  return false
+}
+
+function isSecretFile(path: string): boolean {
+  return SECRET_FILES.some((pattern) => pattern.test(path))
+}
+
+/** host:path, user@host:path or rsync://host/path */
+function isRemotePath(arg: string): boolean {
+  return /^[^/:]+:/.test(arg) || arg.startsWith("rsync://")
+}
+
+function skipOptionValues(args: string[], optionsWithValue: string[]): string[] {
+  return args.filter((_, i) => !(i > 0 && optionsWithValue.includes(args[i - 1])))
+}
+
+type PathOperation = "write" | "delete" | "move" | "permissions"
+
+const OPERATION_LABELS: Record<PathOperation, string> = {
+  write: "writes to",
+  delete: "deletes",
+  move: "moves",
+  permissions: "changes permissions of",
+}
+
+/**
+ * Flag writes, deletes, moves and permission changes that touch a protected path.
+ * Commands are walked in order so a preceding `cd` changes how relative targets resolve.
+ */
+function findProtectedPathTargets(parsed: ParsedCommand, protectedPaths: ProtectedPath[], cwd: string): SafetyFinding[] {
+  if (protectedPaths.length === 0) return []
+
+  const findings: SafetyFinding[] = []
+
+  for (const { inv, cwd: currentCwd } of withWorkingDirectories(parsed, cwd)) {
+    for (const { path, operation } of getPathTargets(inv)) {
+      const resolved = resolveTarget(path, currentCwd)
+      const match = matchProtectedPath(resolved, protectedPaths)
+      if (!match) continue
+      if (match.relation === "inside" && match.path.removalOnly && !removesFrom(match.path, inv, path, operation, currentCwd)) continue
+
+      // Removing a protected directory outright, or a directory containing one, is critical
+      const destructive = operation === "delete" || operation === "move"
+      const wholePath = match.relation !== "inside"
+      const label = match.path.label
+      findings.push({
+        severity: destructive && wholePath ? "critical" : "high",
+        description: match.relation === "ancestor" ? `${OPERATION_LABELS[operation]} a directory containing protected path ${label}` : `${OPERATION_LABELS[operation]} protected path ${label}`,
+        segment: inv.command.text.trim(),
+      })
+      break
+    }
   }
 
-  // Check if user has previously confirmed this pattern
-  const wasConfirmed = config.confirmedDangerousPatterns.some((p) =>
-    normalizedCommand.includes(p.toLowerCase())
-  )
+  return findings
+}
+
+/**
+ * Deleting a directory or glob beneath the protected path (`rm -rf ./src`,
+ * `rm *.ts`), or moving one somewhere outside it. Single files are left out:
+ * removing one inside a repository is everyday work.
+ */
+function removesFrom(protectedPath: ProtectedPath, inv: Invocation, path: string, operation: PathOperation, cwd: string): boolean {
+  const bulk = /[*?[]/.test(path) || hasFlag(inv.args, "r", "recursive") || hasFlag(inv.args, "R") || isDirectory(resolveTarget(path, cwd))
+  if (!bulk) return false
+  if (operation === "delete") return true
+  if (operation !== "move") return false
+  const args = operands(inv.args)
+  const destination = args[args.length - 1]
+  return path !== destination && !protectedPath.regex.test(resolveTarget(destination, cwd))
+}
 
-  if (wasConfirmed && highestSeverity !== "critical") {
-    isDangerous = false
+/** Resolve each command along with the directory it runs in, following `cd` and `pushd` */
+function withWorkingDirectories(parsed: ParsedCommand, cwd: string): { inv: Invocation; cwd: string }[] {
+  const result: { inv: Invocation; cwd: string }[] = []
+  let currentCwd = cwd
+
+  for (const command of parsed.commands) {
+    const inv = resolveInvocation(command)
+    if (inv.program === "cd" || inv.program === "pushd") {
+      const target = operands(inv.args)[0] ?? "~"
+      if (target !== "-") currentCwd = resolveTarget(target, currentCwd)
+      continue
+    }
+    result.push({ inv, cwd: currentCwd })
+  }
+
+  return result
+}
+
+const FIND_DESTRUCTIVE_EXEC = ["rm", "rmdir", "unlink", "shred", "mv", "chmod", "chown", "chgrp"]
+const FIND_TESTS = ["-name", "-iname", "-path", "-ipath", "-wholename", "-type"]
+const FIND_OPTIONS_WITH_VALUE = ["-maxdepth", "-mindepth", "-mtime", "-mmin", "-atime", "-amin", "-ctime", "-cmin", "-size", "-user", "-group", "-perm", "-newer", "-regex", "-iregex", "-uid", "-gid", "-links", "-inum", "-samefile", "-fstype", "-printf", "-fprint"]
+
+/**
+ * Pre-flight what the destructive commands in a command line would touch.
+ * Reads the filesystem only; the one subprocess is `git ls-files` for git clean.
+ */
+function estimateImpact(parsed: ParsedCommand, cwd: string): ImpactSummary | undefined {
+  const { targets, finds, gitCleans } = collectImpactTargets(parsed, cwd)
+  if (targets.length === 0 && finds.length === 0 && gitCleans.length === 0) return undefined
+  return measureImpact(targets, finds, gitCleans, cwd)
+}
+
+/**
+ * Paths a command may modify, resolved before it runs: targets of destructive
+ * file commands plus files written by redirects, cp, tee, sed -i and mv.
+ */
+export function getModifiedPaths(command: string, cwd: string): { paths: AffectedPath[]; truncated: boolean } {
+  const parsed = parseShellCommand(command)
+  const { targets, finds, gitCleans } = collectImpactTargets(parsed, cwd)
+
+  for (const { inv, cwd: commandCwd } of withWorkingDirectories(parsed, cwd)) {
+    const writes = getPathTargets(inv).filter((target) => target.operation === "write").map(({ path }) => path)
+    if (inv.program === "mv") writes.push(...getMoveDestinations(expandableOperands(inv), commandCwd))
+    targets.push(...writes.map((path) => ({ path, cwd: commandCwd, recursive: false })))
+  }
+
+  const { paths, truncated } = resolveAffectedPaths(targets, finds, gitCleans)
+  const unique = new Map<string, AffectedPath>()
+  for (const path of paths) {
+    unique.set(path.path, { path: path.path, recursive: path.recursive || Boolean(unique.get(path.path)?.recursive) })
+  }
+  return { paths: [...unique.values()], truncated }
+}
+
+/** Where mv puts its sources: inside the last operand when that is an existing directory */
+function getMoveDestinations(paths: string[], cwd: string): string[] {
+  if (paths.length < 2) return []
+  const destination = paths[paths.length - 1]
+  if (!isDirectory(resolveTarget(destination, cwd))) return [destination]
+  // Globbed sources cannot be named ahead of time
+  return paths.slice(0, -1).filter((path) => !/[*?[]/.test(path)).map((path) => `${destination.replace(/\/+$/, "")}/${path.replace(/\/+$/, "").split("/").pop()}`)
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+function collectImpactTargets(parsed: ParsedCommand, cwd: string): { targets: ImpactTarget[]; finds: FindImpact[]; gitCleans: GitCleanImpact[] } {
+  const targets: ImpactTarget[] = []
+  const finds: FindImpact[] = []
+  const gitCleans: GitCleanImpact[] = []
+
+  for (const { inv, cwd: commandCwd } of withWorkingDirectories(parsed, cwd)) {
+    const paths = expandableOperands(inv)
+    const recursive = hasFlag(inv.args, "r", "recursive") || hasFlag(inv.args, "R")
+
+    switch (inv.program) {
+      case "rm":
+      case "rmdir":
+      case "unlink":
+      case "shred":
+        targets.push(...paths.map((path) => ({ path, cwd: commandCwd, recursive: inv.program === "rm" && recursive })))
+        break
+      case "mv":
+        // Everything under a moved directory moves with it
+        targets.push(...paths.slice(0, -1).map((path) => ({ path, cwd: commandCwd, recursive: true })))
+        break
+      case "chmod":
+      case "chown":
+      case "chgrp":
+        targets.push(...paths.slice(1).map((path) => ({ path, cwd: commandCwd, recursive: hasFlag(inv.args, "R", "recursive") })))
+        break
+      case "find": {
+        const find = getFindImpact(inv, commandCwd)
+        if (find) finds.push(find)
+        break
+      }
+      case "git":
+        if (isGit(inv, "clean") && !hasFlag(inv.args, "n", "dry-run")) {
+          gitCleans.push({
+            cwd: commandCwd,
+            paths: operands(inv.args).slice(1),
+            directories: hasFlag(inv.args, "d"),
+            ignored: hasFlag(inv.args, "X") ? "only" : hasFlag(inv.args, "x") ? "include" : "exclude",
+          })
+        }
+        break
+    }
+  }
+
+  return { targets, finds, gitCleans }
+}
+
+/**
+ * Operands the shell would glob-expand. Quoted words stay literal, and words
+ * with variables other than a leading $HOME cannot be resolved ahead of time.
+ */
+function expandableOperands(inv: Invocation): string[] {
+  const raw = inv.command.rawArgv.slice(inv.command.argv.length - inv.args.length)
+  const result: string[] = []
+  let afterDoubleDash = false
+
+  inv.args.forEach((arg, i) => {
+    if (!afterDoubleDash && arg === "--") {
+      afterDoubleDash = true
+      return
+    }
+    if (!afterDoubleDash && arg.startsWith("-") && arg !== "-") return
+    if (/\$(?!HOME\b|\{HOME\})/.test(arg) || arg.includes("`")) return
+    result.push(/[*?[]/.test(arg) && /["'\\]/.test(raw[i] ?? "") ? arg.replace(/[*?[]/g, "\\$&") : arg)
+  })
+
+  return result
+}
+
+/** Roots and tests of a find command that deletes or modifies what it matches */
+function getFindImpact(inv: Invocation, cwd: string): FindImpact | undefined {
+  const args = inv.args
+  const destructive = args.some((arg, i) => arg === "-delete" || (FILE_EXEC_ACTIONS.includes(arg) && FIND_DESTRUCTIVE_EXEC.includes(basename(args[i + 1] ?? ""))))
+  if (!destructive) return undefined
+
+  const start = args.findIndex((arg) => arg.startsWith("-") || arg === "(" || arg === "!")
+  const roots = (start === -1 ? args : args.slice(0, start)).filter((root) => !root.includes("$"))
+  const find: FindImpact = { roots, cwd, tests: [] }
+  let conjunction = true
+
+  for (let i = start === -1 ? args.length : start; i < args.length; i++) {
+    const arg = args[i]
+    if (FILE_EXEC_ACTIONS.includes(arg)) {
+      while (i < args.length && args[i] !== ";" && args[i] !== "+") i++
+    } else if (arg === "-maxdepth" || arg === "-mindepth") {
+      const depth = Number(args[++i])
+      if (Number.isInteger(depth)) find[arg === "-maxdepth" ? "maxDepth" : "minDepth"] = depth
+    } else if (arg === "-o" || arg === "-or" || arg === "!" || arg === "-not" || arg === "(") {
+      // Alternatives and negation are not modeled; match everything rather than undercount
+      conjunction = false
+    } else if (FIND_TESTS.includes(arg)) {
+      find.tests.push([arg, args[++i] ?? ""])
+    } else if (arg === "-empty") {
+      find.tests.push([arg])
+    } else if (FIND_OPTIONS_WITH_VALUE.includes(arg)) {
+      i++
+    }
+  }
+
+  if (!conjunction) find.tests = []
+  return find
+}
+
+/** Paths a command modifies, by program, plus any output redirects */
+function getPathTargets(inv: Invocation): { path: string; operation: PathOperation }[] {
+  const targets: { path: string; operation: PathOperation }[] = []
+  const args = operands(inv.args)
+
+  switch (inv.program) {
+    case "rm":
+    case "rmdir":
+    case "unlink":
+    case "shred":
+    case "srm":
+    case "trash":
+      targets.push(...args.map((path) => ({ path, operation: "delete" as const })))
+      break
+    case "mv":
+      targets.push(...args.map((path) => ({ path, operation: "move" as const })))
+      break
+    case "cp":
+    case "install":
+    case "rsync":
+      if (args.length > 1) targets.push({ path: args[args.length - 1], operation: "write" })
+      break
+    case "ln":
+      if (args.length > 1 && hasFlag(inv.args, "f", "force")) targets.push({ path: args[args.length - 1], operation: "write" })
+      break
+    case "tee":
+    case "truncate":
+      targets.push(...args.map((path) => ({ path, operation: "write" as const })))
+      break
+    case "sed":
+    case "perl":
+      if (hasFlag(inv.args, "i", "in-place")) targets.push(...args.slice(1).map((path) => ({ path, operation: "write" as const })))
+      break
+    case "chmod":
+    case "chown":
+    case "chgrp":
+    case "chattr":
+      targets.push(...args.slice(1).map((path) => ({ path, operation: "permissions" as const })))
+      break
+    case "dd":
+      for (const arg of inv.args) {
+        if (arg.startsWith("of=")) targets.push({ path: arg.slice(3), operation: "write" })
+      }
+      break
+  }
+
+  for (const redirect of inv.command.redirects) {
+    if (isFileWrite(redirect) && redirect.target) targets.push({ path: redirect.target, operation: "write" })
+  }
+
+  return targets
+}
+
+// Prefix commands that run their arguments as another command
+const WRAPPERS: Record<string, { elevates?: boolean; optionsWithValue?: string[]; positional?: number }> = {
+  sudo: { elevates: true, optionsWithValue: ["-u", "-g", "-h", "-p", "-C", "-U", "-r", "-t", "-D"] },
+  doas: { elevates: true, optionsWithValue: ["-u", "-C"] },
+  env: { optionsWithValue: ["-u", "-C", "-S"] },
+  nohup: {},
+  time: { optionsWithValue: ["-f", "-o"] },
+  nice: { optionsWithValue: ["-n"] },
+  ionice: { optionsWithValue: ["-c", "-n", "-p"] },
+  command: {},
+  builtin: {},
+  exec: { optionsWithValue: ["-a"] },
+  stdbuf: { optionsWithValue: ["-i", "-o", "-e"] },
+  timeout: { optionsWithValue: ["-s", "-k"], positional: 1 },
+  caffeinate: { optionsWithValue: ["-t", "-w"] },
+}
+
+function resolveInvocation(command: SimpleCommand): Invocation {
+  let words = command.argv
+  let elevated = false
+
+  while (words.length > 0) {
+    const program = basename(words[0])
+    const wrapper = WRAPPERS[program]
+    if (!wrapper) break
+
+    elevated = elevated || Boolean(wrapper.elevates)
+    let i = 1
+    while (i < words.length) {
+      const word = words[i]
+      if (word === "--") {
+        i++
+        break
+      }
+      if (program === "env" && /^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+        i++
+        continue
+      }
+      if (!word.startsWith("-") || word === "-") break
+      i += wrapper.optionsWithValue?.includes(word) ? 2 : 1
+    }
+    words = words.slice(i + (wrapper.positional ?? 0))
   }
 
   return {
-    isDangerous,
-    severity: matchedPatterns.length > 0 ? highestSeverity : "low",
-    reason: isDangerous ? getSeverityMessage(highestSeverity) : undefined,
-    patterns: matchedPatterns,
+    program: words.length > 0 ? basename(words[0]) : "",
+    args: words.slice(1),
+    elevated,
+    command,
+  }
+}
+
+function basename(word: string): string {
+  return (word.split(/[/\\]/).pop() ?? word).toLowerCase().replace(/\.exe$/, "")
+}
+
+/** True if a short flag letter (in any cluster like -rf) or a --long flag is present */
+function hasFlag(args: string[], short: string, long?: string): boolean {
+  for (const arg of args) {
+    if (arg === "--") return false
+    if (long && (arg === `--${long}` || arg.startsWith(`--${long}=`))) return true
+    if (short && arg.startsWith("-") && !arg.startsWith("--") && arg.slice(1).includes(short)) return true
   }
+  return false
+}
+
+/** Arguments that are not flags */
+function operands(args: string[]): string[] {
+  const result: string[] = []
+  let afterDoubleDash = false
+  for (const arg of args) {
+    if (afterDoubleDash) {
+      result.push(arg)
+    } else if (arg === "--") {
+      afterDoubleDash = true
+    } else if (!arg.startsWith("-") || arg === "-") {
+      result.push(arg)
+    }
+  }
+  return result
+}
+
+// Global options that take a value, so their values are not mistaken for subcommands
+const CLI_OPTIONS_WITH_VALUE: Record<string, string[]> = {
+  kubectl: ["--context", "--cluster", "--user", "--kubeconfig", "-n", "--namespace", "-l", "--selector", "-f", "--filename", "-o", "--output"],
+  helm: ["--kube-context", "--kubeconfig", "-n", "--namespace"],
+  aws: ["--profile", "--region", "--output", "--endpoint-url", "--query"],
+  gcloud: ["--project", "--account", "--configuration", "--zone", "--region", "--format"],
+  az: ["--subscription", "-g", "--resource-group", "-n", "--name", "-o", "--output"],
+  docker: ["-H", "--host", "--context", "-f", "--file", "-p", "--project-name"],
+}
+
+/** Subcommand words of a CLI invocation, or [] if it is a different program */
+function cliArgs(inv: Invocation, program: string): string[] {
+  if (inv.program !== program) return []
+  return operands(skipOptionValues(inv.args, CLI_OPTIONS_WITH_VALUE[program] ?? []))
+}
+
+function matchesPrefix(args: string[], prefix: string[]): boolean {
+  return prefix.every((word, i) => args[i] === word)
+}
+
+/** terraform accepts both -flag and --flag */
+function hasTerraformFlag(inv: Invocation, name: string): boolean {
+  return inv.args.some((arg) => arg === `-${name}` || arg === `--${name}` || arg === `-${name}=true` || arg === `--${name}=true`)
+}
+
+function isTerraformDestroy(inv: Invocation): boolean {
+  if (!TERRAFORM.includes(inv.program)) return false
+  const subcommand = operands(inv.args)[0]
+  return subcommand === "destroy" || (subcommand === "apply" && hasTerraformFlag(inv, "destroy"))
+}
+
+// Flags that carry a SQL script, by database CLI
+const SQL_FLAGS: Record<string, string[]> = {
+  psql: ["-c", "--command"],
+  mysql: ["-e", "--execute"],
+  mariadb: ["-e", "--execute"],
+  sqlcmd: ["-Q", "-q"],
+  "clickhouse-client": ["-q", "--query"],
+  cqlsh: ["-e", "--execute"],
+}
+
+/** SQL statements a database CLI will run, from its flags, sqlite3 operands or stdin heredocs */
+function getSqlStatements(inv: Invocation): string[] {
+  const scripts: string[] = []
+  const flags = SQL_FLAGS[inv.program]
+  if (flags) {
+    inv.args.forEach((arg, i) => {
+      if (flags.includes(arg) && i + 1 < inv.args.length) scripts.push(inv.args[i + 1])
+      for (const flag of flags) {
+        if (flag.startsWith("--") && arg.startsWith(`${flag}=`)) scripts.push(arg.slice(flag.length + 1))
+      }
+    })
+  } else if (inv.program === "sqlite3") {
+    scripts.push(...operands(inv.args).slice(1))
+  } else {
+    return []
+  }
+
+  for (const redirect of inv.command.redirects) {
+    if (redirect.heredoc !== undefined) scripts.push(redirect.heredoc)
+    else if (redirect.op === "<<<") scripts.push(redirect.target)
+  }
+
+  return scripts.flatMap((script) => script.split(";")).map((sql) => sql.trim()).filter(Boolean)
+}
+
+/** Which cluster or account a cloud CLI will act on, for the finding text */
+function getCloudTarget(inv: Invocation): string | undefined {
+  if (inv.program === "kubectl" || inv.program === "helm") {
+    const context = getKubeContext(inv.args)
+    return context ? `kube context: ${context}` : undefined
+  }
+  if (inv.program === "aws") return `AWS profile: ${getAwsProfile(inv.args)}`
+  return undefined
+}
+
+const POWERSHELL_HOSTS = ["powershell", "pwsh"]
+const POWERSHELL_DOWNLOADERS = ["invoke-webrequest", "invoke-restmethod", "curl", "wget"]
+// Switch parameters that never take a value
+const POWERSHELL_SWITCHES = ["recurse", "force", "whatif", "confirm", "verbose", "debug", "passthru", "wait", "asjob", "noprofile", "noninteractive", "nologo", "noexit"]
+
+/** PowerShell parameter present, allowing prefixes like -Rec for -Recurse (case-insensitive) */
+function hasParam(args: string[], ...names: string[]): boolean {
+  return args.some((arg) => /^-[a-z]/i.test(arg) && names.some((name) => name.startsWith(arg.slice(1).toLowerCase())))
+}
+
+/** Paths given to a PowerShell cmdlet via -Path/-LiteralPath or positionally */
+function getPowerShellPaths(args: string[]): string[] {
+  const paths: string[] = []
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (/^-[a-z]/i.test(arg)) {
+      const name = arg.slice(1).toLowerCase()
+      if (["path", "literalpath"].some((p) => p.startsWith(name))) paths.push(...(args[i + 1] ?? "").split(","))
+      if (!POWERSHELL_SWITCHES.some((s) => s.startsWith(name))) i++
+      continue
+    }
+    paths.push(...arg.split(","))
+  }
+  return paths.map((p) => p.trim()).filter(Boolean)
+}
+
+/** The script a powershell/pwsh host runs via -Command (or positionally) or -EncodedCommand */
+function getPowerShellCommand(inv: Invocation): { source: string; encoded: boolean } | undefined {
+  if (!POWERSHELL_HOSTS.includes(inv.program)) return undefined
+  for (let i = 0; i < inv.args.length; i++) {
+    const arg = inv.args[i].toLowerCase()
+    if (arg === "-e" || arg === "-ec" || (arg.length > 3 && "-encodedcommand".startsWith(arg))) {
+      // -EncodedCommand is base64 of UTF-16LE text
+      const decoded = Buffer.from(inv.args[i + 1] ?? "", "base64").toString("utf16le")
+      return { source: /^[\P{C}\t\n\r]*$/u.test(decoded) ? decoded : "", encoded: true }
+    }
+    if (arg === "-c" || (arg.length > 2 && "-command".startsWith(arg))) return { source: inv.args.slice(i + 1).join(" "), encoded: false }
+    if (arg === "-f" || (arg.length > 2 && "-file".startsWith(arg))) return undefined
+    if (!arg.startsWith("-")) return { source: inv.args.slice(i).join(" "), encoded: false }
+    // Other host parameters (-ExecutionPolicy Bypass, -WindowStyle Hidden) take a value
+    if (!POWERSHELL_SWITCHES.some((s) => s.startsWith(arg.slice(1)))) i++
+  }
+  return undefined
+}
+
+/** cmd-style /switch present; handles clusters like /s/q and values like /grant:r */
+function hasSwitch(args: string[], ...names: string[]): boolean {
+  return args.some((arg) => arg.startsWith("/") && arg.toLowerCase().split("/").slice(1).some((part) => names.includes(part.split(":")[0])))
+}
+
+/** Arguments that are not /switches */
+function cmdOperands(args: string[]): string[] {
+  return args.filter((arg) => !/^(\/[a-z?][^/\\]*)+$/i.test(arg))
+}
+
+/** Drive roots, the Windows and Users folders, and home directories */
+function isWindowsCriticalPath(path: string): boolean {
+  return /^(([a-z]:)?[\\/]|[a-z]:|~|\$home|\$env:(userprofile|systemroot|windir|systemdrive|homedrive|programfiles)|%(userprofile|systemroot|windir|systemdrive|homedrive|programfiles)%|[a-z]:[\\/](windows|users|program files( \(x86\))?)([\\/]system32)?)[\\/]?(\*(\.\*)?)?$/i.test(path)
+}
+
+function lower(args: string[]): string[] {
+  return args.map((arg) => arg.toLowerCase())
+}
+
+function isGit(inv: Invocation, subcommand: string): boolean {
+  return inv.program === "git" && operands(inv.args)[0] === subcommand
+}
+
+/** Output redirects that write to a file (not fd duplication like 2>&1) */
+function isFileWrite(redirect: Redirect): boolean {
+  if (!redirect.op.includes(">")) return false
+  return !(redirect.op === ">&" && /^(\d+|-)$/.test(redirect.target))
+}
+
+function isDiskDevice(path: string): boolean {
+  return /^\/dev\/(sd[a-z]|hd[a-z]|vd[a-z]|xvd[a-z]|nvme\d|mmcblk\d|disk\d|rdisk\d)/.test(path)
 }
 
 function getSeverityMessage(severity: SafetyAnalysis["severity"]): string {
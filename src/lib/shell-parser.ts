@@ -0,0 +1,747 @@
+/**
+ * A small POSIX shell lexer and parser.
+ *
+ * It does not execute or expand anything. It splits a command line into the
+ * simple commands a shell would run (pipelines, && / || / ; lists, subshells,
+ * groups and compound commands) and performs quote removal so that
+ * `r''m`, `\rm` and `"rm"` all come out as `rm`.
+ */
+
+export interface Word {
+  /** Text exactly as written */
+  raw: string
+  /** Text after quote removal (expansions are left as written) */
+  value: string
+  /** True if any part of the word was quoted or escaped */
+  quoted: boolean
+  /** Bodies of `$(...)` and backtick command substitutions inside the word */
+  substitutions: string[]
+  start: number
+  end: number
+}
+
+export interface Redirect {
+  /** One of >, >>, >|, <, <>, <<, <<-, <<<, >&, <&, &>, &>> */
+  op: string
+  fd?: number
+  target: string
+  /** Body of a here-document (`<<` and `<<-` only) */
+  heredoc?: string
+}
+
+export interface SimpleCommand {
+  /** Command words after quote removal, starting with the program */
+  argv: string[]
+  /** Command words as written */
+  rawArgv: string[]
+  /** Leading NAME=value assignments */
+  assignments: string[]
+  redirects: Redirect[]
+  /** Bodies of command substitutions found anywhere in the command */
+  substitutions: string[]
+  /** Source text of this command */
+  text: string
+  start: number
+  end: number
+  /** Inside a `( ... )` subshell */
+  subshell: boolean
+  /** Name of the function whose body contains this command */
+  functionName?: string
+}
+
+export interface Pipeline {
+  commands: SimpleCommand[]
+  negated: boolean
+  text: string
+}
+
+export interface ParsedCommand {
+  pipelines: Pipeline[]
+  /** Every simple command in source order */
+  commands: SimpleCommand[]
+  /** True if the input ended inside a quote, substitution or compound command */
+  incomplete: boolean
+}
+
+type Token =
+  | { kind: "word"; word: Word }
+  | { kind: "op"; op: string; start: number; end: number }
+  | { kind: "redirect"; redirect: Redirect; targetWord?: Word; start: number; end: number }
+
+const OPERATORS = [";;&", ";;", ";&", "&&", "||", "|&", "|", "&", ";", "(", ")"]
+const REDIRECT_OPERATORS = ["&>>", "&>", "<<<", "<<-", "<<", "<>", "<&", ">>", ">&", ">|", "<", ">"]
+const METACHARACTERS = new Set([" ", "\t", "\n", "|", "&", ";", "(", ")", "<", ">"])
+
+class Lexer {
+  private pos = 0
+  private pendingHeredocs: { redirect: Redirect; delimiter: string; stripTabs: boolean }[] = []
+  incomplete = false
+
+  constructor(private readonly input: string) {}
+
+  tokenize(): Token[] {
+    const tokens: Token[] = []
+    while (true) {
+      this.skipBlanks()
+      if (this.pos >= this.input.length) break
+
+      const ch = this.input[this.pos]
+      const start = this.pos
+
+      if (ch === "#") {
+        while (this.pos < this.input.length && this.input[this.pos] !== "\n") this.pos++
+        continue
+      }
+
+      if (ch === "\n") {
+        this.pos++
+        tokens.push({ kind: "op", op: "\n", start, end: this.pos })
+        this.readHeredocBodies()
+        continue
+      }
+
+      const redirect = this.readRedirect()
+      if (redirect) {
+        tokens.push(redirect)
+        continue
+      }
+
+      const op = OPERATORS.find((o) => this.input.startsWith(o, this.pos))
+      if (op) {
+        this.pos += op.length
+        tokens.push({ kind: "op", op, start, end: this.pos })
+        continue
+      }
+
+      tokens.push({ kind: "word", word: this.readWord() })
+    }
+
+    if (this.pendingHeredocs.length > 0) {
+      this.incomplete = true
+    }
+    return tokens
+  }
+
+  private skipBlanks(): void {
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos]
+      if (ch === " " || ch === "\t") {
+        this.pos++
+      } else if (ch === "\\" && this.input[this.pos + 1] === "\n") {
+        this.pos += 2
+      } else {
+        break
+      }
+    }
+  }
+
+  private readRedirect(): Token | null {
+    const start = this.pos
+    let cursor = this.pos
+    while (cursor < this.input.length && /[0-9]/.test(this.input[cursor])) cursor++
+
+    // Process substitution <(...) / >(...) is a word, not a redirect
+    if (cursor === this.pos && (this.input.startsWith("<(", cursor) || this.input.startsWith(">(", cursor))) {
+      return null
+    }
+
+    const op = REDIRECT_OPERATORS.find((o) => this.input.startsWith(o, cursor))
+    if (!op) return null
+    // Digits only form an io-number when they directly precede the operator
+    if (cursor > this.pos && op.startsWith("&")) return null
+
+    const fd = cursor > this.pos ? parseInt(this.input.slice(this.pos, cursor), 10) : undefined
+    this.pos = cursor + op.length
+    this.skipBlanks()
+
+    const redirect: Redirect = { op, fd, target: "" }
+    let targetWord: Word | undefined
+    if (this.pos < this.input.length && !METACHARACTERS.has(this.input[this.pos])) {
+      targetWord = this.readWord()
+      redirect.target = targetWord.value
+    }
+
+    if ((op === "<<" || op === "<<-") && targetWord) {
+      this.pendingHeredocs.push({ redirect, delimiter: targetWord.value, stripTabs: op === "<<-" })
+    }
+
+    return { kind: "redirect", redirect, targetWord, start, end: this.pos }
+  }
+
+  private readHeredocBodies(): void {
+    for (const pending of this.pendingHeredocs) {
+      const lines: string[] = []
+      let terminated = false
+      while (this.pos < this.input.length) {
+        let lineEnd = this.input.indexOf("\n", this.pos)
+        if (lineEnd === -1) lineEnd = this.input.length
+        const rawLine = this.input.slice(this.pos, lineEnd)
+        this.pos = Math.min(lineEnd + 1, this.input.length)
+        const line = pending.stripTabs ? rawLine.replace(/^\t+/, "") : rawLine
+        if (line === pending.delimiter) {
+          terminated = true
+          break
+        }
+        lines.push(line)
+      }
+      pending.redirect.heredoc = lines.join("\n")
+      if (!terminated) this.incomplete = true
+    }
+    this.pendingHeredocs = []
+  }
+
+  private readWord(): Word {
+    const start = this.pos
+    let value = ""
+    let quoted = false
+    const substitutions: string[] = []
+
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos]
+
+      if (METACHARACTERS.has(ch)) {
+        // <(...) and >(...) process substitution stays inside the word
+        if ((ch === "<" || ch === ">") && this.input[this.pos + 1] === "(") {
+          const body = this.readBalanced(this.pos + 2, "(", ")")
+          substitutions.push(body.content)
+          value += this.input.slice(this.pos, body.end)
+          this.pos = body.end
+          continue
+        }
+        break
+      }
+
+      if (ch === "\\") {
+        quoted = true
+        if (this.input[this.pos + 1] === "\n") {
+          this.pos += 2
+        } else {
+          value += this.input[this.pos + 1] ?? ""
+          this.pos += 2
+        }
+        continue
+      }
+
+      if (ch === "'") {
+        quoted = true
+        const close = this.input.indexOf("'", this.pos + 1)
+        if (close === -1) {
+          value += this.input.slice(this.pos + 1)
+          this.pos = this.input.length
+          this.incomplete = true
+        } else {
+          value += this.input.slice(this.pos + 1, close)
+          this.pos = close + 1
+        }
+        continue
+      }
+
+      if (ch === '"') {
+        quoted = true
+        this.pos++
+        value += this.readDoubleQuoted(substitutions)
+        continue
+      }
+
+      if (ch === "$" && this.input[this.pos + 1] === "'") {
+        quoted = true
+        value += this.readAnsiCQuoted()
+        continue
+      }
+
+      if (ch === "$" || ch === "`") {
+        value += this.readExpansion(substitutions)
+        continue
+      }
+
+      value += ch
+      this.pos++
+    }
+
+    return { raw: this.input.slice(start, this.pos), value, quoted, substitutions, start, end: this.pos }
+  }
+
+  private readDoubleQuoted(substitutions: string[]): string {
+    let value = ""
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos]
+      if (ch === '"') {
+        this.pos++
+        return value
+      }
+      if (ch === "\\") {
+        const next = this.input[this.pos + 1]
+        if (next === "\n") {
+          this.pos += 2
+        } else if (next === "$" || next === "`" || next === '"' || next === "\\") {
+          value += next
+          this.pos += 2
+        } else {
+          value += ch
+          this.pos++
+        }
+        continue
+      }
+      if (ch === "$" || ch === "`") {
+        value += this.readExpansion(substitutions)
+        continue
+      }
+      value += ch
+      this.pos++
+    }
+    this.incomplete = true
+    return value
+  }
+
+  private readAnsiCQuoted(): string {
+    // Skip the leading $'
+    this.pos += 2
+    let value = ""
+    while (this.pos < this.input.length) {
+      const ch = this.input[this.pos]
+      if (ch === "'") {
+        this.pos++
+        return value
+      }
+      if (ch !== "\\") {
+        value += ch
+        this.pos++
+        continue
+      }
+
+      const next = this.input[this.pos + 1] ?? ""
+      const simple: Record<string, string> = { n: "\n", t: "\t", r: "\r", a: "\x07", b: "\b", e: "\x1b", E: "\x1b", f: "\f", v: "\v", "\\": "\\", "'": "'", '"': '"', "?": "?" }
+      if (next in simple) {
+        value += simple[next]
+        this.pos += 2
+        continue
+      }
+
+      const hex = /^x([0-9a-fA-F]{1,2})/.exec(this.input.slice(this.pos + 1))
+      if (hex) {
+        value += String.fromCharCode(parseInt(hex[1], 16))
+        this.pos += 1 + hex[0].length
+        continue
+      }
+
+      const unicode = /^[uU]([0-9a-fA-F]{1,8})/.exec(this.input.slice(this.pos + 1))
+      if (unicode) {
+        value += String.fromCodePoint(parseInt(unicode[1], 16))
+        this.pos += 1 + unicode[0].length
+        continue
+      }
+
+      const octal = /^[0-7]{1,3}/.exec(this.input.slice(this.pos + 1))
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal[0], 8))
+        this.pos += 1 + octal[0].length
+        continue
+      }
+
+      value += ch + next
+      this.pos += 2
+    }
+    this.incomplete = true
+    return value
+  }
+
+  /** Reads $var, ${...}, $(...), $((...)) or `...` and returns it as written */
+  private readExpansion(substitutions: string[]): string {
+    const start = this.pos
+    const ch = this.input[this.pos]
+
+    if (ch === "`") {
+      let cursor = this.pos + 1
+      let body = ""
+      while (cursor < this.input.length && this.input[cursor] !== "`") {
+        if (this.input[cursor] === "\\" && cursor + 1 < this.input.length) {
+          body += this.input[cursor + 1]
+          cursor += 2
+        } else {
+          body += this.input[cursor]
+          cursor++
+        }
+      }
+      if (cursor >= this.input.length) this.incomplete = true
+      this.pos = Math.min(cursor + 1, this.input.length)
+      substitutions.push(body)
+      return this.input.slice(start, this.pos)
+    }
+
+    const next = this.input[this.pos + 1]
+    if (next === "(") {
+      const isArithmetic = this.input[this.pos + 2] === "("
+      const body = this.readBalanced(this.pos + 2, "(", ")")
+      if (!isArithmetic) substitutions.push(body.content)
+      this.pos = body.end
+      return this.input.slice(start, this.pos)
+    }
+
+    if (next === "{") {
+      const body = this.readBalanced(this.pos + 2, "{", "}")
+      this.pos = body.end
+      return this.input.slice(start, this.pos)
+    }
+
+    this.pos++
+    if (/[@*#?$!0-9-]/.test(next ?? "")) {
+      this.pos++
+    } else {
+      while (this.pos < this.input.length && /[A-Za-z0-9_]/.test(this.input[this.pos])) this.pos++
+    }
+    return this.input.slice(start, this.pos)
+  }
+
+  /** Finds the matching close bracket, skipping over quoted text */
+  private readBalanced(from: number, open: string, close: string): { content: string; end: number } {
+    let depth = 1
+    let cursor = from
+    while (cursor < this.input.length) {
+      const ch = this.input[cursor]
+      if (ch === "\\") {
+        cursor += 2
+        continue
+      }
+      if (ch === "'") {
+        const end = this.input.indexOf("'", cursor + 1)
+        cursor = end === -1 ? this.input.length : end + 1
+        continue
+      }
+      if (ch === '"') {
+        cursor++
+        while (cursor < this.input.length && this.input[cursor] !== '"') {
+          cursor += this.input[cursor] === "\\" ? 2 : 1
+        }
+        cursor++
+        continue
+      }
+      if (ch === open) depth++
+      if (ch === close) {
+        depth--
+        if (depth === 0) {
+          return { content: this.input.slice(from, cursor), end: cursor + 1 }
+        }
+      }
+      cursor++
+    }
+    this.incomplete = true
+    return { content: this.input.slice(from), end: this.input.length }
+  }
+}
+
+const LIST_SEPARATORS = new Set([";", "&", "\n"])
+const CASE_TERMINATORS = [";;", ";&", ";;&"]
+
+interface ParseScope {
+  subshell: boolean
+  functionName?: string
+}
+
+class Parser {
+  private index = 0
+  readonly pipelines: Pipeline[] = []
+  readonly commands: SimpleCommand[] = []
+  incomplete = false
+
+  constructor(
+    private readonly input: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): void {
+    while (this.index < this.tokens.length) {
+      const before = this.index
+      this.parseList([], { subshell: false })
+      // Skip stray closers so a malformed command never stalls the parser
+      if (this.index === before) this.index++
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private peekWord(): string | undefined {
+    const token = this.peek()
+    return token?.kind === "word" && !token.word.quoted ? token.word.value : undefined
+  }
+
+  private isOp(token: Token | undefined, ...ops: string[]): boolean {
+    return token?.kind === "op" && ops.includes(token.op)
+  }
+
+  private atTerminator(terminators: string[]): boolean {
+    const token = this.peek()
+    if (!token) return true
+    if (token.kind === "op") return token.op === ")" || terminators.includes(token.op)
+    const word = this.peekWord()
+    return word !== undefined && terminators.includes(word)
+  }
+
+  private skipSeparators(): void {
+    while (this.isOp(this.peek(), ...LIST_SEPARATORS)) this.index++
+  }
+
+  private expectWord(word: string): void {
+    if (this.peekWord() === word) {
+      this.index++
+    } else {
+      this.incomplete = true
+    }
+  }
+
+  /** Parses and-or lists until one of the terminator words or operators */
+  private parseList(terminators: string[], scope: ParseScope): SimpleCommand[] {
+    const collected: SimpleCommand[] = []
+    this.skipSeparators()
+    while (!this.atTerminator(terminators)) {
+      const before = this.index
+      collected.push(...this.parseAndOr(terminators, scope))
+      this.skipSeparators()
+      if (this.index === before) break
+    }
+    return collected
+  }
+
+  private parseAndOr(terminators: string[], scope: ParseScope): SimpleCommand[] {
+    const collected = this.parsePipeline(terminators, scope)
+    while (this.isOp(this.peek(), "&&", "||")) {
+      this.index++
+      while (this.isOp(this.peek(), "\n")) this.index++
+      collected.push(...this.parsePipeline(terminators, scope))
+    }
+    return collected
+  }
+
+  private parsePipeline(terminators: string[], scope: ParseScope): SimpleCommand[] {
+    const pipeline: Pipeline = { commands: [], negated: false, text: "" }
+    const startToken = this.peek()
+    if (this.peekWord() === "!") {
+      pipeline.negated = true
+      this.index++
+    }
+
+    const stages: SimpleCommand[][] = [this.parseCommand(terminators, scope)]
+    while (this.isOp(this.peek(), "|", "|&")) {
+      this.index++
+      while (this.isOp(this.peek(), "\n")) this.index++
+      stages.push(this.parseCommand(terminators, scope))
+    }
+
+    // A compound stage contributes all of its commands to the pipeline
+    pipeline.commands = stages.flat()
+    if (pipeline.commands.length > 0 && startToken) {
+      const end = this.tokens[this.index - 1]
+      pipeline.text = this.input.slice(tokenStart(startToken), end ? tokenEnd(end) : this.input.length).trim()
+      this.pipelines.push(pipeline)
+    }
+    return pipeline.commands
+  }
+
+  private parseCommand(terminators: string[], scope: ParseScope): SimpleCommand[] {
+    const token = this.peek()
+    if (!token) {
+      this.incomplete = true
+      return []
+    }
+
+    if (this.isOp(token, "(")) {
+      this.index++
+      const inner = this.parseList([")"], { ...scope, subshell: true })
+      if (this.isOp(this.peek(), ")")) {
+        this.index++
+      } else {
+        this.incomplete = true
+      }
+      return this.attachTrailingRedirects(inner)
+    }
+
+    const keyword = this.peekWord()
+    switch (keyword) {
+      case "{": {
+        this.index++
+        const inner = this.parseList(["}"], scope)
+        this.expectWord("}")
+        return this.attachTrailingRedirects(inner)
+      }
+      case "if":
+        return this.attachTrailingRedirects(this.parseIf(scope))
+      case "while":
+      case "until": {
+        this.index++
+        const inner = this.parseList(["do"], scope)
+        this.expectWord("do")
+        inner.push(...this.parseList(["done"], scope))
+        this.expectWord("done")
+        return this.attachTrailingRedirects(inner)
+      }
+      case "for":
+      case "select":
+        return this.attachTrailingRedirects(this.parseFor(scope))
+      case "case":
+        return this.attachTrailingRedirects(this.parseCase(scope))
+      case "function": {
+        this.index++
+        const name = this.peekWord()
+        if (name !== undefined) this.index++
+        if (this.isOp(this.peek(), "(") && this.isOp(this.tokens[this.index + 1], ")")) this.index += 2
+        this.skipSeparators()
+        return this.parseCommand(terminators, { ...scope, functionName: name })
+      }
+    }
+
+    // name() compound-command
+    if (token.kind === "word" && this.isOp(this.tokens[this.index + 1], "(") && this.isOp(this.tokens[this.index + 2], ")")) {
+      const name = token.word.value
+      this.index += 3
+      while (this.isOp(this.peek(), "\n")) this.index++
+      return this.parseCommand(terminators, { ...scope, functionName: name })
+    }
+
+    const simple = this.parseSimpleCommand(terminators, scope)
+    return simple ? [simple] : []
+  }
+
+  private parseIf(scope: ParseScope): SimpleCommand[] {
+    this.index++
+    const inner = this.parseList(["then"], scope)
+    this.expectWord("then")
+    while (true) {
+      inner.push(...this.parseList(["elif", "else", "fi"], scope))
+      const word = this.peekWord()
+      if (word === "elif") {
+        this.index++
+        inner.push(...this.parseList(["then"], scope))
+        this.expectWord("then")
+      } else if (word === "else") {
+        this.index++
+      } else {
+        this.expectWord("fi")
+        return inner
+      }
+    }
+  }
+
+  private parseFor(scope: ParseScope): SimpleCommand[] {
+    this.index++
+    // Loop variable and optional `in word...` list are not executed
+    while (this.peek()?.kind === "word" && this.peekWord() !== "do") this.index++
+    this.skipSeparators()
+    this.expectWord("do")
+    const inner = this.parseList(["done"], scope)
+    this.expectWord("done")
+    return inner
+  }
+
+  private parseCase(scope: ParseScope): SimpleCommand[] {
+    this.index++
+    if (this.peek()?.kind === "word") this.index++
+    this.expectWord("in")
+    const inner: SimpleCommand[] = []
+
+    while (true) {
+      this.skipSeparators()
+      const token = this.peek()
+      if (!token) {
+        this.incomplete = true
+        return inner
+      }
+      if (this.peekWord() === "esac") {
+        this.index++
+        return inner
+      }
+
+      // Pattern list: [(] word [| word]... )
+      if (this.isOp(token, "(")) this.index++
+      while (this.peek() && !this.isOp(this.peek(), ")")) this.index++
+      if (this.isOp(this.peek(), ")")) this.index++
+
+      inner.push(...this.parseList([...CASE_TERMINATORS, "esac"], scope))
+      if (this.isOp(this.peek(), ...CASE_TERMINATORS)) this.index++
+    }
+  }
+
+  private attachTrailingRedirects(inner: SimpleCommand[]): SimpleCommand[] {
+    while (this.peek()?.kind === "redirect") {
+      const token = this.peek() as Extract<Token, { kind: "redirect" }>
+      for (const command of inner) {
+        command.redirects.push(token.redirect)
+        if (token.targetWord) command.substitutions.push(...token.targetWord.substitutions)
+      }
+      this.index++
+    }
+    return inner
+  }
+
+  private parseSimpleCommand(terminators: string[], scope: ParseScope): SimpleCommand | null {
+    const command: SimpleCommand = {
+      argv: [],
+      rawArgv: [],
+      assignments: [],
+      redirects: [],
+      substitutions: [],
+      text: "",
+      start: -1,
+      end: -1,
+      subshell: scope.subshell,
+      functionName: scope.functionName,
+    }
+
+    while (true) {
+      const token = this.peek()
+      if (!token || token.kind === "op") break
+      // Reserved closers only end the command in command position
+      if (command.argv.length === 0 && command.assignments.length === 0 && this.atTerminator(terminators)) break
+
+      if (command.start === -1) command.start = tokenStart(token)
+      command.end = tokenEnd(token)
+      this.index++
+
+      if (token.kind === "redirect") {
+        command.redirects.push(token.redirect)
+        if (token.targetWord) command.substitutions.push(...token.targetWord.substitutions)
+        continue
+      }
+
+      const word = token.word
+      command.substitutions.push(...word.substitutions)
+      if (command.argv.length === 0 && /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/.test(word.raw)) {
+        command.assignments.push(word.value)
+        continue
+      }
+      command.argv.push(word.value)
+      command.rawArgv.push(word.raw)
+    }
+
+    if (command.start === -1) return null
+    command.text = this.input.slice(command.start, command.end)
+    this.commands.push(command)
+    return command
+  }
+}
+
+function tokenStart(token: Token): number {
+  return token.kind === "word" ? token.word.start : token.start
+}
+
+function tokenEnd(token: Token): number {
+  return token.kind === "word" ? token.word.end : token.end
+}
+
+/**
+ * Parse a POSIX shell command line into pipelines and simple commands.
+ * Never throws: malformed input is parsed as far as possible and flagged as incomplete.
+ */
+export function parseShellCommand(input: string): ParsedCommand {
+  const lexer = new Lexer(input)
+  const tokens = lexer.tokenize()
+  const parser = new Parser(input, tokens)
+  parser.parse()
+
+  const commands = [...parser.commands].sort((a, b) => a.start - b.start)
+  return {
+    pipelines: parser.pipelines,
+    commands,
+    incomplete: lexer.incomplete || parser.incomplete,
+  }
+}
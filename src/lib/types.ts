@@ -1,4 +1,13 @@
-export type Provider = "openrouter" | "opencode-zen" | "custom";
+import type { PlatformType, ShellType } from "./shell";
+
+// "offline" is the built-in rule-based translator, which needs no network or key
+export type Provider = "openrouter" | "opencode-zen" | "custom" | "offline" | DirectProvider;
+
+// Vendors called at their own APIs, with keys from a direct contract
+export type DirectProvider = "anthropic" | "openai" | "google";
+
+// Local servers whose models are discovered from their model listing endpoint
+export type LocalProvider = "ollama" | "lmstudio";
 
 export interface Model {
   id: string;
@@ -10,6 +19,11 @@ export interface Model {
   free?: boolean;
   disabled?: boolean;
   disabledReason?: string;
+  // List prices in USD per million tokens; free models cost nothing
+  inputPrice?: number;
+  outputPrice?: number;
+  // Sent to the API when it differs from `id`
+  modelId?: string;
 }
 
 // Custom models for LM Studio, Ollama, or any OpenAI-compatible endpoint
@@ -22,9 +36,15 @@ export interface CustomModel {
   apiKey?: string;
   contextLength: number;
   category: "fast" | "smart" | "reasoning";
+  // USD per million tokens, for hosted endpoints; local models are free when unset
+  inputPrice?: number;
+  outputPrice?: number;
+  // Set on models discovered from a local server rather than added by hand
+  localProvider?: LocalProvider;
 }
 
-// OpenRouter models - updated January 2026
+// OpenRouter models as of January 2026, bundled for use until the live catalog is fetched (see catalog.ts)
+// Prices are list prices per million tokens at that time, used to estimate costs
 export const OPENROUTER_MODELS: Model[] = [
   // Free models
   {
@@ -53,6 +73,8 @@ export const OPENROUTER_MODELS: Model[] = [
     category: "fast",
     provider: "openrouter",
     contextLength: 200000,
+    inputPrice: 1,
+    outputPrice: 5,
   },
   {
     id: "google/gemini-2.5-flash",
@@ -61,6 +83,8 @@ export const OPENROUTER_MODELS: Model[] = [
     category: "fast",
     provider: "openrouter",
     contextLength: 1000000,
+    inputPrice: 0.3,
+    outputPrice: 2.5,
   },
   // Smart models
   {
@@ -70,6 +94,8 @@ export const OPENROUTER_MODELS: Model[] = [
     category: "smart",
     provider: "openrouter",
     contextLength: 1000000,
+    inputPrice: 3,
+    outputPrice: 15,
   },
   {
     id: "anthropic/claude-sonnet-4",
@@ -78,6 +104,8 @@ export const OPENROUTER_MODELS: Model[] = [
     category: "smart",
     provider: "openrouter",
     contextLength: 200000,
+    inputPrice: 3,
+    outputPrice: 15,
   },
   {
     id: "zhipu/glm-4.7",
@@ -86,6 +114,8 @@ export const OPENROUTER_MODELS: Model[] = [
     category: "smart",
     provider: "openrouter",
     contextLength: 128000,
+    inputPrice: 0.6,
+    outputPrice: 2.2,
   },
   {
     id: "google/gemini-2.5-pro",
@@ -94,6 +124,8 @@ export const OPENROUTER_MODELS: Model[] = [
     category: "smart",
     provider: "openrouter",
     contextLength: 1000000,
+    inputPrice: 1.25,
+    outputPrice: 10,
   },
   // Reasoning models
   {
@@ -103,6 +135,8 @@ export const OPENROUTER_MODELS: Model[] = [
     category: "reasoning",
     provider: "openrouter",
     contextLength: 200000,
+    inputPrice: 5,
+    outputPrice: 25,
   },
   {
     id: "deepseek/deepseek-r1",
@@ -111,10 +145,13 @@ export const OPENROUTER_MODELS: Model[] = [
     category: "reasoning",
     provider: "openrouter",
     contextLength: 128000,
+    inputPrice: 0.7,
+    outputPrice: 2.4,
   },
 ];
 
 // OpenCode Zen models - model IDs match the API exactly (no prefix needed for API calls)
+// Bundled like OPENROUTER_MODELS; their names and descriptions are kept when the catalog is refreshed
 export const OPENCODE_ZEN_MODELS: Model[] = [
   // Free models (great for trying out)
   {
@@ -171,6 +208,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "fast",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 0.8,
+    outputPrice: 4,
   },
   {
     id: "claude-haiku-4-5",
@@ -179,6 +218,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "fast",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 1,
+    outputPrice: 5,
   },
   {
     id: "gemini-3-flash",
@@ -187,6 +228,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "fast",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 0.5,
+    outputPrice: 3,
   },
   {
     id: "gpt-5.1-codex-mini",
@@ -195,6 +238,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "fast",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 0.25,
+    outputPrice: 2,
   },
   {
     id: "glm-4.7",
@@ -203,6 +248,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "fast",
     provider: "opencode-zen",
     contextLength: 128000,
+    inputPrice: 0.6,
+    outputPrice: 2.2,
   },
 
   // Smart models
@@ -213,6 +260,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 3,
+    outputPrice: 15,
   },
   {
     id: "gemini-3-pro",
@@ -221,6 +270,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 2,
+    outputPrice: 12,
   },
   {
     id: "gpt-5.2",
@@ -229,6 +280,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 1.75,
+    outputPrice: 14,
   },
   {
     id: "gpt-5.2-codex",
@@ -237,6 +290,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 1.75,
+    outputPrice: 14,
   },
   {
     id: "gpt-5.1",
@@ -245,6 +300,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 1.25,
+    outputPrice: 10,
   },
   {
     id: "gpt-5.1-codex",
@@ -253,6 +310,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 1.25,
+    outputPrice: 10,
   },
   {
     id: "gpt-5",
@@ -261,6 +320,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 1.25,
+    outputPrice: 10,
   },
   {
     id: "gpt-5-codex",
@@ -269,6 +330,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 1.25,
+    outputPrice: 10,
   },
   {
     id: "minimax-m2.1",
@@ -277,6 +340,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 128000,
+    inputPrice: 0.3,
+    outputPrice: 1.2,
   },
   {
     id: "kimi-k2.5",
@@ -285,6 +350,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 131072,
+    inputPrice: 0.6,
+    outputPrice: 3,
   },
   {
     id: "kimi-k2",
@@ -293,6 +360,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 131072,
+    inputPrice: 0.4,
+    outputPrice: 2.5,
   },
   {
     id: "qwen3-coder",
@@ -301,6 +370,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 131072,
+    inputPrice: 0.45,
+    outputPrice: 1.8,
   },
   {
     id: "glm-4.6",
@@ -309,6 +380,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "smart",
     provider: "opencode-zen",
     contextLength: 128000,
+    inputPrice: 0.6,
+    outputPrice: 2.2,
   },
 
   // Reasoning models
@@ -319,6 +392,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "reasoning",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 3,
+    outputPrice: 15,
   },
   {
     id: "claude-opus-4-6",
@@ -327,6 +402,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "reasoning",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 5,
+    outputPrice: 25,
   },
   {
     id: "claude-opus-4-5",
@@ -335,6 +412,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "reasoning",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 5,
+    outputPrice: 25,
   },
   {
     id: "claude-opus-4-1",
@@ -343,6 +422,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "reasoning",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 15,
+    outputPrice: 75,
   },
   {
     id: "gpt-5.1-codex-max",
@@ -351,6 +432,8 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "reasoning",
     provider: "opencode-zen",
     contextLength: 200000,
+    inputPrice: 1.25,
+    outputPrice: 10,
   },
   {
     id: "kimi-k2-thinking",
@@ -359,26 +442,283 @@ export const OPENCODE_ZEN_MODELS: Model[] = [
     category: "reasoning",
     provider: "opencode-zen",
     contextLength: 131072,
+    inputPrice: 0.6,
+    outputPrice: 2.5,
   },
 ];
 
-export const ALL_MODELS = [...OPENCODE_ZEN_MODELS, ...OPENROUTER_MODELS];
+// Models at the vendors' own APIs. Ids carry the provider ("anthropic:claude-sonnet-4-5") so they
+// never clash with the same model on OpenCode Zen or OpenRouter; `modelId` is what the API is sent
+export const ANTHROPIC_MODELS: Model[] = [
+  {
+    id: "anthropic:claude-haiku-4-5",
+    modelId: "claude-haiku-4-5",
+    name: "Claude Haiku 4.5",
+    description: "Anthropic's fastest model, direct",
+    category: "fast",
+    provider: "anthropic",
+    contextLength: 200000,
+    inputPrice: 1,
+    outputPrice: 5,
+  },
+  {
+    id: "anthropic:claude-sonnet-4-5",
+    modelId: "claude-sonnet-4-5",
+    name: "Claude Sonnet 4.5",
+    description: "Anthropic's balanced model, direct",
+    category: "smart",
+    provider: "anthropic",
+    contextLength: 200000,
+    inputPrice: 3,
+    outputPrice: 15,
+  },
+  {
+    id: "anthropic:claude-opus-4-6",
+    modelId: "claude-opus-4-6",
+    name: "Claude Opus 4.6",
+    description: "Anthropic's most capable model, direct",
+    category: "reasoning",
+    provider: "anthropic",
+    contextLength: 200000,
+    inputPrice: 5,
+    outputPrice: 25,
+  },
+];
+
+export const OPENAI_MODELS: Model[] = [
+  {
+    id: "openai:gpt-5-nano",
+    modelId: "gpt-5-nano",
+    name: "GPT 5 Nano",
+    description: "OpenAI's smallest GPT 5, direct",
+    category: "fast",
+    provider: "openai",
+    contextLength: 400000,
+    inputPrice: 0.05,
+    outputPrice: 0.4,
+  },
+  {
+    id: "openai:gpt-5-mini",
+    modelId: "gpt-5-mini",
+    name: "GPT 5 Mini",
+    description: "Fast and inexpensive GPT 5, direct",
+    category: "fast",
+    provider: "openai",
+    contextLength: 400000,
+    inputPrice: 0.25,
+    outputPrice: 2,
+  },
+  {
+    id: "openai:gpt-5.2",
+    modelId: "gpt-5.2",
+    name: "GPT 5.2",
+    description: "OpenAI's flagship model, direct",
+    category: "smart",
+    provider: "openai",
+    contextLength: 400000,
+    inputPrice: 1.75,
+    outputPrice: 14,
+  },
+];
+
+export const GOOGLE_MODELS: Model[] = [
+  {
+    id: "google:gemini-2.5-flash",
+    modelId: "gemini-2.5-flash",
+    name: "Gemini 2.5 Flash",
+    description: "Google's fast model, direct",
+    category: "fast",
+    provider: "google",
+    contextLength: 1048576,
+    inputPrice: 0.3,
+    outputPrice: 2.5,
+  },
+  {
+    id: "google:gemini-3-flash-preview",
+    modelId: "gemini-3-flash-preview",
+    name: "Gemini 3 Flash",
+    description: "Google's latest fast model (preview), direct",
+    category: "fast",
+    provider: "google",
+    contextLength: 1048576,
+    inputPrice: 0.5,
+    outputPrice: 3,
+  },
+  {
+    id: "google:gemini-3-pro-preview",
+    modelId: "gemini-3-pro-preview",
+    name: "Gemini 3 Pro",
+    description: "Google's most capable model (preview), direct",
+    category: "smart",
+    provider: "google",
+    contextLength: 1048576,
+    inputPrice: 2,
+    outputPrice: 12,
+  },
+];
+
+// Display names, where to create a key, and how keys start (for a setup warning)
+export const DIRECT_PROVIDERS: Record<DirectProvider, { name: string; keyUrl: string; keyPrefix: string }> = {
+  anthropic: { name: "Anthropic", keyUrl: "https://console.anthropic.com/settings/keys", keyPrefix: "sk-ant-" },
+  openai: { name: "OpenAI", keyUrl: "https://platform.openai.com/api-keys", keyPrefix: "sk-" },
+  google: { name: "Google", keyUrl: "https://aistudio.google.com/apikey", keyPrefix: "AIza" },
+};
+
+export const DIRECT_MODELS: Record<DirectProvider, Model[]> = {
+  anthropic: ANTHROPIC_MODELS,
+  openai: OPENAI_MODELS,
+  google: GOOGLE_MODELS,
+};
+
+// Rule-based translator for common requests; also answers when no provider can be reached
+export const OFFLINE_MODEL: Model = {
+  id: "offline",
+  name: "Offline (rule-based)",
+  description: "Built-in rules for common requests: files, disk, ports, processes, git, archives. No network needed",
+  category: "fast",
+  provider: "offline",
+  contextLength: 0,
+  free: true,
+};
+
+export const ALL_MODELS = [...OPENCODE_ZEN_MODELS, ...OPENROUTER_MODELS, ...ANTHROPIC_MODELS, ...OPENAI_MODELS, ...GOOGLE_MODELS, OFFLINE_MODEL];
+
+// User-defined safety rule from config.safetyRules.
+// Exactly one matcher (argv, regex or substring) is used, checked in that order.
+// A rule whose id matches a built-in rule overrides it.
+export interface CustomSafetyRule {
+  id?: string;
+  // Program followed by arguments that must appear in order, e.g. ["kubectl", "delete", "ns*"]
+  argv?: string[];
+  // Case-insensitive regular expression tested against each command segment
+  regex?: string;
+  // Case-insensitive substring of a command segment
+  substring?: string;
+  severity: SafetyAnalysis["severity"];
+  reason: string;
+  scope?: {
+    platform?: PlatformType[];
+    shell?: ShellType[];
+  };
+  // Turn off the built-in rule with the same id
+  disabled?: boolean;
+}
 
 export interface Config {
   provider: Provider;
   openrouterApiKey: string;
   opencodeZenApiKey: string;
+  // Only used when the keychain is unavailable, like the keys above
+  anthropicApiKey?: string;
+  openaiApiKey?: string;
+  googleApiKey?: string;
   defaultModel: string;
   safetyLevel: "strict" | "moderate" | "relaxed";
   dryRunByDefault: boolean;
   blockedCommands: string[];
-  confirmedDangerousPatterns: string[];
+  /** @deprecated Moved into ~/.magic-shell/approvals.json as expiring approvals on load */
+  confirmedDangerousPatterns?: string[];
+  safetyRules?: CustomSafetyRule[];
+  /** Paths and globs added to the built-in protected paths; a leading `!` removes one. Supports ~, $REPO_ROOT and trailing /** */
+  protectedPaths?: string[];
   theme?: string;
   /** Enable project context detection (opt-in for privacy). Sends script names from package.json, Makefile, etc to AI. */
   repoContext?: boolean;
+  /** Ask a model for a second opinion on commands the rules rate medium or above (opt-in, one extra request) */
+  safetyReview?: boolean;
+  /** Model id (built-in or custom) for safety reviews; defaults to the translation model */
+  reviewModel?: string;
+  /** Snapshot files before running commands that modify them, so they can be restored with /undo (opt-in) */
+  undo?: UndoSettings;
+  /** Ask the model for a corrected command whenever a command fails in the TUI */
+  autoSuggestFix?: boolean;
+  /** Ranked commands to request per translation in the TUI; 1 turns the picker off */
+  alternatives?: number;
+  /** Model ids (built-in or custom, any provider) tried in order when the default model fails */
+  fallbackModels?: string[];
+  /** Timeouts and retries for model requests */
+  retry?: RetrySettings;
+  /** Spending limits in USD, checked before each model request */
+  budget?: BudgetSettings;
+  /** On-disk cache of translations, so repeated requests skip the model (on unless `enabled: false`) */
+  cache?: CacheSettings;
+  /** Live OpenRouter and OpenCode Zen model lists, fetched and cached on disk */
+  catalog?: CatalogSettings;
+  /** Local Ollama and LM Studio servers whose models are listed alongside the built-in ones */
+  localProviders?: { ollama?: LocalProviderSettings; lmstudio?: LocalProviderSettings };
   customModels?: CustomModel[];
 }
 
+export interface UndoSettings {
+  enabled: boolean;
+  // Oldest snapshots are pruned beyond this count
+  maxSnapshots?: number;
+  // Cap on stored file contents; a snapshot that alone exceeds it is not taken
+  maxBytes?: number;
+}
+
+export interface RetrySettings {
+  // Retries per model on rate limits, server errors, timeouts and network errors, with exponential backoff
+  maxRetries?: number;
+  // Per attempt, including the whole streamed response
+  timeoutMs?: number;
+}
+
+export interface BudgetSettings {
+  daily?: number;
+  monthly?: number;
+  // "warn" reports an exceeded limit; "block" refuses further requests until the period ends
+  action?: "warn" | "block";
+}
+
+export interface CacheSettings {
+  enabled?: boolean;
+  // Entries older than this are not used
+  ttlHours?: number;
+  // Oldest entries are pruned beyond this count
+  maxEntries?: number;
+}
+
+export interface CatalogSettings {
+  // false keeps to the bundled model lists
+  enabled?: boolean;
+  // A provider's list is fetched again once it is older than this
+  refreshHours?: number;
+}
+
+// A provider's model list as last fetched
+export interface ModelCatalog {
+  fetchedAt: number;
+  models: Model[];
+}
+
+export interface LocalProviderSettings {
+  // false stops discovery and hides the server's models
+  enabled?: boolean;
+  // Ollama's root URL, or LM Studio's OpenAI-compatible base URL ending in /v1
+  baseUrl?: string;
+}
+
+// Translations stored for a request; `key` hashes the request and its context
+export interface TranslationCacheEntry {
+  key: string;
+  timestamp: number;
+  translations: CommandTranslation[];
+}
+
+// Tokens a model request used, priced from the model's list prices
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  timestamp: number;
+  model: string;
+  provider: Provider;
+}
+
 export interface RepoContext {
   type: string; // e.g., "node", "python", "rust", "go", "make"
   packageManager?: string; // e.g., "npm", "bun", "yarn", "pnpm"
@@ -394,6 +734,30 @@ export interface CommandHistory {
   command: string;
   output: string;
   timestamp: number;
+  exitCode?: number;
+  // Tail of stderr, kept for failed commands so a fix can be suggested later
+  stderr?: string;
+  // Model that translated the command, which may be a fallback
+  model?: string;
+  usage?: TokenUsage;
+}
+
+// A command that exited non-zero, as sent to the model for a fix
+export interface CommandFailure {
+  // The natural language request the command was meant to fulfil
+  input: string;
+  command: string;
+  exitCode: number;
+  stderr: string;
+}
+
+export interface SafetyFinding {
+  severity: SafetyAnalysis["severity"];
+  description: string;
+  // Source text of the command segment that triggered the finding
+  segment: string;
+  // Commands the segment is nested in, outermost first (e.g. ["bash -c", "eval"])
+  path?: string[];
 }
 
 export interface SafetyAnalysis {
@@ -401,6 +765,171 @@ export interface SafetyAnalysis {
   severity: "low" | "medium" | "high" | "critical";
   reason?: string;
   patterns: string[];
+  findings: SafetyFinding[];
+  // Set when a remembered approval suppressed the confirmation
+  approval?: CommandApproval;
+  // Second opinion from a model; it can only raise the severity
+  review?: SafetyReview;
+}
+
+export interface SafetyReview {
+  severity: SafetyAnalysis["severity"];
+  // Files, services or remote systems the reviewer expects the command to touch
+  affectedResources: string[];
+  explanation: string;
+  // Id of the model that wrote the review
+  model: string;
+}
+
+export interface UndoEntry {
+  path: string;
+  type: "file" | "directory" | "symlink" | "missing";
+  mode?: number;
+  // sha256 of the file contents in the undo object store
+  hash?: string;
+  // Link target, for symlinks
+  target?: string;
+  // Modification time, put back with the contents
+  mtimeMs?: number;
+}
+
+// A path as the command left it; undo refuses to run once it has changed again
+export interface UndoFingerprint {
+  path: string;
+  type: UndoEntry["type"];
+  size?: number;
+  mtimeMs?: number;
+}
+
+export interface UndoSnapshot {
+  id: string;
+  timestamp: number;
+  command: string;
+  cwd: string;
+  // Paths the command was expected to modify; recursive roots are captured with their whole tree
+  roots: { path: string; recursive: boolean }[];
+  // Every captured path, parents before children
+  entries: UndoEntry[];
+  bytes: number;
+  // The roots right after the command finished; absent if it never did
+  after?: UndoFingerprint[];
+}
+
+export interface ImpactSummary {
+  files: number;
+  directories: number;
+  totalBytes: number;
+  // A few affected paths, relative to the working directory where possible
+  sample: string[];
+  // The walk stopped early; counts are a lower bound
+  truncated: boolean;
+}
+
+// How long a "remember this approval" decision lasts ("once" is never stored)
+export type ApprovalScope = "session" | "directory" | "days";
+
+export interface CommandApproval {
+  id: string;
+  // Normalized command text the approval applies to
+  matcher: string;
+  scope: ApprovalScope;
+  // Only for directory-scoped approvals
+  cwd?: string;
+  // Only for time-limited approvals (epoch ms)
+  expiresAt?: number;
+  createdAt: number;
+}
+
+// How an executed command got past the safety check
+export type AuditDecision = "auto" | "approved" | "confirmed";
+
+// One line of ~/.magic-shell/audit.jsonl
+export interface AuditRecord {
+  timestamp: number;
+  input: string;
+  command: string;
+  // Translated by a model, or typed directly by the user
+  origin: "translated" | "direct";
+  model?: string;
+  provider?: Provider;
+  safety: SafetyAnalysis;
+  decision: AuditDecision;
+  cwd: string;
+  exitCode: number;
+  durationMs: number;
+  // SHA-256 of the previous record (all zeros for the first record)
+  prevHash: string;
+  // SHA-256 of this record without the hash field
+  hash: string;
+}
+
+// A model's answer to a natural language request
+export interface CommandTranslation {
+  // May span several lines
+  command: string;
+  // Why the model chose this command (empty when the model returned a bare command)
+  explanation: string;
+  // Guesses the model made to fill gaps in the request
+  assumptions: string[];
+  // 0 to 1; absent when the model returned a bare command
+  confidence?: number;
+  // Needs a TTY (editors, pagers, password prompts) and cannot run with captured output
+  requiresInteractive: boolean;
+  // Model that answered
+  model?: string;
+  provider?: Provider;
+  // The requested model, when it failed and a fallback answered instead
+  fallbackFrom?: string;
+  // Tokens used by the request that produced this translation (shared by all alternatives)
+  usage?: TokenUsage;
+  // Served from the translation cache instead of the model
+  cached?: boolean;
+}
+
+// One step of a multi-step plan
+export interface PlanStep {
+  command: string;
+  // What the step is for, in the model's words
+  purpose: string;
+  // The command depends on what earlier steps printed and is rewritten with their output before it runs
+  usesPreviousOutput: boolean;
+  requiresInteractive: boolean;
+}
+
+// A plan step that has run or was skipped, given to the model when planning what comes next
+export interface PlanStepOutcome {
+  command: string;
+  purpose: string;
+  // Absent when the step was skipped
+  exitCode?: number;
+  output: string;
+}
+
+export type PlanStepStatus = "pending" | "running" | "done" | "failed" | "skipped";
+
+// One simple command of an explained command line
+export interface ExplainedSegment {
+  text: string;
+  explanation: string;
+  // Flags and arguments worth spelling out, e.g. { flag: "-r", meaning: "recurse into directories" }
+  flags: { flag: string; meaning: string }[];
+  // analyzeCommand findings for this part of the command
+  findings: SafetyFinding[];
+}
+
+export interface CommandExplanation {
+  command: string;
+  summary: string;
+  segments: ExplainedSegment[];
+  // Findings about the command as a whole rather than one segment
+  findings: SafetyFinding[];
+  safety: SafetyAnalysis;
+}
+
+// One ranked alternative, analyzed on its own
+export interface CommandAlternative {
+  translation: CommandTranslation;
+  safety: SafetyAnalysis;
 }
 
 // Chat-style TUI message types
@@ -414,11 +943,24 @@ export interface ChatMessage {
   // For assistant messages (translated commands)
   command?: string;
   safety?: SafetyAnalysis;
+  // Model that translated the command (absent for direct commands)
+  model?: string;
+  provider?: Provider;
+  // Explanation, assumptions and confidence from the model
+  translation?: CommandTranslation;
+  // Every alternative the model offered; command, safety and translation mirror the selected one
+  alternatives?: CommandAlternative[];
+  alternativeIndex?: number;
+  // Position and progress when the command is a step of a plan
+  planStep?: { index: number; purpose: string; status: PlanStepStatus };
+  // The command is still arriving from the model
+  streaming?: boolean;
   // For result messages (after execution)
   executed?: boolean;
   output?: string;
   exitCode?: number;
   executionKind?: "auto" | "manual" | "dry-run";
+  // Results point at the command they ran; fix suggestions at the command that failed
   parentMessageId?: string;
   // For expandable output view
   expanded?: boolean;
@@ -428,3 +970,11 @@ export interface ChatMessage {
 export function isCustomModel(model: Model | CustomModel): model is CustomModel {
   return "baseUrl" in model;
 }
+
+export function isDirectProvider(provider: Provider): provider is DirectProvider {
+  return provider === "anthropic" || provider === "openai" || provider === "google";
+}
+
+export function isOfflineModel(model: Model | CustomModel): boolean {
+  return !isCustomModel(model) && model.provider === "offline";
+}
@@ -0,0 +1,292 @@
+import { homedir } from "os";
+import { dirname, join, sep } from "path";
+import { createHash, randomUUID } from "crypto";
+import { existsSync, readFileSync, writeFileSync, mkdirSync, lstatSync, readdirSync, readlinkSync, chmodSync, copyFileSync, rmSync, symlinkSync, unlinkSync, utimesSync, type Stats } from "fs";
+import type { UndoEntry, UndoFingerprint, UndoSettings, UndoSnapshot } from "./types";
+import { formatBytes } from "./impact";
+import { getModifiedPaths } from "./safety";
+
+const CONFIG_DIR = join(homedir(), ".magic-shell");
+const UNDO_DIR = join(CONFIG_DIR, "undo");
+const OBJECTS_DIR = join(UNDO_DIR, "objects");
+const SNAPSHOTS_FILE = join(UNDO_DIR, "snapshots.json");
+
+const DEFAULT_MAX_SNAPSHOTS = 20;
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+// Snapshots with more entries than this are not taken
+const MAX_ENTRIES = 20000;
+
+type UndoRoot = UndoSnapshot["roots"][number];
+
+function ensureUndoDir(): void {
+  if (!existsSync(OBJECTS_DIR)) {
+    mkdirSync(OBJECTS_DIR, { recursive: true });
+  }
+}
+
+/** File contents are stored once per sha256, so unchanged files cost nothing across snapshots */
+function objectPath(hash: string): string {
+  return join(OBJECTS_DIR, hash.slice(0, 2), hash);
+}
+
+function loadSnapshots(): UndoSnapshot[] {
+  if (!existsSync(SNAPSHOTS_FILE)) {
+    return [];
+  }
+  try {
+    return JSON.parse(readFileSync(SNAPSHOTS_FILE, "utf-8")) as UndoSnapshot[];
+  } catch {
+    return [];
+  }
+}
+
+function saveSnapshots(snapshots: UndoSnapshot[]): void {
+  ensureUndoDir();
+  writeFileSync(SNAPSHOTS_FILE, JSON.stringify(snapshots, null, 2));
+}
+
+/** Newest first */
+export function listSnapshots(): UndoSnapshot[] {
+  return loadSnapshots().reverse();
+}
+
+function isInside(path: string, parent: string): boolean {
+  return path === parent || path.startsWith(parent.endsWith(sep) ? parent : parent + sep);
+}
+
+/** Visit a root and, for recursive roots, everything beneath it; `stats` is undefined for a missing root */
+function walkRoot(root: UndoRoot, visit: (path: string, stats: Stats | undefined) => void): void {
+  let stats: Stats;
+  try {
+    stats = lstatSync(root.path);
+  } catch {
+    visit(root.path, undefined);
+    return;
+  }
+
+  const walk = (path: string, stats: Stats, recurse: boolean) => {
+    visit(path, stats);
+    if (!recurse || !stats.isDirectory()) return;
+    for (const name of readdirSync(path).sort()) {
+      const child = join(path, name);
+      walk(child, lstatSync(child), true);
+    }
+  };
+  walk(root.path, stats, root.recursive);
+}
+
+function captureEntries(root: UndoRoot, entries: (UndoEntry & { size: number })[]): void {
+  walkRoot(root, (path, stats) => {
+    if (entries.length >= MAX_ENTRIES) {
+      throw new Error(`more than ${MAX_ENTRIES} files to snapshot`);
+    }
+    if (!stats) {
+      entries.push({ path, type: "missing", size: 0 });
+      return;
+    }
+    const mode = stats.mode & 0o7777;
+    if (stats.isSymbolicLink()) {
+      entries.push({ path, type: "symlink", target: readlinkSync(path), size: 0 });
+    } else if (stats.isDirectory()) {
+      entries.push({ path, type: "directory", mode, size: 0 });
+    } else if (stats.isFile()) {
+      entries.push({ path, type: "file", mode, mtimeMs: stats.mtimeMs, size: stats.size });
+    }
+    // Sockets, FIFOs and devices are left alone
+  });
+}
+
+/** Type, size and modification time of every path under the roots, to tell later changes apart */
+function fingerprintRoots(roots: UndoRoot[]): UndoFingerprint[] {
+  const fingerprints: UndoFingerprint[] = [];
+  for (const root of roots) {
+    walkRoot(root, (path, stats) => {
+      if (fingerprints.length >= MAX_ENTRIES) {
+        throw new Error(`more than ${MAX_ENTRIES} files to fingerprint`);
+      }
+      if (!stats) fingerprints.push({ path, type: "missing" });
+      else if (stats.isSymbolicLink()) fingerprints.push({ path, type: "symlink" });
+      // A directory's own mtime changes with every child added or removed; the walk sees those children
+      else if (stats.isDirectory()) fingerprints.push({ path, type: "directory" });
+      else if (stats.isFile()) fingerprints.push({ path, type: "file", size: stats.size, mtimeMs: stats.mtimeMs });
+    });
+  }
+  return fingerprints;
+}
+
+function sameFingerprint(a: UndoFingerprint | undefined, b: UndoFingerprint | undefined): boolean {
+  // Restored mtimes are set with millisecond precision
+  const sameTime = a?.mtimeMs === b?.mtimeMs || Math.abs((a?.mtimeMs ?? 0) - (b?.mtimeMs ?? 0)) < 1;
+  return a?.type === b?.type && a?.size === b?.size && sameTime;
+}
+
+/**
+ * Copy the current state of the paths a command is about to modify into the
+ * undo store. Throws if the snapshot would exceed the size or entry limits;
+ * nothing is stored in that case.
+ */
+export function createSnapshot(command: string, cwd: string, paths: UndoRoot[], settings: UndoSettings): UndoSnapshot | null {
+  const maxBytes = settings.maxBytes ?? DEFAULT_MAX_BYTES;
+
+  // A root inside a recursive root is already covered by it, and the store never snapshots itself
+  const roots = paths.filter(
+    (root) => !isInside(root.path, UNDO_DIR) && !paths.some((other) => other !== root && other.recursive && other.path !== root.path && isInside(root.path, other.path)),
+  );
+  if (roots.length === 0) return null;
+
+  const entries: (UndoEntry & { size: number })[] = [];
+  for (const root of roots) {
+    captureEntries(root, entries);
+  }
+
+  const bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (bytes > maxBytes) {
+    throw new Error(`${formatBytes(bytes)} to snapshot exceeds the undo size cap of ${formatBytes(maxBytes)}`);
+  }
+
+  ensureUndoDir();
+  const stored: UndoEntry[] = entries.map(({ size: _size, ...entry }) => {
+    if (entry.type !== "file") return entry;
+    const content = readFileSync(entry.path);
+    const hash = createHash("sha256").update(content).digest("hex");
+    const object = objectPath(hash);
+    if (!existsSync(object)) {
+      mkdirSync(dirname(object), { recursive: true });
+      writeFileSync(object, content);
+    }
+    return { ...entry, hash };
+  });
+
+  const snapshot: UndoSnapshot = { id: randomUUID(), timestamp: Date.now(), command, cwd, roots, entries: stored, bytes };
+  prune([...loadSnapshots(), snapshot], settings);
+  return snapshot;
+}
+
+/**
+ * Record how the command left its paths. Undo compares against this, so it
+ * can remove what the command created and refuse once anything changed again.
+ */
+export function finishSnapshot(snapshot: UndoSnapshot): void {
+  const after = fingerprintRoots(snapshot.roots);
+  const snapshots = loadSnapshots();
+  const stored = snapshots.find((s) => s.id === snapshot.id);
+  if (!stored) return;
+  stored.after = after;
+  saveSnapshots(snapshots);
+}
+
+/** Snapshot whatever a shell command is about to modify; null if it modifies no files */
+export function snapshotCommand(command: string, cwd: string, settings: UndoSettings): UndoSnapshot | null {
+  const { paths, truncated } = getModifiedPaths(command, cwd);
+  if (truncated) {
+    throw new Error("command matches too many files to snapshot");
+  }
+  return createSnapshot(command, cwd, paths, settings);
+}
+
+/** Enforce the retention count and size cap, then drop objects no snapshot references */
+function prune(snapshots: UndoSnapshot[], settings: UndoSettings): void {
+  const maxSnapshots = settings.maxSnapshots ?? DEFAULT_MAX_SNAPSHOTS;
+  const maxBytes = settings.maxBytes ?? DEFAULT_MAX_BYTES;
+
+  let kept = snapshots.slice(-Math.max(maxSnapshots, 1));
+  while (kept.length > 1 && kept.reduce((sum, s) => sum + s.bytes, 0) > maxBytes) {
+    kept = kept.slice(1);
+  }
+  saveSnapshots(kept);
+  collectGarbage(kept);
+}
+
+function collectGarbage(snapshots: UndoSnapshot[]): void {
+  const live = new Set(snapshots.flatMap((s) => s.entries.map((e) => e.hash).filter(Boolean)));
+  if (!existsSync(OBJECTS_DIR)) return;
+  for (const prefix of readdirSync(OBJECTS_DIR)) {
+    for (const hash of readdirSync(join(OBJECTS_DIR, prefix))) {
+      if (!live.has(hash)) unlinkSync(join(OBJECTS_DIR, prefix, hash));
+    }
+  }
+}
+
+/**
+ * Put every captured path back the way it was and remove the paths the
+ * command created. Refuses when anything under the roots changed after the
+ * command finished, since restoring would destroy that later work. Without a
+ * record of the command finishing, captured paths are restored and nothing
+ * is removed.
+ */
+function restoreSnapshot(snapshot: UndoSnapshot): void {
+  // Check the store before touching anything on disk
+  for (const entry of snapshot.entries) {
+    if (entry.type === "file" && (!entry.hash || !existsSync(objectPath(entry.hash)))) {
+      throw new Error(`Snapshot content for ${entry.path} is missing from the undo store`);
+    }
+  }
+
+  const current = new Map(fingerprintRoots(snapshot.roots).map((f) => [f.path, f]));
+  let created: string[] = [];
+  if (snapshot.after) {
+    const after = new Map(snapshot.after.map((f) => [f.path, f]));
+    for (const path of new Set([...after.keys(), ...current.keys()])) {
+      if (!sameFingerprint(after.get(path), current.get(path))) {
+        throw new Error(`${path} changed after \`${snapshot.command}\` ran; undoing it would discard that change`);
+      }
+    }
+    const before = new Set(snapshot.entries.filter((e) => e.type !== "missing").map((e) => e.path));
+    created = snapshot.after.filter((f) => f.type !== "missing" && !before.has(f.path)).map((f) => f.path);
+  }
+
+  // Deepest first; a created directory takes its contents with it
+  for (const path of created.sort((a, b) => b.length - a.length)) {
+    rmSync(path, { recursive: true, force: true });
+  }
+
+  for (const entry of snapshot.entries) {
+    // Something else of a different kind now sits where the entry was
+    const now = current.get(entry.path);
+    if (now && now.type !== "missing" && now.type !== entry.type && !created.includes(entry.path)) {
+      rmSync(entry.path, { recursive: true, force: true });
+    }
+
+    switch (entry.type) {
+      case "directory":
+        mkdirSync(entry.path, { recursive: true });
+        break;
+      case "file":
+        if (!entry.hash) break;
+        mkdirSync(dirname(entry.path), { recursive: true });
+        copyFileSync(objectPath(entry.hash), entry.path);
+        if (entry.mode !== undefined) chmodSync(entry.path, entry.mode);
+        if (entry.mtimeMs !== undefined) utimesSync(entry.path, new Date(), new Date(entry.mtimeMs));
+        break;
+      case "symlink":
+        mkdirSync(dirname(entry.path), { recursive: true });
+        rmSync(entry.path, { force: true });
+        symlinkSync(entry.target ?? "", entry.path);
+        break;
+    }
+  }
+
+  // Directory modes go last so a read-only directory does not block restoring its children
+  for (const entry of [...snapshot.entries].reverse()) {
+    if (entry.type === "directory" && entry.mode !== undefined) chmodSync(entry.path, entry.mode);
+  }
+}
+
+/** Restore the most recent `count` snapshots, newest first, and remove them from the store */
+export function restoreSnapshots(count: number): UndoSnapshot[] {
+  const snapshots = loadSnapshots();
+  const restored: UndoSnapshot[] = [];
+
+  try {
+    for (const snapshot of snapshots.slice(-count).reverse()) {
+      restoreSnapshot(snapshot);
+      restored.push(snapshot);
+    }
+  } finally {
+    const remaining = snapshots.filter((s) => !restored.includes(s));
+    saveSnapshots(remaining);
+    collectGarbage(remaining);
+  }
+
+  return restored;
+}
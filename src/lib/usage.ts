@@ -0,0 +1,164 @@
+import { homedir } from "os";
+import { join } from "path";
+import { existsSync, readFileSync, appendFileSync, mkdirSync } from "fs";
+import type { BudgetSettings, CustomModel, Model, Provider, TokenUsage, UsageRecord } from "./types";
+import { isCustomModel } from "./types";
+
+const CONFIG_DIR = join(homedir(), ".magic-shell");
+const USAGE_FILE = join(CONFIG_DIR, "usage.jsonl");
+
+// Totals for requests made by this process
+const sessionUsage = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+
+export interface UsageTotal {
+  // "2026-01-15" for a day, "2026-01" for a month
+  period: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface BudgetStatus {
+  period: "daily" | "monthly";
+  limit: number;
+  spent: number;
+  blocked: boolean;
+}
+
+function ensureConfigDir(): void {
+  if (!existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+}
+
+/** Price a request from the model's list prices; free models and unpriced custom models cost nothing */
+export function priceUsage(model: Model | CustomModel, inputTokens: number, outputTokens: number): TokenUsage {
+  const free = !isCustomModel(model) && model.free;
+  const cost = free ? 0 : (inputTokens * (model.inputPrice ?? 0) + outputTokens * (model.outputPrice ?? 0)) / 1_000_000;
+  return { inputTokens, outputTokens, cost };
+}
+
+/** Whether requests to the model cost anything; a blocking budget only stops these */
+export function isPaid(model: Model | CustomModel): boolean {
+  return priceUsage(model, 1, 1).cost > 0;
+}
+
+/** Append a request's usage to the log and the session totals */
+export function recordUsage(model: Model | CustomModel, usage: TokenUsage): void {
+  const provider: Provider = isCustomModel(model) ? "custom" : model.provider;
+  const record: UsageRecord = { timestamp: Date.now(), model: model.id, provider, ...usage };
+
+  sessionUsage.requests++;
+  sessionUsage.inputTokens += usage.inputTokens;
+  sessionUsage.outputTokens += usage.outputTokens;
+  sessionUsage.cost += usage.cost;
+
+  ensureConfigDir();
+  appendFileSync(USAGE_FILE, JSON.stringify(record) + "\n");
+}
+
+export function getSessionUsage(): Readonly<typeof sessionUsage> {
+  return sessionUsage;
+}
+
+export function loadUsage(since = 0): UsageRecord[] {
+  if (!existsSync(USAGE_FILE)) {
+    return [];
+  }
+  const records: UsageRecord[] = [];
+  for (const line of readFileSync(USAGE_FILE, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as UsageRecord;
+      if (record.timestamp >= since) records.push(record);
+    } catch {
+      // Skip a line cut short by a crash
+    }
+  }
+  return records;
+}
+
+function dayKey(time: number): string {
+  const date = new Date(time);
+  return `${monthKey(time)}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function monthKey(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function startOfDay(time = Date.now()): number {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+function startOfMonth(time = Date.now()): number {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+/** Totals per local day or month, oldest first */
+export function summarizeUsage(records: UsageRecord[], by: "day" | "month"): UsageTotal[] {
+  const totals = new Map<string, UsageTotal>();
+  for (const record of records) {
+    const period = by === "day" ? dayKey(record.timestamp) : monthKey(record.timestamp);
+    const total = totals.get(period) ?? { period, requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    total.requests++;
+    total.inputTokens += record.inputTokens;
+    total.outputTokens += record.outputTokens;
+    total.cost += record.cost;
+    totals.set(period, total);
+  }
+  return [...totals.values()].sort((a, b) => a.period.localeCompare(b.period));
+}
+
+/** Today's and this month's totals, each of the last `days` days that had requests, and every month */
+export function getUsageReport(days = 7): { today: UsageTotal; month: UsageTotal; days: UsageTotal[]; months: UsageTotal[] } {
+  const records = loadUsage();
+  const now = Date.now();
+  const empty = (period: string): UsageTotal => ({ period, requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+  const since = startOfDay(now - (days - 1) * 24 * 60 * 60 * 1000);
+
+  return {
+    today: summarizeUsage(records.filter((r) => r.timestamp >= startOfDay(now)), "day")[0] ?? empty(dayKey(now)),
+    month: summarizeUsage(records.filter((r) => r.timestamp >= startOfMonth(now)), "month")[0] ?? empty(monthKey(now)),
+    days: summarizeUsage(records.filter((r) => r.timestamp >= since), "day"),
+    months: summarizeUsage(records, "month"),
+  };
+}
+
+/** The first limit spending has reached, daily before monthly; undefined while within budget */
+export function checkBudget(budget: BudgetSettings | undefined): BudgetStatus | undefined {
+  if (!budget || (budget.daily === undefined && budget.monthly === undefined)) {
+    return undefined;
+  }
+
+  const month = loadUsage(startOfMonth());
+  const today = startOfDay();
+  const limits = [
+    { period: "daily" as const, limit: budget.daily, spent: month.filter((r) => r.timestamp >= today).reduce((sum, r) => sum + r.cost, 0) },
+    { period: "monthly" as const, limit: budget.monthly, spent: month.reduce((sum, r) => sum + r.cost, 0) },
+  ];
+  for (const { period, limit, spent } of limits) {
+    if (limit !== undefined && spent >= limit) {
+      return { period, limit, spent, blocked: budget.action === "block" };
+    }
+  }
+  return undefined;
+}
+
+/** "$0.0042" for small amounts, "$1.23" otherwise */
+export function formatCost(cost: number): string {
+  return `$${cost > 0 && cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/** "12.3k" */
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+export function describeBudget(status: BudgetStatus): string {
+  return `${status.period === "daily" ? "Daily" : "Monthly"} budget of ${formatCost(status.limit)} reached (${formatCost(status.spent)} spent)`;
+}
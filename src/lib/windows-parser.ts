@@ -0,0 +1,552 @@
+/**
+ * Parsers for PowerShell and cmd.exe command lines.
+ *
+ * Like the POSIX parser they never execute or expand anything; they produce the
+ * same ParsedCommand shape so the safety rules can run against any shell.
+ * Program names are normalized: lowercased, without directory or `.exe`, and
+ * with aliases resolved (`rd` -> `remove-item` in PowerShell, `rmdir` -> `rd` in cmd).
+ */
+
+import type { ParsedCommand, Pipeline, Redirect, SimpleCommand } from "./shell-parser"
+
+// PowerShell aliases available on every platform
+const POWERSHELL_ALIASES: Record<string, string> = {
+  del: "remove-item",
+  erase: "remove-item",
+  rd: "remove-item",
+  ri: "remove-item",
+  copy: "copy-item",
+  cpi: "copy-item",
+  move: "move-item",
+  mi: "move-item",
+  dir: "get-childitem",
+  gci: "get-childitem",
+  gc: "get-content",
+  type: "get-content",
+  ni: "new-item",
+  iex: "invoke-expression",
+  iwr: "invoke-webrequest",
+  irm: "invoke-restmethod",
+  saps: "start-process",
+  spps: "stop-process",
+  gps: "get-process",
+  spsv: "stop-service",
+  "%": "foreach-object",
+  foreach: "foreach-object",
+  "?": "where-object",
+  where: "where-object",
+}
+
+// Aliases PowerShell only defines on Windows, where they do not shadow Unix commands
+const WINDOWS_POWERSHELL_ALIASES: Record<string, string> = {
+  rm: "remove-item",
+  rmdir: "remove-item",
+  cp: "copy-item",
+  mv: "move-item",
+  ls: "get-childitem",
+  cat: "get-content",
+  ps: "get-process",
+  kill: "stop-process",
+  start: "start-process",
+}
+
+const CMD_ALIASES: Record<string, string> = {
+  rmdir: "rd",
+  erase: "del",
+}
+
+function programName(word: string): string {
+  return (word.split(/[\\/]/).pop() ?? word).toLowerCase().replace(/\.exe$/, "")
+}
+
+function newCommand(start: number): SimpleCommand {
+  return { argv: [], rawArgv: [], assignments: [], redirects: [], substitutions: [], text: "", start, end: start, subshell: false }
+}
+
+interface PendingWord {
+  start: number
+  value: string
+  quoted: boolean
+  substitutions: string[]
+}
+
+class PowerShellParser {
+  private pos = 0
+  private word: PendingWord | null = null
+  private command: SimpleCommand | null = null
+  private pipeline: SimpleCommand[] = []
+  private pendingRedirect: Redirect | null = null
+  readonly pipelines: Pipeline[] = []
+  readonly commands: SimpleCommand[] = []
+  incomplete = false
+
+  constructor(
+    private readonly input: string,
+    private readonly windowsAliases: boolean,
+  ) {}
+
+  parse(): void {
+    const input = this.input
+    while (this.pos < input.length) {
+      const ch = input[this.pos]
+      const next = input[this.pos + 1]
+
+      if (ch === " " || ch === "\t" || ch === "\r") {
+        this.endWord()
+        this.pos++
+      } else if (ch === "\n" || ch === ";") {
+        this.endPipeline()
+        this.pos++
+      } else if (ch === "|") {
+        if (next === "|") {
+          this.endPipeline()
+          this.pos += 2
+        } else {
+          this.endCommand()
+          this.pos++
+        }
+      } else if (ch === "&") {
+        this.endWord()
+        if (next === "&") {
+          this.endPipeline()
+          this.pos += 2
+        } else if (!this.command || this.command.argv.length === 0) {
+          // Call operator: & "C:\tool.exe" args
+          this.pos++
+        } else {
+          this.endPipeline()
+          this.pos++
+        }
+      } else if (ch === "#" && !this.word) {
+        while (this.pos < input.length && input[this.pos] !== "\n") this.pos++
+      } else if (ch === "<" && next === "#") {
+        const close = input.indexOf("#>", this.pos + 2)
+        if (close === -1) this.incomplete = true
+        this.pos = close === -1 ? input.length : close + 2
+      } else if (!this.word && this.readRedirect()) {
+        continue
+      } else {
+        this.readWordPart()
+      }
+    }
+    this.endPipeline()
+  }
+
+  private readRedirect(): boolean {
+    const match = this.input.slice(this.pos).match(/^(\*|\d)?(>>?)(&(\d))?/)
+    if (!match) return false
+    const fd = match[1] && match[1] !== "*" ? Number(match[1]) : undefined
+    this.pos += match[0].length
+    const redirect: Redirect = { op: match[3] ? ">&" : match[2], fd, target: match[4] ?? "" }
+    this.ensureCommand(this.pos - match[0].length)
+    if (match[3]) {
+      this.command!.redirects.push(redirect)
+    } else {
+      this.pendingRedirect = redirect
+    }
+    return true
+  }
+
+  private readWordPart(): void {
+    const input = this.input
+    const ch = input[this.pos]
+    const next = input[this.pos + 1]
+    if (!this.word) this.word = { start: this.pos, value: "", quoted: false, substitutions: [] }
+    const word = this.word
+
+    if (ch === "`") {
+      word.quoted = true
+      // Backtick-newline is a line continuation
+      if (next !== "\n") word.value += next ?? ""
+      this.pos += 2
+    } else if (ch === "'") {
+      word.quoted = true
+      this.pos++
+      while (true) {
+        if (this.pos >= input.length) {
+          this.incomplete = true
+          break
+        }
+        if (input[this.pos] === "'") {
+          if (input[this.pos + 1] === "'") {
+            word.value += "'"
+            this.pos += 2
+            continue
+          }
+          this.pos++
+          break
+        }
+        word.value += input[this.pos++]
+      }
+    } else if (ch === '"') {
+      word.quoted = true
+      this.pos++
+      word.value += this.readDoubleQuoted(word)
+    } else if (ch === "@" && (next === "'" || next === '"') && /^[ \t]*\r?\n/.test(input.slice(this.pos + 2))) {
+      // Here-string: @'...'@ or @"..."@ with the closing marker at the start of a line
+      word.quoted = true
+      const close = input.indexOf(`\n${next}@`, this.pos + 2)
+      const bodyStart = input.indexOf("\n", this.pos + 2) + 1
+      word.value += close === -1 ? input.slice(bodyStart) : input.slice(bodyStart, close)
+      if (close === -1) this.incomplete = true
+      this.pos = close === -1 ? input.length : close + 3
+    } else if (ch === "(" || ch === "{" || ((ch === "$" || ch === "@") && (next === "(" || next === "{"))) {
+      // (...) grouping, $(...) / @(...) subexpressions, { } script blocks and @{ } hashtables
+      const openAt = ch === "(" || ch === "{" ? this.pos : this.pos + 1
+      const open = input[openAt]
+      const body = this.readBalanced(openAt + 1, open, open === "(" ? ")" : "}")
+      if (!(ch === "$" && next === "{")) word.substitutions.push(body.content)
+      word.value += input.slice(this.pos, body.end)
+      this.pos = body.end
+    } else {
+      word.value += ch
+      this.pos++
+    }
+  }
+
+  private readDoubleQuoted(word: PendingWord): string {
+    const input = this.input
+    let value = ""
+    while (true) {
+      if (this.pos >= input.length) {
+        this.incomplete = true
+        return value
+      }
+      const ch = input[this.pos]
+      if (ch === "`") {
+        value += input[this.pos + 1] ?? ""
+        this.pos += 2
+      } else if (ch === '"') {
+        if (input[this.pos + 1] === '"') {
+          value += '"'
+          this.pos += 2
+          continue
+        }
+        this.pos++
+        return value
+      } else if (ch === "$" && input[this.pos + 1] === "(") {
+        const body = this.readBalanced(this.pos + 2, "(", ")")
+        word.substitutions.push(body.content)
+        value += input.slice(this.pos, body.end)
+        this.pos = body.end
+      } else {
+        value += ch
+        this.pos++
+      }
+    }
+  }
+
+  /** Read up to the matching close bracket, skipping quoted strings */
+  private readBalanced(from: number, open: string, close: string): { content: string; end: number } {
+    const input = this.input
+    let depth = 1
+    let cursor = from
+    while (cursor < input.length) {
+      const ch = input[cursor]
+      if (ch === "`") {
+        cursor += 2
+        continue
+      }
+      if (ch === "'" || ch === '"') {
+        cursor++
+        while (cursor < input.length && input[cursor] !== ch) cursor += input[cursor] === "`" && ch === '"' ? 2 : 1
+        cursor++
+        continue
+      }
+      if (ch === open) depth++
+      if (ch === close && --depth === 0) return { content: input.slice(from, cursor), end: cursor + 1 }
+      cursor++
+    }
+    this.incomplete = true
+    return { content: input.slice(from), end: input.length }
+  }
+
+  private ensureCommand(start: number): void {
+    if (!this.command) this.command = newCommand(start)
+  }
+
+  private endWord(): void {
+    const word = this.word
+    if (!word) return
+    this.word = null
+    this.ensureCommand(word.start)
+    const command = this.command!
+    const raw = this.input.slice(word.start, this.pos)
+    command.end = this.pos
+    command.substitutions.push(...word.substitutions)
+
+    if (this.pendingRedirect) {
+      this.pendingRedirect.target = word.value
+      command.redirects.push(this.pendingRedirect)
+      this.pendingRedirect = null
+      return
+    }
+
+    // -Name:value is the same as -Name value
+    const colon = !word.quoted ? word.value.match(/^(-[A-Za-z][\w-]*):(.+)$/) : null
+    if (colon) {
+      command.argv.push(colon[1], colon[2])
+      command.rawArgv.push(colon[1], colon[2])
+    } else {
+      command.argv.push(word.value)
+      command.rawArgv.push(raw)
+    }
+  }
+
+  private endCommand(): void {
+    this.endWord()
+    const command = this.command
+    this.command = null
+    this.pendingRedirect = null
+    if (!command) return
+
+    // $result = Some-Command ...
+    if (command.argv.length > 1 && command.argv[0].startsWith("$") && command.argv[1] === "=") {
+      command.assignments.push(command.argv[0])
+      command.argv.splice(0, 2)
+      command.rawArgv.splice(0, 2)
+    }
+    if (command.argv.length === 0 && command.redirects.length === 0) return
+
+    if (command.argv.length > 0) {
+      const name = programName(command.argv[0])
+      command.argv[0] = (this.windowsAliases ? WINDOWS_POWERSHELL_ALIASES[name] : undefined) ?? POWERSHELL_ALIASES[name] ?? name
+    }
+    command.text = this.input.slice(command.start, command.end)
+    this.pipeline.push(command)
+    this.commands.push(command)
+  }
+
+  private endPipeline(): void {
+    this.endCommand()
+    if (this.pipeline.length === 0) return
+    const commands = this.pipeline
+    this.pipeline = []
+    this.pipelines.push({ commands, negated: false, text: this.input.slice(commands[0].start, commands[commands.length - 1].end) })
+  }
+}
+
+/**
+ * Parse a PowerShell command line. Script blocks, `$(...)` subexpressions and
+ * parenthesized expressions are returned as substitutions for nested analysis.
+ * Never throws.
+ */
+export function parsePowerShellCommand(input: string, options: { windowsAliases?: boolean } = {}): ParsedCommand {
+  const parser = new PowerShellParser(input, options.windowsAliases ?? true)
+  parser.parse()
+  return { pipelines: parser.pipelines, commands: parser.commands, incomplete: parser.incomplete }
+}
+
+type CmdToken =
+  | { kind: "word"; value: string; start: number; end: number }
+  | { kind: "op"; op: string; start: number; end: number }
+  | { kind: "redirect"; redirect: Redirect; start: number; end: number }
+
+function tokenizeCmd(input: string): { tokens: CmdToken[]; incomplete: boolean } {
+  const tokens: CmdToken[] = []
+  let incomplete = false
+  let depth = 0
+  let pos = 0
+
+  const readWord = (): { value: string; start: number; end: number } => {
+    const start = pos
+    let value = ""
+    let quoted = false
+    while (pos < input.length) {
+      const ch = input[pos]
+      if (quoted) {
+        if (ch === '"') quoted = false
+        else value += ch
+        pos++
+        continue
+      }
+      if (" \t\r\n&|<>".includes(ch) || (ch === ")" && depth > 0)) break
+      if (ch === '"') {
+        quoted = true
+        pos++
+      } else if (ch === "^") {
+        // Caret escapes the next character; caret-newline continues the line
+        if (input[pos + 1] !== "\n") value += input[pos + 1] ?? ""
+        pos += 2
+      } else {
+        value += ch
+        pos++
+      }
+    }
+    if (quoted) incomplete = true
+    return { value, start, end: pos }
+  }
+
+  while (pos < input.length) {
+    const ch = input[pos]
+    const next = input[pos + 1]
+    if (ch === " " || ch === "\t" || ch === "\r") {
+      pos++
+    } else if (ch === "\n") {
+      tokens.push({ kind: "op", op: "\n", start: pos, end: ++pos })
+    } else if (ch === "&" || ch === "|") {
+      const op = next === ch ? ch + ch : ch
+      tokens.push({ kind: "op", op, start: pos, end: (pos += op.length) })
+    } else if (ch === "(") {
+      depth++
+      tokens.push({ kind: "op", op: "(", start: pos, end: ++pos })
+    } else if (ch === ")" && depth > 0) {
+      depth--
+      tokens.push({ kind: "op", op: ")", start: pos, end: ++pos })
+    } else {
+      const redirect = input.slice(pos).match(/^(\d)?(>>?|<)(&(\d))?/)
+      if (redirect) {
+        const start = pos
+        pos += redirect[0].length
+        let target = redirect[4] ?? ""
+        if (!redirect[3]) {
+          while (input[pos] === " " || input[pos] === "\t") pos++
+          target = readWord().value
+        }
+        tokens.push({ kind: "redirect", redirect: { op: redirect[3] ? ">&" : redirect[2], fd: redirect[1] ? Number(redirect[1]) : undefined, target }, start, end: pos })
+      } else {
+        tokens.push({ kind: "word", ...readWord() })
+      }
+    }
+  }
+
+  if (depth > 0) incomplete = true
+  return { tokens, incomplete }
+}
+
+// Words after `if` that take one operand before the conditional command
+const CMD_IF_OPERATORS = ["exist", "defined", "errorlevel", "cmdextversion"]
+
+class CmdParser {
+  private index = 0
+  readonly pipelines: Pipeline[] = []
+  readonly commands: SimpleCommand[] = []
+  incomplete = false
+
+  constructor(
+    private readonly input: string,
+    private readonly tokens: CmdToken[],
+  ) {}
+
+  parseSequence(inGroup: boolean): void {
+    while (this.index < this.tokens.length) {
+      const token = this.tokens[this.index]
+      if (token.kind === "op" && token.op === ")") {
+        if (inGroup) return
+        this.index++
+      } else if (token.kind === "op" && token.op !== "(") {
+        this.index++
+      } else {
+        this.parsePipeline()
+      }
+    }
+    if (inGroup) this.incomplete = true
+  }
+
+  private parsePipeline(): void {
+    const commands: SimpleCommand[] = []
+    while (true) {
+      commands.push(...this.parseCommand())
+      const token = this.tokens[this.index]
+      if (token?.kind === "op" && token.op === "|") {
+        this.index++
+        continue
+      }
+      break
+    }
+    if (commands.length > 0) {
+      const text = this.input.slice(Math.min(...commands.map((c) => c.start)), Math.max(...commands.map((c) => c.end)))
+      this.pipelines.push({ commands, negated: false, text })
+    }
+  }
+
+  private peekWord(): string | undefined {
+    const token = this.tokens[this.index]
+    return token?.kind === "word" ? token.value.toLowerCase() : undefined
+  }
+
+  private parseCommand(): SimpleCommand[] {
+    const token = this.tokens[this.index]
+    if (!token) return []
+
+    // ( command & command ) groups become their own pipelines
+    if (token.kind === "op" && token.op === "(") {
+      this.index++
+      this.parseSequence(true)
+      if (this.tokens[this.index]?.kind === "op") this.index++
+      return []
+    }
+
+    const keyword = this.peekWord()?.replace(/^@/, "")
+    if (keyword === "if") {
+      this.index++
+      if (this.peekWord() === "/i") this.index++
+      if (this.peekWord() === "not") this.index++
+      const operator = this.peekWord()
+      if (operator && CMD_IF_OPERATORS.includes(operator)) this.index += 2
+      else if (operator?.includes("==")) this.index++
+      else this.index += 3
+      const body = this.parseCommand()
+      if (this.peekWord() === "else") {
+        this.index++
+        body.push(...this.parseCommand())
+      }
+      return body
+    }
+    if (keyword === "for") {
+      // for [/d|/r|/l|/f ...] %%v in (set) do command
+      while (this.index < this.tokens.length && this.peekWord() !== "do") this.index++
+      this.index++
+      return this.parseCommand()
+    }
+
+    const simple = this.parseSimpleCommand()
+    return simple ? [simple] : []
+  }
+
+  private parseSimpleCommand(): SimpleCommand | null {
+    let command: SimpleCommand | null = null
+    let parens = 0
+
+    while (this.index < this.tokens.length) {
+      const token = this.tokens[this.index]
+      if (token.kind === "op") {
+        // A ( inside a command, as in `echo (x)`, is just text
+        if (token.op === "(" && command) parens++
+        else if (token.op === ")" && parens > 0) parens--
+        else break
+      }
+      if (this.input[token.start] === "@" && !command) token.start++
+      command ??= newCommand(token.start)
+      command.end = token.end
+      this.index++
+
+      if (token.kind === "redirect") {
+        command.redirects.push(token.redirect)
+      } else {
+        const value = token.kind === "word" ? token.value : token.op
+        const word = command.argv.length === 0 ? value.replace(/^@/, "") : value
+        command.argv.push(word)
+        command.rawArgv.push(this.input.slice(token.start, token.end))
+      }
+    }
+
+    if (!command || (command.argv.length === 0 && command.redirects.length === 0)) return null
+    if (command.argv.length > 0) {
+      const name = programName(command.argv[0])
+      command.argv[0] = CMD_ALIASES[name] ?? name
+    }
+    command.text = this.input.slice(command.start, command.end)
+    this.commands.push(command)
+    return command
+  }
+}
+
+/** Parse a cmd.exe command line, including `if ... command` and `for ... do command`. Never throws. */
+export function parseCmdCommand(input: string): ParsedCommand {
+  const { tokens, incomplete } = tokenizeCmd(input)
+  const parser = new CmdParser(input, tokens)
+  parser.parseSequence(false)
+  const commands = [...parser.commands].sort((a, b) => a.start - b.start)
+  return { pipelines: parser.pipelines, commands, incomplete: incomplete || parser.incomplete }
+}